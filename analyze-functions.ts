@@ -10,7 +10,10 @@ import { analyzeFunctions } from './src/analyzer/function-analyzer-pure';
  * Example Input:
  * ```
  * npm run analyze /path/to/target/directory
+ * npm run analyze /path/to/target/directory /path/to/target/tsconfig.json
  * ANALYSIS_TARGET_DIR=/path/to/target npm run analyze
+ * ANALYSIS_WORKERS=4 npm run analyze /path/to/target/directory
+ * ANALYSIS_WORKSPACE=true npm run analyze /path/to/monorepo
  * ```
  * 
  * Expected Output:
@@ -22,14 +25,28 @@ import { analyzeFunctions } from './src/analyzer/function-analyzer-pure';
 async function main() {
   const targetDir = process.argv[2] || process.env.ANALYSIS_TARGET_DIR || './src';
   const resolvedDir = path.resolve(targetDir);
+  const tsconfig = process.argv[3] || process.env.ANALYSIS_TSCONFIG;
+  const resolvedTsconfig = tsconfig ? path.resolve(tsconfig) : undefined;
 
   if (!fs.existsSync(resolvedDir)) {
     console.error(`❌ Error: Target directory does not exist: ${resolvedDir}`);
     process.exit(1);
   }
 
+  if (resolvedTsconfig && !fs.existsSync(resolvedTsconfig)) {
+    console.error(`❌ Error: tsconfig does not exist: ${resolvedTsconfig}`);
+    process.exit(1);
+  }
+
   // Run the analyzer
-  const { result: output } = await analyzeFunctions(resolvedDir);
+  const extensions = process.env.ANALYSIS_EXTENSIONS?.split(',').map(ext => ext.trim()).filter(Boolean);
+  const { result: output } = await analyzeFunctions(resolvedDir, {
+    ...(resolvedTsconfig && { tsconfigPath: resolvedTsconfig }),
+    ...(extensions && { extensions }),
+    ...(process.env.ANALYSIS_WORKERS && { workers: process.env.ANALYSIS_WORKERS }),
+    ...(process.env.ANALYSIS_WORKSPACE === 'true' && { workspace: true }),
+    allowJs: process.env.ANALYSIS_ALLOW_JS === 'true'
+  });
 
   // Create output directory if it doesn't exist
   const scriptDir = path.dirname(new URL(import.meta.url).pathname);
@@ -60,6 +77,11 @@ async function main() {
   console.error(`  Medium complexity (4-9): ${output.summary.mediumComplexity}`);
   console.error(`  High complexity (10-19): ${output.summary.highComplexity}`);
   console.error(`  Very high complexity (20+): ${output.summary.veryHighComplexity}\n`);
+  if (output.packages) {
+    console.error(`Cross-package calls:`);
+    output.packages.coupling.forEach(({ from, to, count }) => console.error(`  ${from} → ${to}: ${count}`));
+    console.error('');
+  }
 
   // Also output to stdout for piping
   console.log(JSON.stringify(output, null, 2));
@@ -24,7 +24,13 @@ import { promisify } from 'util';
 import dotenv from 'dotenv';
 import type { AnalysisResult, EffectNode } from './src/types/effect-node.js';
 import { analyzeFunctions } from './src/analyzer/function-analyzer-pure.js';
-import type { FunctionAnalysisResult } from './src/analyzer/function-analyzer-types.js';
+import type { FunctionAnalysisResult, FunctionAnalysisCache, CacheStats } from './src/analyzer/function-analyzer-types.js';
+import { loadFunctionAnalysisCache, saveFunctionAnalysisCache, loadProject, hashProjectSources } from './src/crawler/file-io.js';
+import type { ProjectOptions } from './src/crawler/file-io.js';
+import { analyzeProjectInWorkers } from './src/crawler/parallel-analyzer.js';
+import { resolveWorkerCount } from './src/crawler/worker-pool.js';
+import { generateEnvExample } from './src/crawler/config-pure.js';
+import { analyzeResilience, generateResilienceReport } from './src/calculator/targeted-effect-calculator-pure.js';
 
 // Load environment variables from .env file
 dotenv.config();
@@ -39,6 +45,23 @@ const PORT = process.env.PORT || 3004;
 // Configuration from environment variables
 const ANALYSIS_TARGET_DIR = process.env.ANALYSIS_TARGET_DIR || __dirname;
 const ANALYSIS_CACHE_MS = parseInt(process.env.ANALYSIS_CACHE_MS) || 30000;
+const ANALYSIS_TSCONFIG = process.env.ANALYSIS_TSCONFIG; // Optional tsconfig.json for the target project
+const ANALYSIS_EXTENSIONS = process.env.ANALYSIS_EXTENSIONS?.split(',').map(ext => ext.trim()).filter(Boolean);
+const ANALYSIS_ALLOW_JS = process.env.ANALYSIS_ALLOW_JS === 'true';
+const ANALYSIS_WORKERS = process.env.ANALYSIS_WORKERS; // Worker threads for analysis, a number or 'auto'
+const ANALYSIS_WORKSPACE = process.env.ANALYSIS_WORKSPACE === 'true'; // Target is an npm/pnpm workspace root
+const ANALYSIS_RULES = process.env.ANALYSIS_RULES; // Optional classification rules file for the target project
+const ANALYSIS_CACHE_FILE = process.env.ANALYSIS_CACHE_FILE || path.join(__dirname, '.cache', 'function-analysis.json');
+
+// Source selection shared by every analysis run
+const getProjectOptions = (tsconfigPath?: string, workspace = false) => ({
+  ...(tsconfigPath && { tsconfigPath }),
+  ...(workspace && { workspace }),
+  ...(ANALYSIS_EXTENSIONS && { extensions: ANALYSIS_EXTENSIONS }),
+  ...(ANALYSIS_WORKERS && { workers: ANALYSIS_WORKERS }),
+  ...(ANALYSIS_RULES && { rulesPath: ANALYSIS_RULES }),
+  allowJs: ANALYSIS_ALLOW_JS
+});
 
 // Middleware
 app.use(cors());
@@ -55,11 +78,21 @@ interface APIAnalysisResult {
   upstreamNodes: EffectNode[];
   downstreamNodes: EffectNode[];
   riskLevel: 'low' | 'medium' | 'high';
+  schemaUsages?: SchemaUsageSummary[]; // Set when the query found a schema
   operation: string;
   timestamp: string;
   lastAnalysis?: string;
 }
 
+// An effect that decodes, encodes or returns a schema
+interface SchemaUsageSummary {
+  effect: string;
+  id: string;
+  usage: string;   // 'decodes' | 'encodes' | 'returns'
+  filePath: string;
+  line?: number;
+}
+
 interface BatchAnalysisRequest {
   queries: Array<string | { query: string; operation?: string }>;
 }
@@ -75,6 +108,38 @@ interface AnalyzeRequest {
 let analysisData: AnalysisResult | null = null;
 let lastAnalysisTime = 0;
 
+// Content-hash cache of the function analysis, persisted between refreshes and restarts
+let functionAnalysisCache: FunctionAnalysisCache | undefined;
+let lastCacheStats: CacheStats | null = null;
+
+// Effect crawl of the target: schemas, services, routes, layers and the reports built on them
+// The crawl type-checks the whole project, so it is reused while the sources it reads hash the same
+let effectAnalysisCache: { key: string; analyzedAt: number; result: AnalysisResult | undefined } | null = null;
+
+async function getEffectAnalysis(
+  targetDir: string = ANALYSIS_TARGET_DIR,
+  options: ProjectOptions = getProjectOptions(ANALYSIS_TSCONFIG, ANALYSIS_WORKSPACE),
+  force = false
+): Promise<AnalysisResult | undefined> {
+  const key = hashProjectSources(targetDir, options);
+  if (!force && effectAnalysisCache?.key === key) {
+    console.log('📋 Using cached Effect analysis');
+    return effectAnalysisCache.result;
+  }
+  
+  console.log(`🔄 Crawling Effect code in: ${targetDir}`);
+  let result: AnalysisResult | undefined;
+  try {
+    const project = await loadProject(targetDir, options);
+    result = await analyzeProjectInWorkers(project, resolveWorkerCount(ANALYSIS_WORKERS));
+  } catch (error) {
+    console.warn('⚠️ Effect analysis failed:', error.message);
+    result = undefined;
+  }
+  effectAnalysisCache = { key, analyzedAt: Date.now(), result };
+  return result;
+}
+
 async function refreshAnalysisData(force = false) {
   const now = Date.now();
   if (!force && analysisData && (now - lastAnalysisTime) < ANALYSIS_CACHE_MS) {
@@ -86,27 +151,49 @@ async function refreshAnalysisData(force = false) {
   try {
     // Use the pure function analyzer directly instead of command line
     console.log('🔍 Running function analysis with pure functions...');
-    const { result, logs } = await analyzeFunctions(ANALYSIS_TARGET_DIR);
+    if (!functionAnalysisCache) {
+      functionAnalysisCache = loadFunctionAnalysisCache(ANALYSIS_CACHE_FILE);
+    }
+    const { result, logs, cache, cacheStats } = await analyzeFunctions(ANALYSIS_TARGET_DIR, {
+      ...getProjectOptions(ANALYSIS_TSCONFIG, ANALYSIS_WORKSPACE),
+      ...(functionAnalysisCache && { cache: functionAnalysisCache })
+    });
     
     // Log any warnings or info from the analyzer
     if (logs.length > 0) {
       console.log('📋 Analysis logs:', logs.join('\n'));
     }
     
-    // Convert function analysis to railway data format
-    // For now, return a basic structure - this can be enhanced later
+    functionAnalysisCache = cache;
+    lastCacheStats = cacheStats;
+    console.log(`♻️ Analysis cache: ${cacheStats.reusedFiles} files reused, ${cacheStats.reparsedFiles} reparsed, ${cacheStats.relinkedFiles} relinked`);
+    try {
+      saveFunctionAnalysisCache(cache, ANALYSIS_CACHE_FILE);
+    } catch (error) {
+      console.warn(`⚠️ Could not save analysis cache to ${ANALYSIS_CACHE_FILE}:`, error.message);
+    }
+    
+    // Convert function analysis to railway data format, with the crawler's schema nodes
+    // and the edges from the effects decoding, encoding or returning them
+    const effectAnalysis = await getEffectAnalysis(undefined, undefined, force);
+    const schemaEdges = effectAnalysis?.railway.edges.filter(edge => edge.type === 'schema') || [];
+    const schemaEnds = new Set(schemaEdges.flatMap(edge => [edge.source, edge.target]));
+    const functionIds = new Set(result.functions.map(func => func.id));
+    const schemaNodes = effectAnalysis?.railway.nodes.filter(node =>
+      (node.type === 'schema' || schemaEnds.has(node.id)) && !functionIds.has(node.id)) || [];
     const newData = {
       railway: {
-        nodes: result.functions.map(func => ({
-          id: `${func.file}:${func.startLine}`,
+        nodes: [...result.functions.map(func => ({
+          id: func.id,
           name: func.name,
-          type: func.folder,
+          type: func.type,
           filePath: func.file,
           line: func.startLine,
           folder: func.folder,
+          ...(func.package && { package: func.package }),
           description: `${func.kind} with ${func.parameters.length} parameters`
-        })),
-        edges: [],
+        })), ...schemaNodes],
+        edges: schemaEdges,
         layers: {
           controllers: [],
           services: [],
@@ -114,21 +201,24 @@ async function refreshAnalysisData(force = false) {
           middleware: [],
           utilities: [],
           workers: [],
-          errors: []
+          errors: [],
+          schemas: [],
+          dataflow: []
         },
         entryPoints: [],
         compositions: []
       },
       statistics: {
-        totalNodes: result.functions.length,
-        totalEdges: 0,
+        totalNodes: result.functions.length + schemaNodes.length,
+        totalEdges: schemaEdges.length,
         nodesByFolder: result.folderStats
-      }
+      },
+      ...(result.packages && { packages: result.packages })
     };
     
     analysisData = newData;
     lastAnalysisTime = now;
-    console.log(`✅ Refreshed analysis data: ${newData.railway.nodes.length} nodes from function analysis`);
+    console.log(`✅ Refreshed analysis data: ${newData.railway.nodes.length} nodes from function and Effect analysis`);
     return analysisData;
   } catch (error) {
     console.warn('⚠️ Failed to refresh analysis using pure functions:', error.message);
@@ -239,6 +329,7 @@ class APITargetedEffectCalculator {
 
     const upstream = this.getAllUpstream(foundEffect.id);
     const downstream = this.getAllDownstream(foundEffect.id);
+    const schemaUsages = foundEffect.schema ? this.getSchemaUsages(foundEffect.id) : undefined;
     
     return {
       foundEffect,
@@ -247,11 +338,28 @@ class APITargetedEffectCalculator {
       upstreamNodes: upstream.map(id => this.nodes.get(id)).filter(Boolean),
       downstreamNodes: downstream.map(id => this.nodes.get(id)).filter(Boolean),
       riskLevel: this.calculateRisk(upstream.length, downstream.length, foundEffect),
+      ...(schemaUsages && { schemaUsages }),
       operation,
       timestamp: new Date().toISOString()
     };
   }
 
+  // Effects that decode, encode or return the schema
+  getSchemaUsages(schemaId): SchemaUsageSummary[] {
+    return this.analysis.railway.edges
+      .filter(edge => edge.type === 'schema' && edge.target === schemaId)
+      .map(edge => {
+        const effect = this.nodes.get(edge.source);
+        return {
+          effect: effect?.name || edge.source,
+          id: edge.source,
+          usage: edge.label,
+          filePath: effect?.filePath || '',
+          ...(edge.line && { line: edge.line })
+        };
+      });
+  }
+  
   getAllUpstream(nodeId) {
     const visited = new Set();
     const upstream = [];
@@ -320,7 +428,8 @@ app.get('/api/health', (req: Request, res: Response) => {
     timestamp: new Date().toISOString(),
     dataLoaded: !!analysisData,
     totalNodes: analysisData?.railway?.nodes?.length || 0,
-    targetDirectory: ANALYSIS_TARGET_DIR
+    targetDirectory: ANALYSIS_TARGET_DIR,
+    analysisCache: lastCacheStats
   });
 });
 
@@ -343,6 +452,98 @@ app.get('/api/effects', async (req, res) => {
   }
 });
 
+// Effect.all / forEach call sites that run with `concurrency: "unbounded"`
+app.get('/api/concurrency', async (req, res) => {
+  try {
+    const effectAnalysis = await getEffectAnalysis(undefined, undefined, req.query.refresh === 'force');
+    const unboundedConcurrency = effectAnalysis?.unboundedConcurrency || [];
+    res.json({
+      unboundedConcurrency,
+      total: unboundedConcurrency.length,
+      timestamp: new Date().toISOString(),
+      lastAnalysis: new Date(effectAnalysisCache?.analyzedAt || 0).toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Scoped effects whose scope no Effect.scoped or scoped layer closes
+app.get('/api/resources', async (req, res) => {
+  try {
+    const effectAnalysis = await getEffectAnalysis(undefined, undefined, req.query.refresh === 'force');
+    const unclosedScopes = effectAnalysis?.unclosedScopes || [];
+    res.json({
+      unclosedScopes,
+      total: unclosedScopes.length,
+      timestamp: new Date().toISOString(),
+      lastAnalysis: new Date(effectAnalysisCache?.analyzedAt || 0).toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Where programs are run, with their kind and layers, and runs nested inside effects
+app.get('/api/entry-points', async (req, res) => {
+  try {
+    const effectAnalysis = await getEffectAnalysis(undefined, undefined, req.query.refresh === 'force');
+    const programs = (effectAnalysis?.railway.nodes || []).filter(node => node.runtime);
+    res.json({
+      programs,
+      nestedRuns: effectAnalysis?.nestedRuns || [],
+      total: programs.length,
+      timestamp: new Date().toISOString(),
+      lastAnalysis: new Date(effectAnalysisCache?.analyzedAt || 0).toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Config keys each route or worker needs, and where ConfigProviders are supplied
+// `?format=env` returns them as a .env.example instead
+app.get('/api/config', async (req, res) => {
+  try {
+    const effectAnalysis = await getEffectAnalysis(undefined, undefined, req.query.refresh === 'force');
+    const configInventory = effectAnalysis?.configInventory || [];
+    if (req.query.format === 'env') {
+      res.type('text/plain').send(generateEnvExample(configInventory));
+      return;
+    }
+    res.json({
+      configInventory,
+      configProviders: effectAnalysis?.configProviders || [],
+      total: configInventory.length,
+      timestamp: new Date().toISOString(),
+      lastAnalysis: new Date(effectAnalysisCache?.analyzedAt || 0).toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// IO effects each entry point reaches without a timeout or retry
+// `?format=markdown` returns the report as text
+app.get('/api/resilience', async (req, res) => {
+  try {
+    const effectAnalysis = await getEffectAnalysis(undefined, undefined, req.query.refresh === 'force');
+    if (req.query.format === 'markdown') {
+      res.type('text/plain').send(effectAnalysis ? generateResilienceReport(effectAnalysis) : '');
+      return;
+    }
+    const entries = effectAnalysis ? analyzeResilience(effectAnalysis) : [];
+    res.json({
+      entries,
+      total: entries.reduce((sum, entry) => sum + entry.unprotected.length, 0),
+      timestamp: new Date().toISOString(),
+      lastAnalysis: new Date(effectAnalysisCache?.analyzedAt || 0).toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Analyze specific effect (GET)
 app.get('/api/analyze', async (req, res) => {
   try {
@@ -409,7 +610,7 @@ app.post('/api/analyze', async (req, res) => {
 // Analyze functions in a directory
 app.post('/api/analyze/functions', async (req, res) => {
   try {
-    const { targetDir } = req.body;
+    const { targetDir, tsconfig, workspace } = req.body;
     
     if (!targetDir) {
       return res.status(400).json({ error: 'targetDir field is required' });
@@ -422,7 +623,7 @@ app.post('/api/analyze/functions', async (req, res) => {
     }
     
     console.log(`🔍 Starting function analysis for: ${resolvedDir}`);
-    const { result } = await analyzeFunctions(resolvedDir);
+    const { result } = await analyzeFunctions(resolvedDir, getProjectOptions(tsconfig && path.resolve(tsconfig), workspace === true));
     
     res.json({
       success: true,
@@ -442,6 +643,8 @@ app.post('/api/analyze/functions', async (req, res) => {
 app.get('/api/analyze/functions', async (req, res) => {
   try {
     const targetDir = req.query.targetDir || ANALYSIS_TARGET_DIR;
+    const tsconfig = req.query.tsconfig || (req.query.targetDir ? undefined : ANALYSIS_TSCONFIG);
+    const workspace = req.query.workspace ? req.query.workspace === 'true' : !req.query.targetDir && ANALYSIS_WORKSPACE;
     const resolvedDir = path.resolve(targetDir);
     
     if (!fs.existsSync(resolvedDir)) {
@@ -449,7 +652,7 @@ app.get('/api/analyze/functions', async (req, res) => {
     }
     
     console.log(`🔍 Starting function analysis for: ${resolvedDir}`);
-    const { result } = await analyzeFunctions(resolvedDir);
+    const { result } = await analyzeFunctions(resolvedDir, getProjectOptions(tsconfig && path.resolve(tsconfig), workspace));
     
     res.json({
       success: true,
@@ -465,6 +668,39 @@ app.get('/api/analyze/functions', async (req, res) => {
   }
 });
 
+// Effect crawl of a directory: routes, programs, layers, spans and the reports built on them
+// Reused until the directory's sources change; `?refresh=force` crawls it again
+app.get('/api/analyze/effects', async (req, res) => {
+  try {
+    const targetDir = req.query.targetDir || ANALYSIS_TARGET_DIR;
+    const tsconfig = req.query.tsconfig || (req.query.targetDir ? undefined : ANALYSIS_TSCONFIG);
+    const workspace = req.query.workspace ? req.query.workspace === 'true' : !req.query.targetDir && ANALYSIS_WORKSPACE;
+    const resolvedDir = path.resolve(targetDir);
+    
+    if (!fs.existsSync(resolvedDir)) {
+      return res.status(400).json({ error: `Directory does not exist: ${resolvedDir}` });
+    }
+    
+    const analysis = await getEffectAnalysis(resolvedDir, getProjectOptions(tsconfig && path.resolve(tsconfig), workspace),
+                                             req.query.refresh === 'force');
+    if (!analysis) {
+      return res.status(500).json({ error: `Effect analysis failed for ${resolvedDir}` });
+    }
+    
+    res.json({
+      success: true,
+      analysis,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Effect analysis error:', error);
+    res.status(500).json({ 
+      error: error.message,
+      details: 'Failed to crawl Effect code in the specified directory'
+    });
+  }
+});
+
 // Batch analyze multiple effects
 app.post('/api/analyze/batch', (req, res) => {
   try {
@@ -517,6 +753,7 @@ app.listen(PORT, () => {
   console.log('  POST /api/analyze/batch  - Batch analyze effects');
   console.log('  GET  /api/analyze/functions - Analyze functions in target directory');
   console.log('  POST /api/analyze/functions - Analyze functions with custom directory');
+  console.log('  GET  /api/analyze/effects - Crawl Effect code in target directory');
   console.log('');
   console.log('🎯 Example queries:');
   console.log('  curl "http://localhost:3004/api/analyze?query=LoggerService"');
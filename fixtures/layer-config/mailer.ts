@@ -0,0 +1,13 @@
+import { Config, Context, Effect, Layer } from "effect"
+
+export class Mailer extends Context.Tag("app/Mailer")<Mailer, {
+  readonly send: (to: string, body: string) => Effect.Effect<void>
+}>() {}
+
+// Config read by a named constructor effect, given to a curried Layer.effect
+const makeMailer = Effect.gen(function* () {
+  const host = yield* Config.string("SMTP_HOST")
+  return { send: (to: string, body: string) => Effect.log(`${host}: ${to} <- ${body}`) }
+})
+
+export const MailerLive = Layer.effect(Mailer)(makeMailer)
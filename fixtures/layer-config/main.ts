@@ -0,0 +1,14 @@
+import { Effect, Layer } from "effect"
+import { UserRepo, UserRepoLive } from "./user-repo"
+import { Mailer, MailerLive } from "./mailer"
+
+// Reads no config itself; its entry needs DATABASE_URL, POOL_SIZE and SMTP_HOST
+// through the layers building UserRepo and Mailer
+export const welcomeUser = (id: string) => Effect.gen(function* () {
+  const repo = yield* UserRepo
+  const mailer = yield* Mailer
+  const user = yield* repo.find(id)
+  yield* mailer.send(user, "Welcome")
+})
+
+Effect.runPromise(welcomeUser("1").pipe(Effect.provide(Layer.merge(UserRepoLive, MailerLive))))
@@ -0,0 +1,15 @@
+import { Config, Context, Effect, Layer } from "effect"
+
+export class UserRepo extends Context.Tag("app/UserRepo")<UserRepo, {
+  readonly find: (id: string) => Effect.Effect<string>
+}>() {}
+
+// Config read only inside the layer constructor
+export const UserRepoLive = Layer.effect(
+  UserRepo,
+  Effect.gen(function* () {
+    const url = yield* Config.redacted("DATABASE_URL")
+    const poolSize = yield* Config.integer("POOL_SIZE").pipe(Config.withDefault(10))
+    return { find: (id: string) => Effect.succeed(`${id} from ${String(url)} (pool ${poolSize})`) }
+  })
+)
@@ -0,0 +1,18 @@
+import { Effect } from "effect"
+import { UserRepo, UserRepoLive, useConn } from "./user-repo.js"
+
+export const findUser = (id: string) =>
+  Effect.gen(function* () {
+    const repo = yield* UserRepo
+    return yield* repo.find(id)
+  })
+
+// Every yield* below is wrapped in an Effect combinator and still depends on what it wraps
+export const loadUser = (id: string) =>
+  Effect.gen(function* () {
+    const repo = yield* UserRepo
+    yield* Effect.scoped(useConn)
+    const user = yield* Effect.provide(findUser(id), UserRepoLive)
+    yield* Effect.withSpan(repo.find(id), "loadUser.find")
+    return user
+  })
@@ -0,0 +1,14 @@
+import { Context, Effect, Layer } from "effect"
+
+export class UserRepo extends Context.Tag("app/UserRepo")<UserRepo, {
+  readonly find: (id: string) => Effect.Effect<string>
+}>() {}
+
+export const UserRepoLive = Layer.succeed(UserRepo, {
+  find: (id: string) => Effect.succeed(`user ${id}`)
+})
+
+export const useConn = Effect.acquireRelease(
+  Effect.succeed({ close: () => undefined }),
+  (conn) => Effect.sync(() => conn.close())
+)
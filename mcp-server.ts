@@ -212,6 +212,29 @@ class EffectRailwayMCPServer {
                   type: 'string',
                   description: 'Directory path to analyze (absolute or relative)',
                 },
+                tsconfig: {
+                  type: 'string',
+                  description: 'Optional tsconfig.json whose include/exclude, path aliases and project references define the analyzed files',
+                },
+                extensions: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'File extensions to analyze when no tsconfig is given (default: .ts, .tsx, .mts, .cts)',
+                },
+                allowJs: {
+                  type: 'boolean',
+                  default: false,
+                  description: 'Also analyze .js/.jsx/.mjs/.cjs files, reading JSDoc types',
+                },
+                workers: {
+                  type: 'number',
+                  description: 'Worker threads to shard parsing and call resolution across (default: 1, single-threaded)',
+                },
+                workspace: {
+                  type: 'boolean',
+                  default: false,
+                  description: 'Treat targetDir as an npm/pnpm workspace root: analyze every package and report cross-package calls',
+                },
                 includeDetails: {
                   type: 'boolean',
                   default: false,
@@ -259,7 +282,15 @@ class EffectRailwayMCPServer {
           case 'assess_modification_risk':
             return await this.assessModificationRisk(args as { query: string; modification_type?: string });
           case 'analyze_functions':
-            return await this.analyzeFunctions(args as { targetDir: string; includeDetails?: boolean });
+            return await this.analyzeFunctions(args as {
+              targetDir: string;
+              tsconfig?: string;
+              extensions?: string[];
+              allowJs?: boolean;
+              workers?: number;
+              workspace?: boolean;
+              includeDetails?: boolean;
+            });
           case 'start_api_server':
             return await this.startApiServer(args as { target_directory?: string; port?: number });
           default:
@@ -502,12 +533,26 @@ class EffectRailwayMCPServer {
     };
   }
 
-  private async analyzeFunctions(args: { targetDir: string; includeDetails?: boolean }) {
-    const { targetDir, includeDetails = false } = args;
+  private async analyzeFunctions(args: {
+    targetDir: string;
+    tsconfig?: string;
+    extensions?: string[];
+    allowJs?: boolean;
+    workers?: number;
+    workspace?: boolean;
+    includeDetails?: boolean;
+  }) {
+    const { targetDir, tsconfig, extensions, allowJs = false, workers, workspace = false, includeDetails = false } = args;
 
     try {
       // Call the analyzer directly instead of via API
-      const { result: analysis, logs } = await analyzeFunctions(targetDir);
+      const { result: analysis, logs } = await analyzeFunctions(targetDir, {
+        ...(tsconfig && { tsconfigPath: tsconfig }),
+        ...(extensions && { extensions }),
+        ...(workers && { workers }),
+        ...(workspace && { workspace }),
+        allowJs
+      });
       // Logs are returned but not printed (no side effects)
 
       const output = [
@@ -546,6 +591,25 @@ class EffectRailwayMCPServer {
         });
       }
 
+      // Add package coupling in workspace mode
+      if (analysis.packages) {
+        output.push('## 📦 Packages');
+        Object.entries(analysis.packages.packages).forEach(([name, stats]) => {
+          output.push(
+            `### ${name}`,
+            `- Functions: ${stats.members}`,
+            `- Calls out: ${stats.outgoing} | Calls in: ${stats.incoming} | Instability: ${stats.instability}`,
+            `- Depends on: ${stats.dependsOn.join(', ') || 'none'}`,
+            ''
+          );
+        });
+        if (analysis.packages.coupling.length > 0) {
+          output.push('## 🔗 Cross-Package Calls');
+          analysis.packages.coupling.forEach(({ from, to, count }) => output.push(`- ${from} → ${to}: ${count} calls`));
+          output.push('');
+        }
+      }
+      
       // Add top complex functions
       if (analysis.topComplexFunctions && analysis.topComplexFunctions.length > 0) {
         output.push('## 🔥 Top Complex Functions');
@@ -0,0 +1,20 @@
+/**
+ * Purpose: Worker thread entry for sharded function analysis
+ * Dependencies: worker_threads, function-analyzer-pure
+ * 
+ * Example Input:
+ * ```
+ * workerData: { kind: 'collect', rootDir: '/repo', files: [{ file: '/repo/src/users.ts', content: '...' }] }
+ * ```
+ * 
+ * Expected Output:
+ * ```
+ * postMessage({ kind: 'collect', functions: [[...]], logs: [] })
+ * ```
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { runFunctionAnalysisTask } from './function-analyzer-pure.js';
+import type { FunctionAnalysisTask } from './function-analyzer-types.js';
+
+parentPort?.postMessage(runFunctionAnalysisTask(workerData as FunctionAnalysisTask));
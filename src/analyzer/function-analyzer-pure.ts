@@ -5,16 +5,24 @@
  * Example Input:
  * ```
  * const result = await analyzeFunctions('/path/to/project');
+ * const result = await analyzeFunctions('/path/to/project', { tsconfigPath: '/path/to/project/tsconfig.json' });
+ * const result = await analyzeFunctions('/path/to/project', { extensions: ['.ts', '.tsx'], allowJs: true });
+ * const next = await analyzeFunctions('/path/to/project', { cache: result.cache });
+ * const result = await analyzeFunctions('/path/to/project', { workers: 4 });
+ * const result = await analyzeFunctions('/path/to/monorepo', { workspace: true });
+ * const result = await analyzeFunctions('/path/to/project', { rulesPath: '/path/to/effect-railway.rules.json' });
  * ```
  * 
  * Expected Output:
  * ```
- * { functions: [...], byPath: {...}, dependencyTree: {...} }
+ * { result: { functions: [...], byPath: {...}, dependencyTree: {...} }, logs: [...],
+ *   cache: {...}, cacheStats: { reusedFiles: 41, reparsedFiles: 1, relinkedFiles: 3 } }
  * ```
  */
 
 import * as ts from 'typescript';
 import * as path from 'path';
+import { createHash } from 'crypto';
 import { glob } from 'glob';
 import {
   NestedStructure,
@@ -25,20 +33,48 @@ import {
   FunctionDisplay,
   DependencyEntry,
   FolderStatistics,
-  HighComplexityFunction
+  HighComplexityFunction,
+  AmbiguousCall,
+  CallRecord,
+  CachedFileAnalysis,
+  FunctionAnalysisCache,
+  CacheStats,
+  FunctionAnalysisTask,
+  FunctionAnalysisTaskResult
 } from './function-analyzer-types.js';
+import {
+  resolveDeclarations,
+  getCalleeNode,
+  getFunctionNode,
+  getImportedName,
+  getResolutionFiles
+} from '../crawler/symbol-resolver-pure.js';
+import { readProjectConfig, getSourceExtensions, readSourceText, readWorkspacePackages, readClassificationRules } from '../crawler/file-io.js';
+import type { ProjectOptions } from '../crawler/file-io.js';
+import { findPackage, withWorkspacePaths, createPackageReport } from '../crawler/workspace-pure.js';
+import type { WorkspacePackage } from '../crawler/workspace-pure.js';
+import type { PackageReport, ClassificationRules, NodeType } from '../types/effect-node.js';
+import { resolveWorkerCount, createShards, resolveWorkerUrl, runInWorkers } from '../crawler/worker-pool.js';
+import { createNodeId, claimNodeId, findClaimedId, getQualifiedName, getFingerprint, toRelativePath } from '../crawler/node-identity-pure.js';
+import { classifyNode, DEFAULT_CLASSIFICATION_RULES } from '../crawler/classification-rules-pure.js';
+import { getClassificationFacts } from '../crawler/ast-analyzer-pure.js';
 
 export interface FunctionLocation {
+  id: string;
   name: string;
   file: string;
   line: number;
 }
 
 export interface FunctionInfo {
+  id: string;
+  fingerprint: string;
   name: string;
   file: string;
   path: string;
   folder: string;
+  type: NodeType;
+  package?: string;
   startLine: number;
   endLine: number;
   kind: string;
@@ -66,27 +102,55 @@ export interface FunctionAnalysisResult {
     veryHighComplexity: number;
   };
   functions: FunctionInfo[];
+  ambiguousCalls: AmbiguousCall[];
   byPath: NestedStructure;
   dependencyTree: DependencyTree;
   folderStats: FolderStatsMap;
   topComplexFunctions: TopComplexFunction[];
+  packages?: PackageReport;
+}
+
+// Bump when extraction or resolution changes so stale caches are discarded
+export const ANALYZER_VERSION = '3';
+
+export interface AnalyzeFunctionsOptions extends ProjectOptions {
+  cache?: FunctionAnalysisCache; // Previous run's cache; unchanged files are not reparsed
+  workers?: number | string;     // Worker threads for parsing and call resolution; 'auto' uses every core
 }
 
 // State type for pure functional approach
 interface AnalyzerState {
   functions: Map<string, FunctionInfo>;
   functionsByName: Map<string, string[]>;
+  callRecords: CallRecord[];
+  nameLookups: Map<string, string[]>;  // File -> called names resolved by name
+  dependencies: Map<string, string[]>; // File -> files its calls resolved through
+  ambiguousCalls: AmbiguousCall[];
   program: ts.Program | null;
+  checker: ts.TypeChecker | null;
   rootDir: string;
+  packages: WorkspacePackage[];         // Workspace packages; empty outside workspace mode
+  classification: ClassificationRules;  // Types functions like the Effect analyzer types its nodes
   logs: string[];
 }
 
 // Pure function to create initial state
-const createInitialState = (rootDir: string): AnalyzerState => ({
+const createInitialState = (
+  rootDir: string,
+  packages: WorkspacePackage[] = [],
+  classification: ClassificationRules = DEFAULT_CLASSIFICATION_RULES
+): AnalyzerState => ({
   functions: new Map(),
   functionsByName: new Map(),
+  callRecords: [],
+  nameLookups: new Map(),
+  dependencies: new Map(),
+  ambiguousCalls: [],
   program: null,
+  checker: null,
   rootDir,
+  packages,
+  classification,
   logs: []
 });
 
@@ -96,15 +160,25 @@ const addLog = (state: AnalyzerState, message: string): AnalyzerState => ({
   logs: [...state.logs, message]
 });
 
+// Pure function to add values to a per-file index (returns new index)
+const addToFileIndex = (index: Map<string, string[]>, file: string, values: string[]): Map<string, string[]> => {
+  const existing = index.get(file) || [];
+  const added = values.filter(value => !existing.includes(value));
+  if (added.length === 0) return index;
+  return new Map(index).set(file, [...existing, ...added]);
+};
+
 // Pure function to find TypeScript files
-const findTypeScriptFiles = (rootDir: string): string[] => {
-  return glob.sync('**/*.ts', {
+const findTypeScriptFiles = (rootDir: string, extensions: string[]): string[] => {
+  return glob.sync(extensions.map(extension => `**/*${extension}`), {
     cwd: rootDir,
     ignore: [
       'node_modules/**',
       '**/*.d.ts',
-      '**/*.test.ts',
-      '**/*.spec.ts',
+      '**/*.d.mts',
+      '**/*.d.cts',
+      '**/*.test.*',
+      '**/*.spec.*',
       'dist/**',
       'build/**',
       '.git/**'
@@ -113,15 +187,20 @@ const findTypeScriptFiles = (rootDir: string): string[] => {
   });
 };
 
+// Pure function to create the compiler options used without a tsconfig
+const createDefaultOptions = (allowJs: boolean): ts.CompilerOptions => ({
+  target: ts.ScriptTarget.Latest,
+  module: ts.ModuleKind.CommonJS,
+  allowJs,
+  jsx: ts.JsxEmit.Preserve,
+  skipLibCheck: true,
+  noEmit: true
+});
+
 // Pure function to create TypeScript program
-const createProgram = (files: string[]): ts.Program => {
-  return ts.createProgram(files, {
-    target: ts.ScriptTarget.Latest,
-    module: ts.ModuleKind.CommonJS,
-    allowJs: false,
-    skipLibCheck: true,
-    noEmit: true
-  });
+// tsconfig options carry paths/baseUrl aliases and jsx so resolution matches tsc
+const createProgram = (files: string[], options?: ts.CompilerOptions, allowJs = false): ts.Program => {
+  return ts.createProgram(files, { ...(options || createDefaultOptions(allowJs)), noEmit: true });
 };
 
 // Pure function to get function name
@@ -174,6 +253,44 @@ const getFunctionName = (node: ts.Node, sourceFile?: ts.SourceFile): string | nu
   return null;
 };
 
+// Pure function to build the canonical ID a function is registered under, before collisions
+// `relative/path.ts#Qualified.name`, shared with the crawler's node IDs
+const getBaseFunctionId = (node: ts.Node, sourceFile: ts.SourceFile, rootDir: string): string =>
+  createNodeId(path.relative(rootDir, sourceFile.fileName), getQualifiedName(node));
+
+// Pure function to find the ID a collected function was registered under
+// Only a same-named function on another line needs its fingerprint to tell them apart
+const getFunctionId = (node: ts.Node, sourceFile: ts.SourceFile, state: AnalyzerState): string | null => {
+  if (!getFunctionName(node, sourceFile)) return null;
+  const baseId = getBaseFunctionId(node, sourceFile, state.rootDir);
+  const registered = state.functions.get(baseId);
+  if (!registered) return null;
+  const startLine = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+  if (registered.startLine === startLine && registered.file === path.relative(state.rootDir, sourceFile.fileName)) {
+    return baseId;
+  }
+  return findClaimedId(baseId, getFingerprint(node), functionId => state.functions.get(functionId)?.fingerprint);
+};
+
+// Pure function to register functions by ID and name (returns new state)
+const addFunctions = (state: AnalyzerState, functions: FunctionInfo[]): AnalyzerState => {
+  const newFunctions = new Map(state.functions);
+  const newFunctionsByName = new Map(state.functionsByName);
+  for (const funcInfo of functions) {
+    newFunctions.set(funcInfo.id, funcInfo);
+    newFunctionsByName.set(funcInfo.name, [...(newFunctionsByName.get(funcInfo.name) || []), funcInfo.id]);
+  }
+  
+  return {
+    ...state,
+    functions: newFunctions,
+    functionsByName: newFunctionsByName
+  };
+};
+
+const addFunction = (state: AnalyzerState, funcInfo: FunctionInfo): AnalyzerState =>
+  addFunctions(state, [funcInfo]);
+
 // Pure function to get parameters
 const getParameters = (node: ts.Node, sourceFile?: ts.SourceFile): string[] => {
   const params: string[] = [];
@@ -232,13 +349,20 @@ const visitNode = (
       const pathParts = relativePath.split(path.sep);
       // Get the folder path (everything except the filename)
       const folder = pathParts.length > 1 ? pathParts.slice(0, -1).join('/') : 'root';
-      const functionId = `${relativePath}:${name}:${startPos.line + 1}`;
+      const fingerprint = getFingerprint(node);
+      const functionId = claimNodeId(getBaseFunctionId(node, sourceFile, state.rootDir), fingerprint,
+                                     claimedId => newState.functions.has(claimedId));
+      const pkg = findPackage(state.packages, sourceFile.fileName);
 
     const funcInfo: FunctionInfo = {
+      id: functionId,
+      fingerprint,
       name,
       file: relativePath,
       path: relativePath,
       folder: folder || 'root',
+      type: classifyNode(state.classification, getClassificationFacts(node, toRelativePath(state.rootDir, sourceFile.fileName))),
+      ...(pkg && { package: pkg.name }),
       startLine: startPos.line + 1,
       endLine: endPos.line + 1,
       kind: ts.SyntaxKind[node.kind],
@@ -249,26 +373,9 @@ const visitNode = (
       calledByCount: 0
     };
 
-    // Update functions map
+    // Update functions and functionsByName maps
     try {
-      const newFunctions = new Map(newState.functions);
-      newFunctions.set(functionId, funcInfo);
-      
-      // Update functionsByName map
-      const newFunctionsByName = new Map(newState.functionsByName);
-      if (!newFunctionsByName.has(name)) {
-        newFunctionsByName.set(name, []);
-      }
-      const nameArray = newFunctionsByName.get(name);
-      if (nameArray) {
-        newFunctionsByName.set(name, [...nameArray, functionId]);
-      }
-      
-      newState = {
-        ...newState,
-        functions: newFunctions,
-        functionsByName: newFunctionsByName
-      };
+      newState = addFunction(newState, funcInfo);
     } catch (error) {
       // Silently skip functions that fail to add
     }
@@ -317,12 +424,12 @@ const getCalledFunctionName = (node: ts.CallExpression, sourceFile?: ts.SourceFi
   return null;
 };
 
-// Pure function to get containing function
-const getContainingFunction = (
+// Pure function to get the ID of the containing function
+const getContainingFunctionId = (
   node: ts.Node,
   sourceFile: ts.SourceFile,
   state: AnalyzerState
-): FunctionInfo | null => {
+): string | null => {
   let current = node;
   while (current && current !== sourceFile) {
     if (ts.isFunctionDeclaration(current) || 
@@ -330,12 +437,9 @@ const getContainingFunction = (
         ts.isArrowFunction(current) ||
         ts.isFunctionExpression(current)) {
       
-      const name = getFunctionName(current, sourceFile);
-      if (name) {
-        const startPos = sourceFile.getLineAndCharacterOfPosition(current.getStart(sourceFile));
-        const relativePath = path.relative(state.rootDir, sourceFile.fileName);
-        const functionId = `${relativePath}:${name}:${startPos.line + 1}`;
-        return state.functions.get(functionId) || null;
+      const functionId = getFunctionId(current, sourceFile, state);
+      if (functionId) {
+        return state.functions.has(functionId) ? functionId : null;
       }
     }
     current = current.parent;
@@ -343,56 +447,110 @@ const getContainingFunction = (
   return null;
 };
 
+// How a call was resolved; the cache uses it to tell which edits can change the targets
+interface CallResolution {
+  targetIds: string[];
+  resolvedThrough: string[]; // Files the checker followed to the declaration
+  lookupName?: string;       // Set when the targets were matched by name
+}
+
+// Pure function to resolve the functions a call can target
+// The checker follows imports, aliases, namespace imports, re-exports and barrels to the
+// declaration; only calls it cannot resolve (e.g. unresolvable imports) fall back to the name
+const resolveCallTargets = (
+  node: ts.CallExpression,
+  calledName: string,
+  state: AnalyzerState
+): CallResolution => {
+  const callee = getCalleeNode(node);
+  if (state.checker && callee) {
+    const declarations = resolveDeclarations(state.checker, callee);
+    if (declarations.length > 0) {
+      // Overload signatures share the implementation; library declarations resolve to nothing
+      const targetIds = declarations
+        .filter(declaration => !(ts.isFunctionDeclaration(declaration) || ts.isMethodDeclaration(declaration)) ||
+                               declaration.body)
+        .map(declaration => getFunctionId(getFunctionNode(declaration), declaration.getSourceFile(), state))
+        .filter((targetId): targetId is string => targetId !== null && state.functions.has(targetId));
+      return {
+        targetIds: Array.from(new Set(targetIds)),
+        resolvedThrough: getResolutionFiles(state.checker, callee)
+      };
+    }
+  }
+  
+  const fallbackName = state.checker && callee && ts.isIdentifier(callee) ?
+                       getImportedName(state.checker, callee) : calledName;
+  return {
+    targetIds: state.functionsByName.get(fallbackName) || [],
+    resolvedThrough: state.checker && callee ? getResolutionFiles(state.checker, callee) : [],
+    lookupName: fallbackName
+  };
+};
+
+const toLocation = (func: FunctionInfo): FunctionLocation => ({
+  id: func.id,
+  name: func.name,
+  file: func.file,
+  line: func.startLine
+});
+
 // Pure function to analyze calls
+// Records caller -> target pairs; linkCalls turns them into calls/calledBy once every file is done
 const analyzeCalls = (
   node: ts.Node,
   sourceFile: ts.SourceFile,
   state: AnalyzerState
 ): AnalyzerState => {
   let newState = state;
-  const containingFunction = getContainingFunction(node, sourceFile, newState);
+  const containingId = ts.isCallExpression(node) ? getContainingFunctionId(node, sourceFile, newState) : null;
+  const containingFunction = containingId ? newState.functions.get(containingId) : undefined;
   
-  if (ts.isCallExpression(node) && containingFunction) {
+  if (ts.isCallExpression(node) && containingId && containingFunction) {
     const calledName = getCalledFunctionName(node, sourceFile);
-    if (calledName) {
-      const possibleTargets = newState.functionsByName.get(calledName) || [];
-      
-      for (const targetId of possibleTargets) {
-        const targetFunc = newState.functions.get(targetId);
-        if (!targetFunc) continue;
-        
-        const callLocation: FunctionLocation = {
-          name: targetFunc.name,
-          file: targetFunc.file,
-          line: targetFunc.startLine
-        };
-        
-        const exists = containingFunction.calls.some(c => 
-          c.name === callLocation.name && 
-          c.file === callLocation.file && 
-          c.line === callLocation.line
-        );
-        
-        if (!exists) {
-          containingFunction.calls.push(callLocation);
-        }
-        
-        const callerLocation: FunctionLocation = {
-          name: containingFunction.name,
-          file: containingFunction.file,
-          line: containingFunction.startLine
-        };
-        
-        const callerExists = targetFunc.calledBy.some(c => 
-          c.name === callerLocation.name && 
-          c.file === callerLocation.file && 
-          c.line === callerLocation.line
-        );
-        
-        if (!callerExists) {
-          targetFunc.calledBy.push(callerLocation);
-        }
-      }
+    const resolution = calledName ? resolveCallTargets(node, calledName, newState) : undefined;
+    const possibleTargets = resolution ? resolution.targetIds : [];
+    const file = containingFunction.file;
+    
+    if (resolution) {
+      const targetFiles = possibleTargets
+        .map(targetId => newState.functions.get(targetId)?.file)
+        .filter((targetFile): targetFile is string => targetFile !== undefined);
+      const resolvedFiles = resolution.resolvedThrough.map(resolvedFile => path.relative(newState.rootDir, resolvedFile));
+      newState = {
+        ...newState,
+        dependencies: addToFileIndex(newState.dependencies, file,
+                                     [...targetFiles, ...resolvedFiles].filter(dependency => dependency !== file)),
+        nameLookups: resolution.lookupName ?
+                     addToFileIndex(newState.nameLookups, file, [resolution.lookupName]) : newState.nameLookups
+      };
+    }
+    
+    // Several candidates means the target is unknown; report it instead of linking to all
+    if (calledName && possibleTargets.length > 1) {
+      const callLine = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+      const ambiguousCall: AmbiguousCall = {
+        caller: toLocation(containingFunction),
+        calledName,
+        file,
+        line: callLine,
+        candidates: possibleTargets
+          .map(targetId => newState.functions.get(targetId))
+          .filter((func): func is FunctionInfo => func !== undefined)
+          .map(toLocation)
+      };
+      newState = {
+        ...newState,
+        ambiguousCalls: [...newState.ambiguousCalls, ambiguousCall]
+      };
+    } else if (calledName) {
+      const records = possibleTargets
+        .filter(targetId => newState.functions.has(targetId))
+        .map((targetId): CallRecord => ({ file, callerId: containingId, targetId }));
+      newState = {
+        ...newState,
+        callRecords: [...newState.callRecords, ...records]
+      };
     }
   }
 
@@ -411,6 +569,134 @@ const analyzeCalls = (
   return newState;
 };
 
+// Pure function to link recorded calls into calls/calledBy (returns new functions map)
+// Records are in file order, so cached and freshly resolved files link in the same order
+const linkCalls = (functions: Map<string, FunctionInfo>, records: CallRecord[]): Map<string, FunctionInfo> => {
+  const linked = new Map<string, FunctionInfo>();
+  for (const [functionId, func] of functions) {
+    linked.set(functionId, { ...func, calls: [], calledBy: [] });
+  }
+  
+  for (const record of records) {
+    const caller = linked.get(record.callerId);
+    const target = linked.get(record.targetId);
+    if (!caller || !target) continue;
+    
+    if (!caller.calls.some(c => c.id === target.id)) {
+      caller.calls.push(toLocation(target));
+    }
+    if (!target.calledBy.some(c => c.id === caller.id)) {
+      target.calledBy.push(toLocation(caller));
+    }
+  }
+  
+  for (const func of linked.values()) {
+    func.callsCount = func.calls.length;
+    func.calledByCount = func.calledBy.length;
+  }
+  return linked;
+};
+
+// Pure function to run one worker task; the worker entry only forwards to this
+export const runFunctionAnalysisTask = (task: FunctionAnalysisTask): FunctionAnalysisTaskResult => {
+  if (task.kind === 'collect') {
+    const logs: string[] = [];
+    const functions = task.files.map(({ file, content }) => {
+      try {
+        const sourceFile = ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true);
+        return Array.from(visitNode(sourceFile, sourceFile, createInitialState(task.rootDir, task.packages, task.classification)).functions.values());
+      } catch (error) {
+        logs.push(`⚠️ Error analyzing ${file}: ${error instanceof Error ? error.message : String(error)}`);
+        return [];
+      }
+    });
+    return { kind: 'collect', functions, logs };
+  }
+  
+  const program = createProgram(task.programFiles, task.compilerOptions, task.allowJs);
+  let state: AnalyzerState = {
+    ...addFunctions(createInitialState(task.rootDir), task.functions),
+    program,
+    checker: program.getTypeChecker()
+  };
+  for (const file of task.files) {
+    const sourceFile = program.getSourceFile(file);
+    if (sourceFile && !sourceFile.isDeclarationFile) {
+      state = analyzeCalls(sourceFile, sourceFile, state);
+    }
+  }
+  return {
+    kind: 'resolve',
+    callRecords: state.callRecords,
+    nameLookups: Array.from(state.nameLookups),
+    dependencies: Array.from(state.dependencies),
+    ambiguousCalls: state.ambiguousCalls
+  };
+};
+
+// Pure function to merge a worker's resolved calls (returns new state)
+const mergeResolvedCalls = (state: AnalyzerState, result: FunctionAnalysisTaskResult): AnalyzerState => {
+  if (result.kind !== 'resolve') return state;
+  return {
+    ...state,
+    callRecords: [...state.callRecords, ...result.callRecords],
+    nameLookups: result.nameLookups.reduce((index, [file, names]) => addToFileIndex(index, file, names), state.nameLookups),
+    dependencies: result.dependencies.reduce((index, [file, files]) => addToFileIndex(index, file, files), state.dependencies),
+    ambiguousCalls: [...state.ambiguousCalls, ...result.ambiguousCalls]
+  };
+};
+
+// Pure function to hash file contents and cache-relevant settings
+const hashContent = (content: string): string => createHash('sha256').update(content).digest('hex');
+
+// Pure function to create an empty cache
+const createEmptyCache = (configKey: string): FunctionAnalysisCache => ({
+  version: ANALYZER_VERSION,
+  configKey,
+  files: {}
+});
+
+// Pure function to strip call links from a function before caching it
+const toCachedFunction = (func: FunctionInfo): FunctionInfo => ({
+  ...func,
+  calls: [],
+  calledBy: [],
+  callsCount: 0,
+  calledByCount: 0
+});
+
+// Pure function to collect a file's analysis from the state for the cache
+const createCacheEntry = (state: AnalyzerState, file: string, hash: string): CachedFileAnalysis => {
+  const ambiguousCalls = state.ambiguousCalls.filter(call => call.file === file);
+  const candidateFiles = ambiguousCalls
+    .flatMap(call => call.candidates.map(candidate => candidate.file))
+    .filter(candidateFile => candidateFile !== file);
+  return {
+    hash,
+    functions: Array.from(state.functions.values()).filter(func => func.file === file).map(toCachedFunction),
+    calls: state.callRecords.filter(record => record.file === file),
+    nameLookups: state.nameLookups.get(file) || [],
+    ambiguousCalls,
+    dependencies: Array.from(new Set([...(state.dependencies.get(file) || []), ...candidateFiles]))
+  };
+};
+
+// Pure function to pick the unchanged files whose calls must be resolved again:
+// those resolved through a changed or removed file, or by a name such a file declares
+const findFilesToRelink = (
+  cached: Record<string, CachedFileAnalysis>,
+  unchangedFiles: string[],
+  touchedFiles: Set<string>,
+  touchedNames: Set<string>
+): string[] => {
+  return unchangedFiles.filter(file => {
+    const entry = cached[file];
+    return entry !== undefined &&
+           (entry.dependencies.some(dependency => touchedFiles.has(dependency)) ||
+            entry.nameLookups.some(name => touchedNames.has(name)));
+  });
+};
+
 // Pure function to build nested structure
 const buildNestedStructure = (functions: Map<string, FunctionInfo>): NestedStructure => {
   const nested: NestedStructure = {};
@@ -582,15 +868,32 @@ const getStatsByFolder = (functions: Map<string, FunctionInfo>): FolderStatsMap
   return stats;
 };
 
+// Pure function to report calls between workspace packages; undefined outside workspace mode
+const buildPackageReport = (functions: Map<string, FunctionInfo>): PackageReport | undefined => {
+  const packageOf = new Map<string, string>();
+  functions.forEach((func, functionId) => {
+    if (func.package) packageOf.set(functionId, func.package);
+  });
+  if (packageOf.size === 0) return undefined;
+  
+  const links = Array.from(functions).flatMap(([functionId, func]) =>
+    func.calls.map((call): [string, string] => [functionId, call.id]));
+  return createPackageReport(packageOf, links);
+};
+
 // Pure function to get output
 const getOutput = (state: AnalyzerState): FunctionAnalysisResult => {
   const allFunctions = Array.from(state.functions.values());
   
   const detailedFunctions = allFunctions.map(f => ({
+    id: f.id,
+    fingerprint: f.fingerprint,
     name: f.name,
     file: f.file,
     path: f.path,
     folder: f.folder,
+    type: f.type,
+    ...(f.package && { package: f.package }),
     startLine: f.startLine,
     endLine: f.endLine,
     kind: f.kind,
@@ -598,16 +901,19 @@ const getOutput = (state: AnalyzerState): FunctionAnalysisResult => {
     callsCount: f.callsCount,
     calledByCount: f.calledByCount,
     calls: f.calls.map(c => ({
+      id: c.id,
       name: c.name,
       file: c.file,
       line: c.line
     })),
     calledBy: f.calledBy.map(c => ({
+      id: c.id,
       name: c.name,
       file: c.file,
       line: c.line
     }))
   }));
+  const packages = buildPackageReport(state.functions);
   
   return {
     metadata: {
@@ -626,6 +932,7 @@ const getOutput = (state: AnalyzerState): FunctionAnalysisResult => {
       veryHighComplexity: allFunctions.filter(f => f.callsCount >= 20).length
     },
     functions: detailedFunctions,
+    ambiguousCalls: state.ambiguousCalls,
     byPath: buildNestedStructure(state.functions),
     dependencyTree: buildDependencyTree(state.functions),
     folderStats: getStatsByFolder(state.functions),
@@ -640,63 +947,217 @@ const getOutput = (state: AnalyzerState): FunctionAnalysisResult => {
         calledByCount: f.calledByCount,
         calls: f.calls.slice(0, 10).map(c => `${c.name} (${c.file}:${c.line})`),
         calledBy: f.calledBy.slice(0, 10).map(c => `${c.name} (${c.file}:${c.line})`)
-      }))
+      })),
+    ...(packages && { packages })
   };
 };
 
 // Main pure function to analyze functions
-export const analyzeFunctions = async (rootDir: string): Promise<{ result: FunctionAnalysisResult; logs: string[] }> => {
+// With a tsconfig path, files come from its include/exclude and project references;
+// otherwise the directory is walked for the configured extensions.
+// With a cache from a previous run, files whose content hash is unchanged keep their
+// functions, and only calls that can be affected by the changed files are resolved again.
+// In workspace mode every package is walked, functions are tagged with their package and
+// imports of package names resolve to the package sources
+export const analyzeFunctions = async (
+  rootDir: string,
+  options: AnalyzeFunctionsOptions = {}
+): Promise<{ result: FunctionAnalysisResult; logs: string[]; cache: FunctionAnalysisCache; cacheStats: CacheStats }> => {
   let state = createInitialState(rootDir);
   
   try {
     state = addLog(state, `🔍 Analyzing TypeScript functions in: ${rootDir}`);
     
+    const projectConfig = options.tsconfigPath ? readProjectConfig(options.tsconfigPath) : undefined;
+    if (projectConfig) {
+      state = addLog(state, `⚙️ Using ${projectConfig.configPath} with ${projectConfig.references.length} project references`);
+      for (const message of projectConfig.diagnostics) {
+        state = addLog(state, `⚠️ tsconfig: ${message}`);
+      }
+    }
+    
+    const packages = options.workspace ? readWorkspacePackages(rootDir) : [];
+    if (options.workspace) {
+      state = addLog(state, packages.length > 0 ?
+                            `📦 Workspace with ${packages.length} packages: ${packages.map(pkg => pkg.name).join(', ')}` :
+                            `⚠️ No workspace packages found in ${rootDir}; analyzing it as a single directory`);
+    }
+    const classification = readClassificationRules(rootDir, options.rulesPath);
+    state = { ...state, packages, classification };
+    
     // Find all TypeScript files
-    const files = findTypeScriptFiles(rootDir);
+    const extensions = getSourceExtensions(options);
+    const files = projectConfig ? projectConfig.fileNames :
+                  packages.length > 0 ? Array.from(new Set(packages.flatMap(pkg => findTypeScriptFiles(pkg.dir, extensions)))) :
+                  findTypeScriptFiles(rootDir, extensions);
     state = addLog(state, `📁 Found ${files.length} TypeScript files to analyze`);
     
+    const allowJs = options.allowJs === true;
+    const compilerOptions = packages.length > 0 ?
+                            withWorkspacePaths(projectConfig?.options || createDefaultOptions(allowJs), packages) :
+                            projectConfig?.options;
+    
+    // Compare content hashes with the cache; a different analyzer version or configuration starts cold
+    const configKey = hashContent(JSON.stringify({
+      rootDir,
+      extensions,
+      allowJs,
+      tsconfigPath: options.tsconfigPath || null,
+      compilerOptions: compilerOptions || null,
+      classification
+    }));
+    const cached = options.cache && options.cache.version === ANALYZER_VERSION && options.cache.configKey === configKey ?
+                   options.cache.files : {};
+    const sources = files.map(file => {
+      const content = readSourceText(file);
+      return { file, relativePath: path.relative(rootDir, file), content, hash: hashContent(content) };
+    });
+    const changed = sources.filter(source => cached[source.relativePath]?.hash !== source.hash);
+    const changedPaths = new Set(changed.map(source => source.relativePath));
+    const currentPaths = new Set(sources.map(source => source.relativePath));
+    const removedPaths = Object.keys(cached).filter(file => !currentPaths.has(file));
+    
+    // Worker threads take over parsing and call resolution; results merge in file order
+    const workerCount = resolveWorkerCount(options.workers);
+    const workerUrl = resolveWorkerUrl('./function-analysis-worker', import.meta.url);
+    const parallel = workerCount > 1 && changed.length > 1;
+    if (parallel) {
+      state = addLog(state, `🧵 Sharding ${changed.length} files across ${Math.min(workerCount, changed.length)} workers`);
+    }
+    
     // Create TypeScript program
-    const program = createProgram(files);
-    state = { ...state, program };
+    // Creating the checker binds every file, which also sets the parent pointers
+    // that function naming and call resolution rely on
+    const cold = changed.length === sources.length;
+    let program = cold && !parallel ? createProgram(files, compilerOptions, allowJs) : null;
+    if (program) {
+      state = { ...state, program, checker: program.getTypeChecker() };
+    }
     
-    // First pass: collect all functions
+    // First pass: collect all functions; cached files reuse theirs
     state = addLog(state, '🔨 Pass 1: Collecting all functions...');
-    for (const sourceFile of program.getSourceFiles()) {
-      if (sourceFile.isDeclarationFile) continue;
-      if (!sourceFile.fileName.includes(rootDir)) continue;
-      
+    const collected = new Map<string, FunctionInfo[]>();
+    if (parallel) {
+      const shards = createShards(changed, workerCount);
+      const results = await runInWorkers<FunctionAnalysisTask, FunctionAnalysisTaskResult>(workerUrl, shards.map(shard => ({
+        kind: 'collect',
+        rootDir,
+        packages,
+        classification,
+        files: shard.map(({ file, content }) => ({ file, content }))
+      })));
+      results.forEach((result, index) => {
+        if (result.kind !== 'collect') return;
+        result.functions.forEach((functions, fileIndex) => collected.set(shards[index]![fileIndex]!.file, functions));
+        state = result.logs.reduce(addLog, state);
+      });
+    }
+    for (const source of sources) {
+      const entry = cached[source.relativePath];
+      if (entry && !changedPaths.has(source.relativePath)) {
+        state = addFunctions(state, entry.functions);
+        continue;
+      }
+      const parsed = collected.get(source.file);
+      if (parsed) {
+        state = addFunctions(state, parsed);
+        continue;
+      }
       try {
-        state = visitNode(sourceFile, sourceFile, state);
+        const sourceFile = program ? program.getSourceFile(source.file) :
+                           ts.createSourceFile(source.file, source.content, ts.ScriptTarget.Latest, true);
+        if (sourceFile && !sourceFile.isDeclarationFile) {
+          state = visitNode(sourceFile, sourceFile, state);
+        }
       } catch (error) {
-        state = addLog(state, `⚠️ Error analyzing ${sourceFile.fileName}: ${error.message}`);
+        state = addLog(state, `⚠️ Error analyzing ${source.file}: ${error.message}`);
         // Continue with next file instead of failing entirely
       }
     }
   
   state = addLog(state, `✅ Found ${state.functions.size} functions`);
+  
+  // Names declared before or after the change can retarget calls resolved by name
+  const touchedFiles = new Set([...changedPaths, ...removedPaths]);
+  const touchedNames = new Set([
+    ...Array.from(touchedFiles).flatMap(file => (cached[file]?.functions || []).map(func => func.name)),
+    ...Array.from(state.functions.values()).filter(func => changedPaths.has(func.file)).map(func => func.name)
+  ]);
+  const relinkPaths = new Set(findFilesToRelink(
+    cached,
+    sources.map(source => source.relativePath).filter(file => !changedPaths.has(file)),
+    touchedFiles,
+    touchedNames
+  ));
+  const resolved = sources.filter(source => changedPaths.has(source.relativePath) || relinkPaths.has(source.relativePath));
+  const cacheStats: CacheStats = {
+    reusedFiles: sources.length - changed.length,
+    reparsedFiles: changed.length,
+    relinkedFiles: relinkPaths.size
+  };
+  if (Object.keys(cached).length > 0) {
+    state = addLog(state, `♻️ Reused ${cacheStats.reusedFiles} cached files, reparsed ${cacheStats.reparsedFiles} (${cacheStats.relinkedFiles} unchanged files relinked)`);
+  }
+  
   state = addLog(state, '🔨 Pass 2: Analyzing function calls and dependencies...');
   
-  // Second pass: analyze function calls
-  for (const sourceFile of program.getSourceFiles()) {
-    if (sourceFile.isDeclarationFile) continue;
-    if (!sourceFile.fileName.includes(rootDir)) continue;
-    
-    state = analyzeCalls(sourceFile, sourceFile, state);
+  // Second pass: analyze function calls of changed files and the files relinked with them
+  // A cold run's program covers every file; an incremental one only the files to resolve
+  const programFiles = cold ? files : resolved.map(source => source.file);
+  if (parallel && resolved.length > 1) {
+    const functions = Array.from(state.functions.values());
+    const results = await runInWorkers<FunctionAnalysisTask, FunctionAnalysisTaskResult>(
+      workerUrl,
+      createShards(resolved, workerCount).map(shard => ({
+        kind: 'resolve',
+        rootDir,
+        programFiles,
+        compilerOptions,
+        allowJs,
+        functions,
+        files: shard.map(source => source.file)
+      }))
+    );
+    state = results.reduce(mergeResolvedCalls, state);
+  } else {
+    if (!program && resolved.length > 0) {
+      program = createProgram(programFiles, compilerOptions, allowJs);
+      state = { ...state, program, checker: program.getTypeChecker() };
+    }
+    for (const source of resolved) {
+      const sourceFile = program?.getSourceFile(source.file);
+      if (sourceFile && !sourceFile.isDeclarationFile) {
+        state = analyzeCalls(sourceFile, sourceFile, state);
+      }
+    }
   }
   
-  // Update counts
-  const updatedFunctions = new Map(state.functions);
-  for (const func of updatedFunctions.values()) {
-    func.callsCount = func.calls.length;
-    func.calledByCount = func.calledBy.length;
+  // Rebuild the cache, then link every file's calls in file order
+  const resolvedPaths = new Set(resolved.map(source => source.relativePath));
+  const cacheFiles: Record<string, CachedFileAnalysis> = {};
+  for (const source of sources) {
+    const entry = cached[source.relativePath];
+    cacheFiles[source.relativePath] = entry && !resolvedPaths.has(source.relativePath) ?
+                                      entry : createCacheEntry(state, source.relativePath, source.hash);
+  }
+  const entries = sources.map(source => cacheFiles[source.relativePath] as CachedFileAnalysis);
+  state = {
+    ...state,
+    functions: linkCalls(state.functions, entries.flatMap(entry => entry.calls)),
+    ambiguousCalls: entries.flatMap(entry => entry.ambiguousCalls)
+  };
+  
+  if (state.ambiguousCalls.length > 0) {
+    state = addLog(state, `⚠️ ${state.ambiguousCalls.length} calls matched several functions and were left unlinked`);
   }
-  state = { ...state, functions: updatedFunctions };
   
   state = addLog(state, '✅ Analysis complete!');
   
     return {
       result: getOutput(state),
-      logs: state.logs
+      logs: state.logs,
+      cache: { ...createEmptyCache(configKey), files: cacheFiles },
+      cacheStats
     };
   } catch (error) {
     state = addLog(state, `❌ Critical error during analysis: ${error.message}`);
@@ -720,6 +1181,7 @@ export const analyzeFunctions = async (rootDir: string): Promise<{ result: Funct
           veryHighComplexity: 0
         },
         functions: [],
+        ambiguousCalls: [],
         byPath: {},
         dependencyTree: {
           zeroDependencies: [],
@@ -731,7 +1193,9 @@ export const analyzeFunctions = async (rootDir: string): Promise<{ result: Funct
         folderStats: {},
         topComplexFunctions: []
       },
-      logs: state.logs
+      logs: state.logs,
+      cache: options.cache || createEmptyCache(''),
+      cacheStats: { reusedFiles: 0, reparsedFiles: 0, relinkedFiles: 0 }
     };
   }
 };
\ No newline at end of file
@@ -14,6 +14,8 @@
  */
 
 import * as ts from 'typescript';
+import type { PackageReport, ClassificationRules } from '../types/effect-node.js';
+import type { WorkspacePackage } from '../crawler/workspace-pure.js';
 
 // Function display types for UI/export
 export interface FunctionDisplay {
@@ -103,16 +105,21 @@ export interface NodeWithParameters extends ts.Node {
 
 // Function location and info types (re-exported from function-analyzer-pure)
 export interface FunctionLocation {
+  id: string;        // Canonical ID, `relative/path.ts#Qualified.name`
   name: string;
   file: string;
   line: number;
 }
 
 export interface FunctionInfo {
+  id: string;           // Canonical ID, `relative/path.ts#Qualified.name`
+  fingerprint: string;  // Token hash; tells apart same-named functions of one file
   name: string;
   file: string;
   path: string;
   folder: string;
+  type: string;      // Layer type by the classification rules
+  package?: string;  // Workspace package name, set in workspace mode
   startLine: number;
   endLine: number;
   kind: string;
@@ -123,10 +130,80 @@ export interface FunctionInfo {
   calledByCount: number;
 }
 
+// A call whose name matched several functions; reported instead of linked to all of them
+export interface AmbiguousCall {
+  caller: FunctionLocation;
+  calledName: string;
+  file: string;
+  line: number; // Line of the call site
+  candidates: FunctionLocation[];
+}
+
+// A resolved call; kept per file so unchanged files can skip resolution on the next run
+export interface CallRecord {
+  file: string;
+  callerId: string;
+  targetId: string;
+}
+
+// Incremental analysis cache, keyed by relative file path
+export interface CachedFileAnalysis {
+  hash: string;                   // Content hash
+  functions: FunctionInfo[];      // Without calls; links are rebuilt from the call records
+  calls: CallRecord[];
+  nameLookups: string[];          // Names of calls resolved by name; re-resolved when those names change
+  ambiguousCalls: AmbiguousCall[];
+  dependencies: string[];         // Files holding the targets or candidates of this file's calls
+}
+
+export interface FunctionAnalysisCache {
+  version: string;                // Analyzer version; a mismatch discards the cache
+  configKey: string;              // Hash of the directory, source and compiler options
+  files: Record<string, CachedFileAnalysis>;
+}
+
+export interface CacheStats {
+  reusedFiles: number;            // Unchanged files whose functions came from the cache
+  reparsedFiles: number;          // New or changed files
+  relinkedFiles: number;          // Unchanged files whose calls touched changed files
+}
+
+// Work shipped to a worker thread: pass 1 parses a shard of files and collects their
+// functions; pass 2 rebuilds the program from the same roots and resolves a shard's calls
+export type FunctionAnalysisTask =
+  | {
+      kind: 'collect';
+      rootDir: string;
+      packages: WorkspacePackage[];
+      classification: ClassificationRules;
+      files: Array<{ file: string; content: string }>;
+    }
+  | {
+      kind: 'resolve';
+      rootDir: string;
+      programFiles: string[];
+      compilerOptions: ts.CompilerOptions | undefined;
+      allowJs: boolean;
+      functions: FunctionInfo[];  // Every function, in file order
+      files: string[];
+    };
+
+export type FunctionAnalysisTaskResult =
+  | { kind: 'collect'; functions: FunctionInfo[][]; logs: string[] }  // One list per file of the shard
+  | {
+      kind: 'resolve';
+      callRecords: CallRecord[];
+      nameLookups: Array<[string, string[]]>;
+      dependencies: Array<[string, string[]]>;
+      ambiguousCalls: AmbiguousCall[];
+    };
+
 export interface FunctionAnalysisResult {
   functions: FunctionInfo[];
+  ambiguousCalls?: AmbiguousCall[];
   byPath: NestedStructure;
   dependencyTree: DependencyTree;
   folderStats: FolderStatsMap;
   topComplexFunctions: TopComplexFunction[];
+  packages?: PackageReport;   // Set in workspace mode
 }
\ No newline at end of file
@@ -5,15 +5,18 @@
  * Example Input:
  * ```
  * analyzeEffect(analysisResult, 'UsersRepository', 'modify')
+ * analyzeResilience(analysisResult)
  * ```
  * 
  * Expected Output:
  * ```
  * Quick targeted analysis with modification guidance
+ * Per entry point, the IO effects reachable without a timeout or retry
  * ```
  */
 
 import type { AnalysisResult, EffectNode } from '../types/effect-node.js';
+import { RUN_EDGES, isIoNode } from '../types/effect-node.js';
 
 export interface TargetedQuery {
   query: string; // Effect name, file:line, or node name
@@ -68,6 +71,22 @@ export interface QuickAction {
   description: string;
 }
 
+// An IO effect an entry point reaches without passing a timeout or retry
+export interface UnprotectedEffect {
+  nodeId: string;
+  name: string;
+  filePath: string;
+  line: number;
+  path: string[];   // Node names from the entry point down to the effect
+}
+
+export interface EntryResilience {
+  entryId: string;
+  entryName: string;
+  ioEffects: number;              // IO effects reachable from the entry point
+  unprotected: UnprotectedEffect[];
+}
+
 // Context for targeted analysis
 interface AnalysisContext {
   nodes: Map<string, EffectNode>;
@@ -175,9 +194,9 @@ const getUpstreamImpacts = (
     });
   }
 
-  // Find critical paths (entry points that depend on this)
+  // Find critical paths (HTTP routes and controllers that depend on this)
   context.nodes.forEach(n => {
-    if (n.type === 'controller' && upstream.has(n.id)) {
+    if ((n.route || n.type === 'controller') && upstream.has(n.id)) {
       criticalPaths.push(`${n.name} → ${node.name}`);
     }
   });
@@ -474,6 +493,98 @@ export const analyzeEffect = (
   };
 };
 
+// Pure function to find, per entry point, the IO effects reachable along some path on which no
+// effect applies a timeout or retry, either to its own body or around the call to the next effect
+export const analyzeResilience = (analysis: AnalysisResult): EntryResilience[] => {
+  const context = buildAnalysisContext(analysis);
+  const runs = new Map<string, string[]>();
+  context.edges.forEach(edge => {
+    if (RUN_EDGES.some(type => type === edge.type)) runs.set(edge.source, [...(runs.get(edge.source) || []), edge.target]);
+  });
+  
+  const isProtecting = (kind: string) => kind === 'retry' || kind === 'timeout';
+  const protectsItself = (node: EffectNode) =>
+    !!node.resilience?.some(policy => isProtecting(policy.kind) && !policy.target);
+  const protectsCall = (node: EffectNode, targetId: string) =>
+    !!node.resilience?.some(policy => isProtecting(policy.kind) && policy.target === targetId);
+  
+  return analysis.railway.entryPoints.flatMap(entryId => {
+    const entry = context.nodes.get(entryId);
+    if (!entry) return [];
+    
+    // Reachable at all, and reachable without protection; the parent gives the unprotected path
+    const reachable = new Set<string>([entryId]);
+    const pending = [entryId];
+    for (let nodeId = pending.pop(); nodeId; nodeId = pending.pop()) {
+      (runs.get(nodeId) || []).forEach(targetId => {
+        if (reachable.has(targetId)) return;
+        reachable.add(targetId);
+        pending.push(targetId);
+      });
+    }
+    
+    const parents = new Map<string, string | undefined>();
+    const unprotectedPending = protectsItself(entry) ? [] : [entryId];
+    if (!protectsItself(entry)) parents.set(entryId, undefined);
+    for (let nodeId = unprotectedPending.shift(); nodeId; nodeId = unprotectedPending.shift()) {
+      const node = context.nodes.get(nodeId);
+      (runs.get(nodeId) || []).forEach(targetId => {
+        const target = context.nodes.get(targetId);
+        if (!node || !target || parents.has(targetId)) return;
+        if (protectsCall(node, targetId) || protectsItself(target)) return;
+        parents.set(targetId, nodeId);
+        unprotectedPending.push(targetId);
+      });
+    }
+    
+    const getPath = (nodeId: string): string[] => {
+      const path: string[] = [];
+      for (let current: string | undefined = nodeId; current; current = parents.get(current)) {
+        path.unshift(context.nodes.get(current)?.name || current);
+      }
+      return path;
+    };
+    
+    const ioEffects = Array.from(reachable).filter(nodeId => {
+      const node = context.nodes.get(nodeId);
+      return node && isIoNode(node);
+    });
+    const unprotected = ioEffects
+      .filter(nodeId => parents.has(nodeId))
+      .map(nodeId => {
+        const node = context.nodes.get(nodeId)!;
+        return { nodeId, name: node.name, filePath: node.filePath, line: node.line, path: getPath(nodeId) };
+      });
+    
+    return [{ entryId, entryName: entry.name, ioEffects: ioEffects.length, unprotected }];
+  });
+};
+
+// Pure function to generate the resilience report
+export const generateResilienceReport = (analysis: AnalysisResult): string => {
+  const entries = analyzeResilience(analysis).filter(entry => entry.ioEffects > 0);
+  const unprotectedCount = entries.reduce((sum, entry) => sum + entry.unprotected.length, 0);
+  
+  let output = '';
+  output += `# 🛡️ RESILIENCE REPORT\n\n`;
+  output += `- Entry points reaching IO: ${entries.length}\n`;
+  output += `- IO effects reachable without a timeout or retry: ${unprotectedCount}\n\n`;
+  
+  entries.forEach(entry => {
+    output += `## ${entry.entryName}\n`;
+    if (entry.unprotected.length === 0) {
+      output += `- All ${entry.ioEffects} IO effects covered by a timeout or retry\n\n`;
+      return;
+    }
+    entry.unprotected.forEach(effect => {
+      output += `- ❌ ${effect.name} (${effect.filePath}:${effect.line}): ${effect.path.join(' → ')}\n`;
+    });
+    output += '\n';
+  });
+  
+  return output;
+};
+
 // Pure function to generate quick report
 export const generateQuickReport = (
   analysis: AnalysisResult,
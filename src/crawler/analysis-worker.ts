@@ -0,0 +1,41 @@
+/**
+ * Purpose: Worker thread entry that visits a shard of a project's files
+ * Dependencies: worker_threads, TypeScript Compiler API
+ * 
+ * Example Input:
+ * ```
+ * workerData: { rootNames: [...], options: {...}, rootDir: '/repo', classification: {...}, files: [{ path: 'src/users.ts', fileName: '/repo/src/users.ts' }] }
+ * ```
+ * 
+ * Expected Output:
+ * ```
+ * postMessage(FileAnalysis[]) with one entry per file of the shard, in shard order
+ * ```
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import * as ts from 'typescript';
+import { analyzeFileInIsolation } from './ast-analyzer-pure.js';
+import type { FileAnalysis } from './ast-analyzer-pure.js';
+import type { ClassificationRules } from '../types/effect-node.js';
+
+// A shard of files plus what is needed to rebuild the same program the main thread has
+export interface AnalysisWorkerTask {
+  rootNames: string[];
+  options: ts.CompilerOptions;
+  rootDir: string;
+  classification: ClassificationRules;
+  files: Array<{ path: string; fileName: string }>;
+}
+
+// Signatures need the checker, so every worker type-checks the whole program
+const task = workerData as AnalysisWorkerTask;
+const program = ts.createProgram(task.rootNames, task.options);
+const checker = program.getTypeChecker();
+
+const fileAnalyses: FileAnalysis[] = task.files.flatMap(({ path, fileName }) => {
+  const sourceFile = program.getSourceFile(fileName);
+  return sourceFile ? [analyzeFileInIsolation({ path, content: sourceFile.text, sourceFile }, checker, task.rootDir, task.classification)] : [];
+});
+
+parentPort?.postMessage(fileAnalyses);
@@ -4,7 +4,8 @@
  * 
  * Example Input:
  * ```
- * analyzeSourceFiles(sourceFiles)
+ * analyzeSourceFiles(sourceFiles, program.getTypeChecker(), '/repo')
+ * mergeFileAnalyses(fileAnalyses, program, '/repo', classification) // per-file results from worker threads
  * ```
  * 
  * Expected Output:
@@ -21,14 +22,158 @@ import type {
   NodeType, 
   EffectSignature,
   AnalysisResult,
-  LayerMap
+  LayerMap,
+  ServiceKind,
+  ErrorHandlerKind,
+  AmbiguousReference,
+  PackageReport,
+  PipelineKind,
+  SchemaDefinition,
+  SchemaKind,
+  SchemaUsage,
+  DataflowNodeType,
+  ConcurrencyPoint,
+  ResourceAcquisition,
+  ScopeClosure,
+  UnclosedScope,
+  ConfigRequirement,
+  ConfigProviderUsage,
+  ResiliencePolicy,
+  ObservabilityPoint,
+  NestedRun,
+  ClassificationRules,
+  LaneDefinition
 } from '../types/effect-node.js';
+import { signatureFromType, getEffectChannels, getEffectChannelsFromReturn, getTypeParts, formatType } from './effect-types-pure.js';
+import { getLineNumber, getStringArgument, isNamespaceCall, getNodeRef, findNodeByRef, describeExpression, getRootIdentifier } from './ast-helpers-pure.js';
+import type { NodeRef } from './ast-helpers-pure.js';
+import { analyzeLayers } from './layer-analyzer-pure.js';
+import { resolveDeclarations, getImportedName } from './symbol-resolver-pure.js';
+import { createPackageReport } from './workspace-pure.js';
+import { collectHttpRoutes, isInlineRouteHandler, getHandlerEffects } from './http-routes-pure.js';
+import { getSchemaDefinition, getSchemaUsage, getSchemaReferences, isSchemaExpression, getTypeNameTokens } from './schemas-pure.js';
+import { getConstructorModule, getDataflowTypeOfType, getMessageSite } from './dataflow-pure.js';
+import type { MessageRole } from './dataflow-pure.js';
+import { getConcurrencyOperation, findUnboundedConcurrency } from './concurrency-pure.js';
+import { getAcquisitionCall, getClosingCall, findEnclosingClosingCall, isScopeRequirement } from './resources-pure.js';
+import type { ClosingCall } from './resources-pure.js';
+import { getConfigSiteKind, getConfigRequirements, getProviderOperator, buildConfigInventory } from './config-pure.js';
+import type { ConfigSiteKind } from './config-pure.js';
+import { getResilienceCall, isIoCall, isIoEffect } from './resilience-pure.js';
+import { getObservabilityCall, buildObservabilityReport } from './observability-pure.js';
+import { collectRuntimeEntries } from './runtime-entries-pure.js';
+import { DEFAULT_CLASSIFICATION_RULES, classifyNode, groupByLane } from './classification-rules-pure.js';
+import type { ClassificationFacts } from './classification-rules-pure.js';
+import { createNodeId, claimNodeId, getQualifiedName, getFingerprint, toRelativePath, getCommonDirectory } from './node-identity-pure.js';
 
 // Analysis state (immutable)
 export interface AnalysisState {
   nodes: Map<string, EffectNode>;
   edges: Set<EffectEdge>;
-  nodeCounter: number;
+  rootDir: string;                     // Node IDs name files relative to this directory
+  checker: ts.TypeChecker | undefined; // Present when files come from a ts.Program
+  classification: ClassificationRules; // Decides node types and the lanes they are laid out in
+  declarations: Map<ts.Node, string>;  // Declaration node -> Effect node ID
+  references: ReferenceAccess[];       // Resolved into edges once all files are visited
+  errorSites: ErrorSite[];             // Errors constructed with `new`; kept when inside an effect
+  errorHandlers: ErrorHandlerSite[];   // catchTag / catchAll / ... applications
+  schemaSites: SchemaSite[];           // Schema.decode / encode calls; kept when inside an effect
+  messageSites: MessageSite[];         // Queue / PubSub producers and consumers
+  resourceSites: ResourceSite[];       // Resource acquisitions and the applications closing their scope
+  configSites: ConfigSite[];           // Config reads and ConfigProvider usages
+  resilienceSites: ResilienceSite[];   // Retries, timeouts and repeats, and calls performing IO
+  observabilitySites: ObservabilitySite[]; // Spans, span and log annotations and log calls
+  ambiguities: AmbiguousReference[];   // Name matches that were reported instead of linked
+  unclosedScopes: UnclosedScope[];     // Scoped effects no Effect.scoped or scoped layer closes
+  configProviders: ConfigProviderUsage[];
+  nestedRuns: NestedRun[];             // Effect.runSync / runPromise calls made inside an effect
+}
+
+// A `yield*` inside Effect.gen or a pipe stage, recorded before its target node may exist
+export interface ReferenceAccess {
+  sourceId: string;
+  edgeType: 'dependency' | 'pipe' | 'concurrent';
+  target: string;               // Service or effect name as written
+  member: string | undefined;   // Accessed member, e.g. `findById` in `repo.findById(id)`
+  reference: ts.Node;           // Identifier the checker resolves to a declaration
+  line: number;
+  concurrency?: ConcurrencyPoint; // Fork, race or concurrent Effect.all / forEach running the target
+}
+
+// An error constructed with `new`, e.g. `Effect.fail(new UserNotFound())`
+// The enclosing effect is looked up once every file is visited, since a service
+// member's implementation may live in another file than the service
+interface ErrorSite {
+  node: ts.NewExpression;       // Its class identifier resolves to the error declaration
+  errorName: string;
+  label: string | undefined;    // Construct raising the error: `Effect.fail`, `yield*`...
+  line: number;
+}
+
+// A catchTag / catchTags / catchAll / orElse / mapError application
+interface ErrorHandlerSite {
+  kind: ErrorHandlerKind;
+  tags: string[] | undefined;            // Undefined when every error is handled
+  node: ts.CallExpression;               // Applied inside the enclosing effect
+  handled: ts.Expression | undefined;    // Effect the handler wraps; undefined means the enclosing effect
+  line: number;
+}
+
+// A call that decodes or encodes with a schema, e.g. `Schema.decodeUnknown(User)(input)`
+interface SchemaSite {
+  node: ts.CallExpression;      // Its first argument refers to the schema
+  usage: 'decodes' | 'encodes';
+  line: number;
+}
+
+// A Queue offer / take or PubSub publish / subscribe, e.g. `Queue.offer(jobs, job)`
+interface MessageSite {
+  node: ts.CallExpression | ts.PropertyAccessExpression;
+  instance: ts.Expression;      // Queue or PubSub the operation works on
+  role: MessageRole;
+  line: number;
+}
+
+// An acquireRelease / addFinalizer call, or an Effect.scoped / Layer.scoped / Scope.extend application
+interface ResourceSite {
+  node: ts.CallExpression;
+  line: number;
+}
+
+// A config read such as `Config.string("HOST").pipe(Config.withDefault("localhost"))`,
+// or a ConfigProvider usage such as `Layer.setConfigProvider(ConfigProvider.fromMap(env))`
+interface ConfigSite {
+  node: ts.CallExpression;      // Outermost call of the chain
+  kind: ConfigSiteKind;
+  line: number;
+}
+
+// An Effect.retry / timeout / repeat application, or a call performing IO such as Effect.tryPromise
+interface ResilienceSite {
+  node: ts.CallExpression;
+  line: number;
+}
+
+// An Effect.withSpan / fn / annotateCurrentSpan / annotateLogs / log* call
+interface ObservabilitySite {
+  node: ts.CallExpression;
+  line: number;
+}
+
+// Serializable result of visiting one file, so files can be visited in worker threads
+// Node IDs only depend on the file itself, so results merge without renumbering
+export interface FileAnalysis {
+  nodes: EffectNode[];
+  declarations: Array<[NodeRef, string]>;
+  references: Array<Omit<ReferenceAccess, 'reference'> & { reference: NodeRef }>;
+  errorSites: Array<Omit<ErrorSite, 'node'> & { node: NodeRef }>;
+  errorHandlers: Array<Omit<ErrorHandlerSite, 'node' | 'handled'> & { node: NodeRef; handled: NodeRef | undefined }>;
+  schemaSites: Array<Omit<SchemaSite, 'node'> & { node: NodeRef }>;
+  messageSites: Array<Omit<MessageSite, 'node' | 'instance'> & { node: NodeRef; instance: NodeRef }>;
+  resourceSites: Array<Omit<ResourceSite, 'node'> & { node: NodeRef }>;
+  configSites: Array<Omit<ConfigSite, 'node'> & { node: NodeRef }>;
+  resilienceSites: Array<Omit<ResilienceSite, 'node'> & { node: NodeRef }>;
+  observabilitySites: Array<Omit<ObservabilitySite, 'node'> & { node: NodeRef }>;
 }
 
 // Source file input
@@ -36,30 +181,193 @@ export interface SourceFileInput {
   path: string;
   content: string;
   sourceFile: ts.SourceFile;
+  package?: string;   // Workspace package the file belongs to
+}
+
+// Service declaration found on a class heritage clause or GenericTag call
+interface ServiceDeclaration {
+  kind: ServiceKind;
+  key: string;
+  shape: ts.TypeNode | undefined;          // Explicit service shape, if any
+  options: ts.Expression | undefined;      // Effect.Service constructor options
+}
+
+// Member of a service shape
+interface ServiceMember {
+  name: string;
+  node: ts.Node;
+  signature: EffectSignature | undefined;
 }
 
 // Create initial state
-export const createInitialState = (): AnalysisState => ({
+export const createInitialState = (
+  checker?: ts.TypeChecker,
+  rootDir = '',
+  classification: ClassificationRules = DEFAULT_CLASSIFICATION_RULES
+): AnalysisState => ({
   nodes: new Map(),
   edges: new Set(),
-  nodeCounter: 0
+  rootDir,
+  checker,
+  classification,
+  declarations: new Map(),
+  references: [],
+  errorSites: [],
+  errorHandlers: [],
+  schemaSites: [],
+  messageSites: [],
+  resourceSites: [],
+  configSites: [],
+  resilienceSites: [],
+  observabilitySites: [],
+  ambiguities: [],
+  unclosedScopes: [],
+  configProviders: [],
+  nestedRuns: []
 });
 
 // Pure function to analyze multiple source files
+// Without a checker, signatures fall back to explicit type annotations only
+// Node IDs name files relative to rootDir, by default the directory all files share
 export const analyzeSourceFiles = (
-  sourceFiles: SourceFileInput[]
+  sourceFiles: SourceFileInput[],
+  checker?: ts.TypeChecker,
+  rootDir = getCommonDirectory(sourceFiles.map(fileInput => fileInput.path)),
+  classification: ClassificationRules = DEFAULT_CLASSIFICATION_RULES
 ): AnalysisResult => {
-  let state = createInitialState();
+  let state = createInitialState(checker, rootDir, classification);
   
   // Process each file
   for (const fileInput of sourceFiles) {
     state = analyzeSourceFile(state, fileInput);
   }
   
+  return completeAnalysis(state, sourceFiles, checker);
+};
+
+// Pure function to resolve edges and build the result once every file is visited
+export const completeAnalysis = (
+  visited: AnalysisState,
+  sourceFiles: SourceFileInput[],
+  checker?: ts.TypeChecker
+): AnalysisResult => {
+  let state = addRuntimeEntries(addHttpRoutes(visited, sourceFiles), sourceFiles);
+  state = resolveReferences(resolveConfigRequirements(resolveResourceLifecycles(state)));
+  state = resolveErrorTrack(state);
+  state = resolveSchemaUsages(state);
+  state = resolveMessageFlows(state);
+  state = resolveResilience(state);
+  state = resolveObservability(state);
+  state = assignPackages(state, sourceFiles);
+  
   const railway = buildRailway(state);
   const statistics = calculateStatistics(railway);
+  const { layerGraph, ambiguities: layerAmbiguities } = analyzeLayers(sourceFiles, railway, checker, state.rootDir, state.declarations);
+  const ambiguities = [...state.ambiguities, ...layerAmbiguities];
+  const packages = buildPackageReport(railway);
+  const unboundedConcurrency = findUnboundedConcurrency(railway.nodes);
+  const configInventory = buildConfigInventory(railway, layerGraph);
+  const observability = buildObservabilityReport(railway);
+  
+  return {
+    railway,
+    statistics,
+    layerGraph,
+    ...(ambiguities.length > 0 && { ambiguousReferences: ambiguities }),
+    ...(unboundedConcurrency.length > 0 && { unboundedConcurrency }),
+    ...(state.unclosedScopes.length > 0 && { unclosedScopes: state.unclosedScopes }),
+    ...(configInventory.length > 0 && { configInventory }),
+    ...(state.configProviders.length > 0 && { configProviders: state.configProviders }),
+    ...((observability.spans > 0 || observability.unobservedPaths.length > 0) && { observability }),
+    ...(state.nestedRuns.length > 0 && { nestedRuns: state.nestedRuns }),
+    ...(packages && { packages })
+  };
+};
+
+// Pure function to add an entry node per HTTP route, linked to the effects its handlers run
+// Routes span files (endpoints, groups and handlers are often apart), so they are found once all files are visited
+const addHttpRoutes = (state: AnalysisState, sourceFiles: SourceFileInput[]): AnalysisState => {
+  const nodes = new Map(state.nodes);
+  const declarations = new Map(state.declarations);
+  const references = [...state.references];
+  
+  collectHttpRoutes(sourceFiles, state.checker).forEach(definition => {
+    const { route } = definition;
+    const { id: nodeId, fingerprint } = claimIdentity({ ...state, nodes }, definition.filePath,
+                                                      definition.qualifiedName, definition.anchor);
+    nodes.set(nodeId, {
+      id: nodeId,
+      name: `${route.method} ${route.path}`,
+      type: 'controller',
+      filePath: definition.filePath,
+      line: definition.line,
+      fingerprint,
+      route,
+      ...(route.endpoint && { description: `HttpApiEndpoint ${route.group ? `${route.group}.` : ''}${route.endpoint}` }),
+      metrics: measureNode(definition.anchor)
+    });
+    if (definition.declaration) declarations.set(definition.declaration, nodeId);
+    definition.handlers.forEach(handler => references.push(...extractHandlerReferences(handler, nodeId)));
+  });
+  
+  return { ...state, nodes, declarations, references };
+};
+
+// Pure function to add an entry node per call running a program, linked to the effect it runs
+// A run inside an effect does not start a program; it is reported as a nested run instead
+const addRuntimeEntries = (state: AnalysisState, sourceFiles: SourceFileInput[]): AnalysisState => {
+  const nodes = new Map(state.nodes);
+  const references = [...state.references];
+  const nestedRuns: NestedRun[] = [];
+  const resolve = (identifier: ts.Identifier) => findVariableDeclaration(state.checker, identifier)?.initializer;
+  
+  collectRuntimeEntries(sourceFiles, resolve).forEach(definition => {
+    const { runtime } = definition;
+    const enclosingId = findEnclosingNodeId(state, definition.anchor);
+    if (enclosingId) {
+      nestedRuns.push({ runner: runtime.runner, nodeId: enclosingId, filePath: definition.filePath, line: definition.line });
+      return;
+    }
+    
+    const { id: nodeId, fingerprint } = claimIdentity({ ...state, nodes }, definition.filePath,
+                                                      runtime.runner, definition.anchor);
+    nodes.set(nodeId, {
+      id: nodeId,
+      name: `${runtime.runner}(${runtime.effect || runtime.layers[0] || ''})`,
+      type: 'controller',
+      filePath: definition.filePath,
+      line: definition.line,
+      fingerprint,
+      runtime,
+      description: `${runtime.kind} entry point`,
+      metrics: measureNode(definition.anchor)
+    });
+    if (definition.effect) references.push(...extractHandlerReferences(definition.effect, nodeId));
+  });
+  
+  return { ...state, nodes, references, nestedRuns: [...state.nestedRuns, ...nestedRuns] };
+};
+
+// Pure function to tag nodes with the workspace package of their file (returns new state)
+const assignPackages = (state: AnalysisState, sourceFiles: SourceFileInput[]): AnalysisState => {
+  const packageByPath = new Map(sourceFiles.flatMap(fileInput =>
+    fileInput.package ? [[fileInput.path, fileInput.package] as [string, string]] : []));
+  if (packageByPath.size === 0) return state;
   
-  return { railway, statistics };
+  const nodes = new Map(state.nodes);
+  nodes.forEach((node, id) => {
+    const pkg = packageByPath.get(node.filePath);
+    if (pkg) nodes.set(id, { ...node, package: pkg });
+  });
+  return { ...state, nodes };
+};
+
+// Pure function to report cross-package coupling; undefined outside workspace mode
+const buildPackageReport = (railway: EffectRailway): PackageReport | undefined => {
+  const packageOf = new Map(railway.nodes.flatMap(node =>
+    node.package ? [[node.id, node.package] as [string, string]] : []));
+  if (packageOf.size === 0) return undefined;
+  return createPackageReport(packageOf, railway.edges.map(edge => [edge.source, edge.target]));
 };
 
 // Pure function to analyze a single source file
@@ -70,6 +378,125 @@ export const analyzeSourceFile = (
   return visitNode(state, fileInput.sourceFile, fileInput.path);
 };
 
+// Pure function to visit one file on its own and serialize what was found
+export const analyzeFileInIsolation = (
+  fileInput: SourceFileInput,
+  checker: ts.TypeChecker | undefined,
+  rootDir: string,
+  classification: ClassificationRules
+): FileAnalysis => {
+  const state = analyzeSourceFile(createInitialState(checker, rootDir, classification), fileInput);
+  
+  return {
+    nodes: Array.from(state.nodes.values()),
+    declarations: Array.from(state.declarations, ([declaration, nodeId]): [NodeRef, string] => [getNodeRef(declaration), nodeId]),
+    references: state.references.map(access => ({ ...access, reference: getNodeRef(access.reference) })),
+    errorSites: state.errorSites.map(site => ({ ...site, node: getNodeRef(site.node) })),
+    errorHandlers: state.errorHandlers.map(site => ({
+      ...site,
+      node: getNodeRef(site.node),
+      handled: site.handled && getNodeRef(site.handled)
+    })),
+    schemaSites: state.schemaSites.map(site => ({ ...site, node: getNodeRef(site.node) })),
+    messageSites: state.messageSites.map(site => ({
+      ...site,
+      node: getNodeRef(site.node),
+      instance: getNodeRef(site.instance)
+    })),
+    resourceSites: state.resourceSites.map(site => ({ ...site, node: getNodeRef(site.node) })),
+    configSites: state.configSites.map(site => ({ ...site, node: getNodeRef(site.node) })),
+    resilienceSites: state.resilienceSites.map(site => ({ ...site, node: getNodeRef(site.node) })),
+    observabilitySites: state.observabilitySites.map(site => ({ ...site, node: getNodeRef(site.node) }))
+  };
+};
+
+// Pure function to merge per-file results in file order into the state a sequential
+// visit of the same files produces, with syntax nodes mapped onto the given program
+export const mergeFileAnalyses = (
+  fileAnalyses: FileAnalysis[],
+  program: ts.Program,
+  rootDir: string,
+  classification: ClassificationRules
+): AnalysisState => {
+  const state = createInitialState(program.getTypeChecker(), rootDir, classification);
+  const nodes = new Map(state.nodes);
+  const declarations = new Map(state.declarations);
+  const references: ReferenceAccess[] = [];
+  const errorSites: ErrorSite[] = [];
+  const errorHandlers: ErrorHandlerSite[] = [];
+  const schemaSites: SchemaSite[] = [];
+  const messageSites: MessageSite[] = [];
+  const resourceSites: ResourceSite[] = [];
+  const configSites: ConfigSite[] = [];
+  const resilienceSites: ResilienceSite[] = [];
+  const observabilitySites: ObservabilitySite[] = [];
+  
+  for (const fileAnalysis of fileAnalyses) {
+    fileAnalysis.nodes.forEach(node => nodes.set(node.id, node));
+    fileAnalysis.declarations.forEach(([ref, nodeId]) => {
+      const declaration = findNodeByRef(program, ref);
+      if (declaration) declarations.set(declaration, nodeId);
+    });
+    fileAnalysis.references.forEach(access => {
+      const reference = findNodeByRef(program, access.reference);
+      if (reference) references.push({ ...access, reference });
+    });
+    fileAnalysis.errorSites.forEach(site => {
+      const node = findNodeByRef(program, site.node);
+      if (node && ts.isNewExpression(node)) errorSites.push({ ...site, node });
+    });
+    fileAnalysis.errorHandlers.forEach(site => {
+      const node = findNodeByRef(program, site.node);
+      const handled = site.handled && findNodeByRef(program, site.handled);
+      if (node && ts.isCallExpression(node)) {
+        errorHandlers.push({ ...site, node, handled: handled && ts.isExpression(handled) ? handled : undefined });
+      }
+    });
+    fileAnalysis.schemaSites.forEach(site => {
+      const node = findNodeByRef(program, site.node);
+      if (node && ts.isCallExpression(node)) schemaSites.push({ ...site, node });
+    });
+    fileAnalysis.messageSites.forEach(site => {
+      const node = findNodeByRef(program, site.node);
+      const instance = findNodeByRef(program, site.instance);
+      if (node && (ts.isCallExpression(node) || ts.isPropertyAccessExpression(node)) && instance && ts.isExpression(instance)) {
+        messageSites.push({ ...site, node, instance });
+      }
+    });
+    fileAnalysis.resourceSites.forEach(site => {
+      const node = findNodeByRef(program, site.node);
+      if (node && ts.isCallExpression(node)) resourceSites.push({ ...site, node });
+    });
+    fileAnalysis.configSites.forEach(site => {
+      const node = findNodeByRef(program, site.node);
+      if (node && ts.isCallExpression(node)) configSites.push({ ...site, node });
+    });
+    fileAnalysis.resilienceSites.forEach(site => {
+      const node = findNodeByRef(program, site.node);
+      if (node && ts.isCallExpression(node)) resilienceSites.push({ ...site, node });
+    });
+    fileAnalysis.observabilitySites.forEach(site => {
+      const node = findNodeByRef(program, site.node);
+      if (node && ts.isCallExpression(node)) observabilitySites.push({ ...site, node });
+    });
+  }
+  
+  return {
+    ...state,
+    nodes,
+    declarations,
+    references,
+    errorSites,
+    errorHandlers,
+    schemaSites,
+    messageSites,
+    resourceSites,
+    configSites,
+    resilienceSites,
+    observabilitySites
+  };
+};
+
 // Pure function to visit and analyze a node
 const visitNode = (
   state: AnalysisState,
@@ -88,6 +515,37 @@ const visitNode = (
     newState = analyzeCallExpression(newState, node, filePath);
   }
   
+  // Look for Queue / PubSub producers and consumers
+  if (ts.isCallExpression(node) || ts.isPropertyAccessExpression(node)) {
+    newState = analyzeMessageSite(newState, node);
+  }
+  
+  // Look for resource acquisitions and the applications closing their scope
+  if (ts.isCallExpression(node) && (getAcquisitionCall(node) || getClosingCall(node))) {
+    newState = { ...newState, resourceSites: [...newState.resourceSites, { node, line: getLineNumber(node) }] };
+  }
+  
+  // Look for config reads and ConfigProvider usages
+  const configSiteKind = ts.isCallExpression(node) ? getConfigSiteKind(node) : undefined;
+  if (ts.isCallExpression(node) && configSiteKind) {
+    newState = { ...newState, configSites: [...newState.configSites, { node, kind: configSiteKind, line: getLineNumber(node) }] };
+  }
+  
+  // Look for retries, timeouts and repeats, and for calls performing IO
+  if (ts.isCallExpression(node) && (getResilienceCall(node) || isIoCall(node))) {
+    newState = { ...newState, resilienceSites: [...newState.resilienceSites, { node, line: getLineNumber(node) }] };
+  }
+  
+  // Look for spans, annotations and log calls
+  if (ts.isCallExpression(node) && getObservabilityCall(node)) {
+    newState = { ...newState, observabilitySites: [...newState.observabilitySites, { node, line: getLineNumber(node) }] };
+  }
+  
+  // Look for errors constructed inside effects
+  if (ts.isNewExpression(node)) {
+    newState = analyzeNewExpression(newState, node);
+  }
+  
   // Look for Effect type annotations
   if (ts.isVariableDeclaration(node) || ts.isFunctionDeclaration(node)) {
     newState = analyzeDeclaration(newState, node, filePath);
@@ -146,9 +604,25 @@ const analyzeCallExpression = (
     }
   }
   
-  // Check for pipe pattern
-  if (ts.isIdentifier(expression) && expression.text === 'pipe') {
-    return analyzePipe(state, node, filePath);
+  // Check for pipe, `.pipe()`, flow and Effect.fn patterns
+  const pipeline = getPipelineParts(node);
+  if (pipeline) {
+    return analyzePipeline(state, node, pipeline, filePath);
+  }
+  
+  // Check for error handlers
+  const handlerKind = getErrorHandlerKind(expression);
+  if (handlerKind) {
+    return analyzeErrorHandler(state, node, handlerKind);
+  }
+  
+  // Check for schema decoding and encoding
+  const schemaUsage = getSchemaUsage(node);
+  if (schemaUsage) {
+    return {
+      ...state,
+      schemaSites: [...state.schemaSites, { node, usage: schemaUsage.usage, line: getLineNumber(node) }]
+    };
   }
   
   return state;
@@ -161,104 +635,258 @@ const analyzeEffectGen = (
   filePath: string
 ): AnalysisState => {
   const parent = findParentDeclaration(node);
-  if (!parent) return state;
+  if (!parent || isInlineRouteHandler(node)) return state;
   
   const name = getDeclarationName(parent);
   const line = getLineNumber(node);
-  const type = inferNodeType(parent, filePath);
-  const signature = extractEffectSignature(parent);
+  const type = inferNodeType(parent, filePath, state);
+  const signature = extractEffectSignature(parent, node, state.checker);
   
-  const nodeId = generateNodeId(state.nodeCounter);
+  const { id: nodeId, fingerprint, existing } = claimDetection(state, parent, filePath, node);
+  const concurrency = extractConcurrency(node, nodeId);
   const effectNode: EffectNode = {
     id: nodeId,
-    name: name || `effect_${state.nodeCounter}`,
+    name: name || `effect_${fingerprint.slice(0, 6)}`,
     type,
     filePath,
     line,
-    metrics: {
-      callsCount: 0,
-      calledByCount: 0,
-      lines: 1
-    },
-    ...(signature && { effectSignature: signature })
+    fingerprint,
+    patterns: ['effect-gen'],
+    metrics: measureNode(node),
+    ...(signature && { effectSignature: signature }),
+    ...(concurrency.points.length > 0 && { concurrency: concurrency.points })
   };
   
   const newNodes = new Map(state.nodes);
-  newNodes.set(nodeId, effectNode);
+  newNodes.set(nodeId, existing ? mergeDetections(existing, effectNode) : effectNode);
   
-  // Look for dependencies within Effect.gen
-  const dependencies = extractDependencies(node);
-  const newEdges = new Set(state.edges);
+  const newDeclarations = new Map(state.declarations);
+  newDeclarations.set(parent, nodeId);
   
-  dependencies.forEach(dep => {
-    const depNode = findNodeByName(newNodes, dep);
-    if (depNode) {
-      newEdges.add({
-        id: `edge_${nodeId}_${depNode.id}`,
-        source: nodeId,
-        target: depNode.id,
-        type: 'dependency'
-      });
-    }
-  });
+  // Record yield* accesses and concurrent branches; they become edges once every node is known
+  const references = [...extractYieldAccesses(node, nodeId), ...concurrency.accesses];
   
   return {
+    ...state,
     nodes: newNodes,
-    edges: newEdges,
-    nodeCounter: state.nodeCounter + 1
+    declarations: newDeclarations,
+    references: [...state.references, ...references]
   };
 };
 
-// Pure function to analyze pipe
-const analyzePipe = (
+// A recognized pipeline: what its stages are applied to and the stages in order
+interface PipelineParts {
+  kind: PipelineKind;
+  source: ts.Expression | undefined; // Undefined for flow, whose input is supplied by the caller
+  stages: ts.Expression[];
+  spanName: string | undefined;      // Span name of `Effect.fn("name")`
+}
+
+const EFFECT_FN_MEMBERS = ['fn', 'fnUntraced'];
+
+// Recognizes `pipe(a, f)`, `a.pipe(f)`, `flow(f, g)` and `Effect.fn("span")(function* () {}, f)`
+const getPipelineParts = (node: ts.CallExpression): PipelineParts | undefined => {
+  const expression = node.expression;
+  const [first, ...rest] = Array.from(node.arguments);
+  
+  if ((ts.isIdentifier(expression) && expression.text === 'pipe') || isNamespaceCall(expression, 'Function', 'pipe')) {
+    return first ? { kind: 'pipe', source: first, stages: rest, spanName: undefined } : undefined;
+  }
+  if ((ts.isIdentifier(expression) && expression.text === 'flow') || isNamespaceCall(expression, 'Function', 'flow')) {
+    return { kind: 'flow', source: undefined, stages: Array.from(node.arguments), spanName: undefined };
+  }
+  if (ts.isPropertyAccessExpression(expression) && expression.name.text === 'pipe') {
+    return { kind: 'method-pipe', source: expression.expression, stages: Array.from(node.arguments), spanName: undefined };
+  }
+  
+  // `Effect.fn(function* () {})` and the curried `Effect.fn("span")(function* () {})`
+  const isFunction = first !== undefined && (ts.isFunctionExpression(first) || ts.isArrowFunction(first));
+  const isEffectFn = (callee: ts.Expression): boolean =>
+    EFFECT_FN_MEMBERS.some(member => isNamespaceCall(callee, 'Effect', member));
+  if (isFunction && isEffectFn(expression)) {
+    return { kind: 'effect-fn', source: first, stages: rest, spanName: undefined };
+  }
+  if (isFunction && ts.isCallExpression(expression) && isEffectFn(expression.expression)) {
+    return { kind: 'effect-fn', source: first, stages: rest, spanName: getStringArgument(expression, 0) };
+  }
+  return undefined;
+};
+
+// Whether a pipeline produces an Effect, or for `flow` a function returning one: by its type when
+// there is a checker, otherwise by a source or stage from the Effect module (`Effect.map(...)`)
+const isEffectPipeline = (
+  node: ts.CallExpression,
+  pipeline: PipelineParts,
+  checker: ts.TypeChecker | undefined
+): boolean => {
+  if (pipeline.kind === 'effect-fn') return true;
+  if (checker) {
+    try {
+      const type = checker.getTypeAtLocation(node);
+      return !!(getEffectChannels(type, checker) || getEffectChannelsFromReturn(type, checker));
+    } catch {
+      return false;
+    }
+  }
+  return [pipeline.source, ...pipeline.stages].some(part => part && getRootIdentifier(part)?.text === 'Effect');
+};
+
+// Whether an expression is what its declaration evaluates to: the initializer, the body of an
+// arrow initializer, or a value returned directly from the function body
+const definesDeclaration = (node: ts.Node, declaration: ts.Node): boolean => {
+  let current = node;
+  while (current.parent && current.parent !== declaration) {
+    const parent = current.parent;
+    const isTransparent = ts.isParenthesizedExpression(parent) || ts.isAsExpression(parent) ||
+                          ts.isSatisfiesExpression(parent) || ts.isReturnStatement(parent) ||
+                          (ts.isBlock(parent) && ts.isFunctionLike(parent.parent)) ||
+                          ((ts.isArrowFunction(parent) || ts.isFunctionExpression(parent)) && parent.body === current);
+    if (!isTransparent) return false;
+    current = parent;
+  }
+  return current.parent === declaration;
+};
+
+// Pure function to analyze a pipeline; each stage becomes an ordered step on the node
+const analyzePipeline = (
   state: AnalysisState,
   node: ts.CallExpression,
+  pipeline: PipelineParts,
   filePath: string
 ): AnalysisState => {
   const parent = findParentDeclaration(node);
-  if (!parent) return state;
+  if (!parent || isInlineRouteHandler(node)) return state;
   
-  const name = getDeclarationName(parent);
+  // `.pipe()` appears all over effect bodies; only the one a declaration evaluates to is a node
+  if (pipeline.kind === 'method-pipe' && !definesDeclaration(node, parent)) return state;
+  
+  // Piped schemas such as `Schema.String.pipe(Schema.minLength(1))` are not effects
+  if (pipeline.source && isSchemaExpression(pipeline.source)) return state;
+  
+  // Layers and `flow`s over plain functions are pipelines too; only effects and dataflow values are nodes
+  const dataflowType = getPipelineDataflowType(parent, pipeline, state.checker);
+  if (!dataflowType && !isEffectPipeline(node, pipeline, state.checker)) return state;
+  
+  const name = pipeline.spanName || getDeclarationName(parent);
   const line = getLineNumber(node);
-  const type = inferNodeType(parent, filePath);
+  const type = dataflowType || inferNodeType(parent, filePath, state);
+  const signature = extractEffectSignature(parent, node, state.checker);
+  const prefix = pipeline.kind === 'effect-fn' ? 'effect' : pipeline.kind === 'flow' ? 'flow' : 'pipe';
   
-  const nodeId = generateNodeId(state.nodeCounter);
+  const { id: nodeId, fingerprint, existing } = claimDetection(state, parent, filePath, node);
   const effectNode: EffectNode = {
     id: nodeId,
-    name: name || `pipe_${state.nodeCounter}`,
+    name: name || `${prefix}_${fingerprint.slice(0, 6)}`,
     type,
     filePath,
     line,
-    metrics: {
-      callsCount: 0,
-      calledByCount: 0,
-      lines: 1
-    }
+    fingerprint,
+    patterns: [pipeline.kind],
+    pipeline: {
+      kind: pipeline.kind,
+      ...(pipeline.source && pipeline.kind !== 'effect-fn' && { source: describeExpression(pipeline.source) }),
+      steps: pipeline.stages.map((stage, index) => ({
+        index,
+        operator: describeExpression(ts.isCallExpression(stage) ? stage.expression : stage),
+        line: getLineNumber(stage)
+      }))
+    },
+    metrics: measureNode(node),
+    ...(signature && { effectSignature: signature })
   };
   
   const newNodes = new Map(state.nodes);
-  newNodes.set(nodeId, effectNode);
+  newNodes.set(nodeId, existing ? mergeDetections(existing, effectNode) : effectNode);
   
-  // Analyze pipe stages for dependencies
-  const stages = extractPipeStages(node);
-  const newEdges = new Set(state.edges);
+  const newDeclarations = new Map(state.declarations);
+  newDeclarations.set(parent, nodeId);
   
-  stages.forEach(stage => {
-    const depNode = findNodeByName(newNodes, stage);
-    if (depNode) {
-      newEdges.add({
-        id: `edge_${nodeId}_${depNode.id}`,
-        source: nodeId,
-        target: depNode.id,
-        type: 'pipe'
-      });
-    }
-  });
+  // Pipe stages and Effect.fn yields become edges once every node is known
+  const references = pipeline.kind === 'effect-fn' ?
+    [...extractYieldAccesses(node, nodeId), ...extractPipeStages(pipeline.stages, nodeId)] :
+    extractPipeStages(pipeline.source ? [pipeline.source, ...pipeline.stages] : pipeline.stages, nodeId);
   
   return {
+    ...state,
     nodes: newNodes,
-    edges: newEdges,
-    nodeCounter: state.nodeCounter + 1
+    declarations: newDeclarations,
+    references: [...state.references, ...references]
+  };
+};
+
+// Pure function to record `new XError()` inside an effect; only tagged errors become edges
+const analyzeNewExpression = (
+  state: AnalysisState,
+  node: ts.NewExpression
+): AnalysisState => {
+  if (!ts.isIdentifier(node.expression)) return state;
+  
+  // Defects are not part of the error channel
+  const label = describeFailure(node);
+  if (label === 'Effect.die' || label === 'Effect.dieSync') return state;
+  
+  const site: ErrorSite = {
+    node,
+    errorName: node.expression.text,
+    label,
+    line: getLineNumber(node)
+  };
+  
+  return {
+    ...state,
+    errorSites: [...state.errorSites, site]
+  };
+};
+
+// Pure function to record where an error handler is applied
+const analyzeErrorHandler = (
+  state: AnalysisState,
+  node: ts.CallExpression,
+  kind: ErrorHandlerKind
+): AnalysisState => {
+  // Data-first calls take the handled effect as their first argument
+  const first = node.arguments[0];
+  const dataFirst = kind === 'catchTag' ?
+                    !!first && !ts.isStringLiteralLike(first) :
+                    node.arguments.length >= 2;
+  const args = dataFirst ? node.arguments.slice(1) : Array.from(node.arguments);
+  
+  const tags = kind === 'catchTag' ? args.filter(ts.isStringLiteralLike).map(arg => arg.text) :
+               kind === 'catchTags' ? getObjectLiteralKeys(args[0]) :
+               undefined;
+  
+  const site: ErrorHandlerSite = {
+    kind,
+    tags,
+    node,
+    handled: dataFirst ? first : getPipedEffect(node),
+    line: getLineNumber(node)
+  };
+  
+  return {
+    ...state,
+    errorHandlers: [...state.errorHandlers, site]
+  };
+};
+
+// Pure function to record a Queue / PubSub producer or consumer
+const analyzeMessageSite = (
+  state: AnalysisState,
+  node: ts.CallExpression | ts.PropertyAccessExpression
+): AnalysisState => {
+  const message = getMessageSite(node, state.checker);
+  if (!message) return state;
+  
+  const site: MessageSite = {
+    node,
+    instance: message.instance,
+    role: message.role,
+    line: getLineNumber(node)
+  };
+  
+  return {
+    ...state,
+    messageSites: [...state.messageSites, site]
   };
 };
 
@@ -268,38 +896,63 @@ const analyzeDeclaration = (
   node: ts.VariableDeclaration | ts.FunctionDeclaration,
   filePath: string
 ): AnalysisState => {
-  // Check if the declaration has Effect type annotation
-  const typeNode = ts.isVariableDeclaration(node) ? node.type : 
-                   ts.isFunctionDeclaration(node) ? node.type : undefined;
+  // Check for Schema.Struct / Schema.TaggedStruct definitions
+  const schema = ts.isVariableDeclaration(node) ? getSchemaDefinition(node) : undefined;
+  if (schema && ts.isVariableDeclaration(node)) {
+    return addSchemaNode(state, node, schema, filePath);
+  }
+  
+  // Check for Context.GenericTag service definitions
+  if (ts.isVariableDeclaration(node) && node.initializer && ts.isCallExpression(node.initializer) &&
+      isNamespaceCall(node.initializer.expression, 'Context', 'GenericTag')) {
+    const call = node.initializer;
+    const name = getDeclarationName(node);
+    const key = getStringArgument(call, 0) || name;
+    if (name && key) {
+      const shape = call.typeArguments?.[call.typeArguments.length - 1];
+      const declaration: ServiceDeclaration = { kind: 'generic-tag', key, shape, options: undefined };
+      return addServiceNodes(state, name, node, declaration, filePath);
+    }
+  }
   
-  if (typeNode && isEffectType(typeNode)) {
+  // Check if the declaration has Effect type annotation, builds a Stream, Schedule, Queue...
+  // acquires a resource: `const connection = Effect.acquireRelease(open, close)`, performs IO or
+  // applies a retry, timeout or repeat: `const fetchFeed = Effect.tryPromise(...)`
+  const typeNode = getDeclaredTypeNode(node);
+  const dataflowType = getDeclarationDataflowType(node, state.checker);
+  const value = getDeclaredValue(node);
+  const acquisition = value && ts.isCallExpression(value) ? getAcquisitionCall(value) : undefined;
+  const resilient = value && ts.isCallExpression(value) && (getResilienceCall(value) || isIoEffect(value));
+  
+  if ((typeNode && isEffectType(typeNode)) || dataflowType || acquisition || resilient) {
     const name = getDeclarationName(node);
     const line = getLineNumber(node);
-    const type = inferNodeType(node, filePath);
-    const signature = extractEffectSignatureFromType(typeNode);
+    const type = dataflowType || inferNodeType(node, filePath, state);
+    const signature = extractEffectSignature(node, node, state.checker);
     
-    const nodeId = generateNodeId(state.nodeCounter);
+    const { id: nodeId, fingerprint, existing } = claimDetection(state, node, filePath, node);
     const effectNode: EffectNode = {
       id: nodeId,
-      name: name || `effect_${state.nodeCounter}`,
+      name: name || `effect_${fingerprint.slice(0, 6)}`,
       type,
       filePath,
       line,
-      metrics: {
-        callsCount: 0,
-        calledByCount: 0,
-        lines: 1
-      },
+      fingerprint,
+      patterns: ['declaration'],
+      metrics: measureNode(node),
       ...(signature && { effectSignature: signature })
     };
     
     const newNodes = new Map(state.nodes);
-    newNodes.set(nodeId, effectNode);
+    newNodes.set(nodeId, existing ? mergeDetections(existing, effectNode) : effectNode);
+    
+    const newDeclarations = new Map(state.declarations);
+    newDeclarations.set(node, nodeId);
     
     return {
+      ...state,
       nodes: newNodes,
-      edges: state.edges,
-      nodeCounter: state.nodeCounter + 1
+      declarations: newDeclarations
     };
   }
   
@@ -317,39 +970,58 @@ const analyzeClassDeclaration = (
   
   let newState = state;
   
+  // Context.Tag / Effect.Tag / Effect.Service classes become service nodes
+  const serviceDeclaration = getServiceDeclaration(node);
+  if (serviceDeclaration) {
+    newState = addServiceNodes(newState, className, node, serviceDeclaration, filePath);
+  }
+  
+  // Data.TaggedError / Schema.TaggedError classes become error nodes
+  const errorTag = getTaggedErrorTag(node);
+  if (errorTag) {
+    newState = addErrorNode(newState, className, node, errorTag, filePath);
+  }
+  
+  // Schema.Class / Schema.TaggedClass / Schema.TaggedRequest classes become schema nodes
+  const schema = getSchemaDefinition(node);
+  if (schema) {
+    newState = addSchemaNode(newState, node, schema, filePath);
+  }
+  
   // Check methods for Effect usage
   node.members.forEach(member => {
     if (ts.isMethodDeclaration(member)) {
-      const returnType = member.type;
+      const returnType = getDeclaredTypeNode(member);
       if (returnType && isEffectType(returnType)) {
         const methodName = member.name && ts.isIdentifier(member.name) ? 
                           member.name.text : 'method';
         const line = getLineNumber(member);
-        const type = inferNodeType(member, filePath);
-        const signature = extractEffectSignatureFromType(returnType);
+        const type = inferNodeType(member, filePath, state);
+        const signature = extractEffectSignature(member, member, newState.checker);
         
-        const nodeId = generateNodeId(newState.nodeCounter);
+        const { id: nodeId, fingerprint, existing } = claimDetection(newState, member, filePath, member);
         const effectNode: EffectNode = {
           id: nodeId,
           name: `${className}.${methodName}`,
           type,
           filePath,
           line,
-          metrics: {
-            callsCount: 0,
-            calledByCount: 0,
-            lines: 1
-          },
+          fingerprint,
+          patterns: ['method'],
+          metrics: measureNode(member),
           ...(signature && { effectSignature: signature })
         };
         
         const newNodes = new Map(newState.nodes);
-        newNodes.set(nodeId, effectNode);
+        newNodes.set(nodeId, existing ? mergeDetections(existing, effectNode) : effectNode);
+        
+        const newDeclarations = new Map(newState.declarations);
+        newDeclarations.set(member, nodeId);
         
         newState = {
+          ...newState,
           nodes: newNodes,
-          edges: newState.edges,
-          nodeCounter: newState.nodeCounter + 1
+          declarations: newDeclarations
         };
       }
     }
@@ -358,83 +1030,577 @@ const analyzeClassDeclaration = (
   return newState;
 };
 
-// Helper functions (all pure)
-
-const generateNodeId = (counter: number): string => {
-  return `effect_node_${counter}`;
+// Pure function to add a service node and one node per member of its shape
+const addServiceNodes = (
+  state: AnalysisState,
+  serviceName: string,
+  declarationNode: ts.ClassDeclaration | ts.VariableDeclaration,
+  declaration: ServiceDeclaration,
+  filePath: string
+): AnalysisState => {
+  const members = collectServiceMembers(declarationNode, declaration, state.checker);
+  const serviceQualifiedName = getQualifiedName(declarationNode);
+  const service = claimIdentity(state, filePath, serviceQualifiedName, declarationNode);
+  const serviceId = service.id;
+  const type = inferServiceType(declarationNode, declaration.key, filePath, state);
+  
+  const newNodes = new Map(state.nodes);
+  const newDeclarations = new Map(state.declarations);
+  newDeclarations.set(declarationNode, serviceId);
+  newNodes.set(serviceId, {
+    id: serviceId,
+    name: serviceName,
+    type,
+    filePath,
+    line: getLineNumber(declarationNode),
+    fingerprint: service.fingerprint,
+    service: {
+      key: declaration.key,
+      kind: declaration.kind,
+      members: members.map(member => member.name)
+    },
+    metrics: measureNode(declarationNode)
+  });
+  
+  members.forEach(member => {
+    const { id: memberId, fingerprint } = claimIdentity({ ...state, nodes: newNodes }, filePath,
+                                                        `${serviceQualifiedName}.${member.name}`, member.node);
+    const sameFile = member.node.getSourceFile() === declarationNode.getSourceFile();
+    newDeclarations.set(member.node, memberId);
+    newNodes.set(memberId, {
+      id: memberId,
+      name: `${serviceName}.${member.name}`,
+      type,
+      filePath,
+      line: sameFile ? getLineNumber(member.node) : getLineNumber(declarationNode),
+      fingerprint,
+      memberOf: serviceId,
+      metrics: measureNode(sameFile ? member.node : declarationNode),
+      ...(member.signature && { effectSignature: member.signature })
+    });
+  });
+  
+  return {
+    ...state,
+    nodes: newNodes,
+    declarations: newDeclarations
+  };
 };
 
-const findParentDeclaration = (node: ts.Node): ts.Node | undefined => {
-  let parent = node.parent;
-  while (parent) {
-    if (ts.isVariableDeclaration(parent) || 
-        ts.isFunctionDeclaration(parent) ||
-        ts.isMethodDeclaration(parent) ||
-        ts.isPropertyDeclaration(parent)) {
-      return parent;
-    }
-    parent = parent.parent;
-  }
-  return undefined;
+// Pure function to add an error node for a tagged error class
+const addErrorNode = (
+  state: AnalysisState,
+  className: string,
+  declarationNode: ts.ClassDeclaration,
+  errorTag: string,
+  filePath: string
+): AnalysisState => {
+  const { id: nodeId, fingerprint } = claimIdentity(state, filePath, getQualifiedName(declarationNode), declarationNode);
+  
+  const newNodes = new Map(state.nodes);
+  newNodes.set(nodeId, {
+    id: nodeId,
+    name: className,
+    type: 'error',
+    filePath,
+    line: getLineNumber(declarationNode),
+    fingerprint,
+    errorTag,
+    metrics: measureNode(declarationNode)
+  });
+  
+  const newDeclarations = new Map(state.declarations);
+  newDeclarations.set(declarationNode, nodeId);
+  
+  return {
+    ...state,
+    nodes: newNodes,
+    declarations: newDeclarations
+  };
 };
 
-const getDeclarationName = (node: ts.Node): string | undefined => {
-  if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name)) {
-    return node.name.text;
-  }
-  if (ts.isFunctionDeclaration(node) && node.name) {
-    return node.name.text;
-  }
-  if (ts.isMethodDeclaration(node) && node.name && ts.isIdentifier(node.name)) {
-    return node.name.text;
-  }
-  return undefined;
+// Pure function to add a schema node for a Schema.Struct / Schema.Class / Schema.TaggedRequest declaration
+const addSchemaNode = (
+  state: AnalysisState,
+  declarationNode: ts.VariableDeclaration | ts.ClassDeclaration,
+  schema: SchemaDefinition,
+  filePath: string
+): AnalysisState => {
+  const { id: nodeId, fingerprint } = claimIdentity(state, filePath, getQualifiedName(declarationNode), declarationNode);
+  const constructor = SCHEMA_CONSTRUCTORS[schema.kind];
+  
+  const newNodes = new Map(state.nodes);
+  newNodes.set(nodeId, {
+    id: nodeId,
+    name: schema.typeNames[0] || `schema_${fingerprint.slice(0, 6)}`,
+    type: 'schema',
+    filePath,
+    line: getLineNumber(declarationNode),
+    fingerprint,
+    schema,
+    description: `${constructor} with ${schema.fields.length} field${schema.fields.length === 1 ? '' : 's'}`,
+    metrics: measureNode(declarationNode)
+  });
+  
+  const newDeclarations = new Map(state.declarations);
+  newDeclarations.set(declarationNode, nodeId);
+  
+  return {
+    ...state,
+    nodes: newNodes,
+    declarations: newDeclarations
+  };
 };
 
-const getLineNumber = (node: ts.Node): number => {
-  const sourceFile = node.getSourceFile();
-  if (sourceFile) {
-    const { line } = sourceFile.getLineAndCharacterOfPosition(node.getStart());
-    return line + 1;
-  }
-  return 0;
+const SCHEMA_CONSTRUCTORS: Record<SchemaKind, string> = {
+  'struct': 'Schema.Struct',
+  'tagged-struct': 'Schema.TaggedStruct',
+  'class': 'Schema.Class',
+  'tagged-class': 'Schema.TaggedClass',
+  'tagged-request': 'Schema.TaggedRequest'
 };
 
-const inferNodeType = (node: ts.Node, filePath: string): NodeType => {
-  const path = filePath.toLowerCase();
+// Recognizes `Data.TaggedError("Tag")<Fields>` and `Schema.TaggedError<Self>()("Tag", fields)`
+const getTaggedErrorTag = (node: ts.ClassDeclaration): string | undefined => {
+  const heritage = node.heritageClauses?.find(clause => clause.token === ts.SyntaxKind.ExtendsKeyword);
+  const base = heritage?.types[0]?.expression;
+  if (!base || !ts.isCallExpression(base)) return undefined;
   
-  if (path.includes('controller')) return 'controller';
-  if (path.includes('service')) return 'service';
-  if (path.includes('repository')) return 'repository';
-  if (path.includes('middleware')) return 'middleware';
-  if (path.includes('worker')) return 'worker';
-  if (path.includes('error')) return 'error';
+  if (isNamespaceCall(base.expression, 'Data', 'TaggedError')) {
+    return getStringArgument(base, 0);
+  }
   
-  // Check node context
-  if (ts.isClassDeclaration(node.parent)) {
-    const className = node.parent.name?.text?.toLowerCase();
-    if (className?.includes('controller')) return 'controller';
-    if (className?.includes('service')) return 'service';
-    if (className?.includes('repository')) return 'repository';
+  if (ts.isCallExpression(base.expression) && isNamespaceCall(base.expression.expression, 'Schema', 'TaggedError')) {
+    return getStringArgument(base, 0);
   }
   
-  return 'utility';
+  return undefined;
 };
 
+// Recognizes `Context.Tag("Key")<Self, Shape>()`, `Effect.Tag("Key")<Self, Shape>()`
+// and `Effect.Service<Self>()("Key", options)` heritage clauses
+const getServiceDeclaration = (node: ts.ClassDeclaration): ServiceDeclaration | undefined => {
+  const heritage = node.heritageClauses?.find(clause => clause.token === ts.SyntaxKind.ExtendsKeyword);
+  const base = heritage?.types[0]?.expression;
+  if (!base || !ts.isCallExpression(base)) return undefined;
+  
+  const inner = base.expression;
+  if (!ts.isCallExpression(inner)) return undefined;
+  
+  if (isNamespaceCall(inner.expression, 'Context', 'Tag') || isNamespaceCall(inner.expression, 'Effect', 'Tag')) {
+    const key = getStringArgument(inner, 0);
+    if (!key) return undefined;
+    return {
+      kind: isNamespaceCall(inner.expression, 'Context', 'Tag') ? 'context-tag' : 'effect-tag',
+      key,
+      shape: base.typeArguments?.[1],
+      options: undefined
+    };
+  }
+  
+  if (isNamespaceCall(inner.expression, 'Effect', 'Service')) {
+    const key = getStringArgument(base, 0);
+    if (!key) return undefined;
+    return {
+      kind: 'effect-service',
+      key,
+      shape: undefined,
+      options: base.arguments[1]
+    };
+  }
+  
+  return undefined;
+};
+
+// Members come from the explicit shape, the checker, or the Effect.Service options
+const collectServiceMembers = (
+  declarationNode: ts.ClassDeclaration | ts.VariableDeclaration,
+  declaration: ServiceDeclaration,
+  checker: ts.TypeChecker | undefined
+): ServiceMember[] => {
+  if (declaration.shape && ts.isTypeLiteralNode(declaration.shape)) {
+    return declaration.shape.members
+      .filter(member => member.name && (ts.isIdentifier(member.name) || ts.isStringLiteral(member.name)))
+      .map(member => ({
+        name: (member.name as ts.Identifier | ts.StringLiteral).text,
+        node: member,
+        signature: extractMemberSignature(member, checker)
+      }));
+  }
+  
+  if (checker) {
+    const shapeType = getServiceShapeType(declarationNode, declaration, checker);
+    if (shapeType) {
+      // Members of library types (`Context.Tag(...)<JobQueue, Queue.Queue<Job>>()`) are not the project's services
+      return shapeType.getProperties()
+        .filter(prop => !prop.getName().startsWith('__@') && prop.getName() !== '_tag')
+        .filter(prop => prop.valueDeclaration && !prop.valueDeclaration.getSourceFile().isDeclarationFile)
+        .map(prop => ({
+          name: prop.getName(),
+          node: prop.valueDeclaration || declarationNode,
+          signature: signatureFromType(checker.getTypeOfSymbol(prop), checker)
+        }));
+    }
+  }
+  
+  const implementation = declaration.options && findServiceImplementation(declaration.options);
+  if (implementation) {
+    return implementation.properties
+      .filter(prop => prop.name && (ts.isIdentifier(prop.name) || ts.isStringLiteral(prop.name)))
+      .map(prop => ({
+        name: (prop.name as ts.Identifier | ts.StringLiteral).text,
+        node: prop,
+        signature: undefined
+      }));
+  }
+  
+  return [];
+};
+
+// Effect.Service instances are the service itself; tags resolve their shape type
+const getServiceShapeType = (
+  declarationNode: ts.ClassDeclaration | ts.VariableDeclaration,
+  declaration: ServiceDeclaration,
+  checker: ts.TypeChecker
+): ts.Type | undefined => {
+  if (declaration.shape) {
+    return checker.getTypeFromTypeNode(declaration.shape);
+  }
+  if (declaration.kind === 'effect-service' && ts.isClassDeclaration(declarationNode) && declarationNode.name) {
+    const symbol = checker.getSymbolAtLocation(declarationNode.name);
+    return symbol ? checker.getDeclaredTypeOfSymbol(symbol) : undefined;
+  }
+  return undefined;
+};
+
+// Finds the object literal an Effect.Service is built from:
+// `succeed: {...}`, `sync: () => ({...})` or the last `return {...}` of `effect`/`scoped`
+const findServiceImplementation = (options: ts.Expression): ts.ObjectLiteralExpression | undefined => {
+  if (!ts.isObjectLiteralExpression(options)) return undefined;
+  
+  for (const prop of options.properties) {
+    if (!ts.isPropertyAssignment(prop) || !ts.isIdentifier(prop.name)) continue;
+    if (!['succeed', 'sync', 'effect', 'scoped'].includes(prop.name.text)) continue;
+    
+    let found: ts.ObjectLiteralExpression | undefined;
+    const visit = (n: ts.Node) => {
+      if (ts.isObjectLiteralExpression(n) &&
+          (n === prop.initializer || ts.isReturnStatement(n.parent) ||
+           (ts.isParenthesizedExpression(n.parent) && ts.isArrowFunction(n.parent.parent)))) {
+        found = n;
+        return;
+      }
+      ts.forEachChild(n, visit);
+    };
+    visit(prop.initializer);
+    if (found) return found;
+  }
+  
+  return undefined;
+};
+
+const extractMemberSignature = (
+  member: ts.TypeElement,
+  checker: ts.TypeChecker | undefined
+): EffectSignature | undefined => {
+  if (checker && member.name) {
+    const signature = signatureFromType(checker.getTypeAtLocation(member.name), checker);
+    if (signature) return signature;
+  }
+  
+  const typeNode = ts.isMethodSignature(member) ? member.type :
+                   ts.isPropertySignature(member) && member.type && ts.isFunctionTypeNode(member.type) ? member.type.type :
+                   ts.isPropertySignature(member) ? member.type : undefined;
+  
+  return typeNode && isEffectType(typeNode) ? extractEffectSignatureFromType(typeNode) : undefined;
+};
+
+// Helper functions (all pure)
+
+// Canonical ID of a new node: its file and qualified name, plus the fingerprint of the
+// fingerprinted node when the file already has a node under that name
+const claimIdentity = (
+  state: AnalysisState,
+  filePath: string,
+  qualifiedName: string,
+  fingerprinted: ts.Node
+): { id: string; fingerprint: string } => {
+  const fingerprint = getFingerprint(fingerprinted);
+  const baseId = createNodeId(toRelativePath(state.rootDir, filePath), qualifiedName);
+  return { id: claimNodeId(baseId, fingerprint, nodeId => state.nodes.has(nodeId)), fingerprint };
+};
+
+// Canonical ID of an effect detected on a declaration: the effect node an earlier pattern detected on it,
+// or a new identity; `export const foo: Effect<...> = Effect.gen(...).pipe(...)` is matched as a declaration,
+// a pipeline and an Effect.gen, outermost first, and becomes one node
+const claimDetection = (
+  state: AnalysisState,
+  declaration: ts.Node,
+  filePath: string,
+  fingerprinted: ts.Node
+): { id: string; fingerprint: string; existing: EffectNode | undefined } => {
+  const existingId = state.declarations.get(declaration);
+  const existing = existingId ? state.nodes.get(existingId) : undefined;
+  if (existing?.patterns) {
+    return { id: existing.id, fingerprint: existing.fingerprint || getFingerprint(fingerprinted), existing };
+  }
+  return { ...claimIdentity(state, filePath, getQualifiedName(declaration), fingerprinted), existing: undefined };
+};
+
+// Pure function to merge a detection into the node detected earlier on the same declaration
+// The earlier, outer detection describes the value the declaration holds and wins; the inner one fills
+// in what it lacks: a pipeline, concurrency points, a success type the outer one could not tell
+const mergeDetections = (existing: EffectNode, detection: EffectNode): EffectNode => {
+  const signature = existing.effectSignature && detection.effectSignature ? {
+    ...existing.effectSignature,
+    success: existing.effectSignature.success === 'unknown' ? detection.effectSignature.success : existing.effectSignature.success,
+    dependencies: Array.from(new Set([...existing.effectSignature.dependencies, ...detection.effectSignature.dependencies]))
+  } : existing.effectSignature || detection.effectSignature;
+  const concurrency = [...(existing.concurrency || []), ...(detection.concurrency || [])];
+  
+  return {
+    ...detection,
+    ...existing,
+    patterns: Array.from(new Set([...(existing.patterns || []), ...(detection.patterns || [])])),
+    ...(signature && { effectSignature: signature }),
+    ...(concurrency.length > 0 && { concurrency })
+  };
+};
+
+// Pure function to measure the source of a new node: its line and column span and the `yield*` steps
+// of its body; fan-in and fan-out are counted once every edge is known
+const measureNode = (node: ts.Node): NonNullable<EffectNode['metrics']> => {
+  const sourceFile = node.getSourceFile();
+  const start = sourceFile.getLineAndCharacterOfPosition(node.getStart());
+  const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+  // A class's methods and members are nodes of their own
+  const yieldCount = ts.isClassDeclaration(node) ? 0 : countYieldSteps(node);
+  
+  return {
+    callsCount: 0,
+    calledByCount: 0,
+    lines: end.line - start.line + 1,
+    endLine: end.line + 1,
+    column: start.character + 1,
+    endColumn: end.character,
+    ...(yieldCount > 0 && { yieldCount })
+  };
+};
+
+const countYieldSteps = (node: ts.Node): number => {
+  let count = 0;
+  const visit = (child: ts.Node) => {
+    if (ts.isYieldExpression(child) && child.asteriskToken) count++;
+    ts.forEachChild(child, visit);
+  };
+  visit(node);
+  return count;
+};
+
+// Nearest enclosing declaration already registered as an Effect node
+const findEnclosingNodeId = (state: AnalysisState, node: ts.Node): string | undefined => {
+  let current = node.parent;
+  while (current) {
+    const nodeId = state.declarations.get(current);
+    if (nodeId) return nodeId;
+    current = current.parent;
+  }
+  return undefined;
+};
+
+const ERROR_HANDLERS: ErrorHandlerKind[] = ['catchTag', 'catchTags', 'catchAll', 'orElse', 'mapError'];
+
+const getErrorHandlerKind = (expression: ts.Expression): ErrorHandlerKind | undefined => {
+  return ERROR_HANDLERS.find(kind => isNamespaceCall(expression, 'Effect', kind));
+};
+
+// Names the construct raising an error: `Effect.fail`, `Effect.tryPromise`, `yield*`...
+const describeFailure = (node: ts.NewExpression): string | undefined => {
+  if (ts.isYieldExpression(node.parent)) return 'yield*';
+  
+  let current: ts.Node = node.parent;
+  while (ts.isArrowFunction(current) || ts.isParenthesizedExpression(current) ||
+         ts.isPropertyAssignment(current) || ts.isObjectLiteralExpression(current)) {
+    current = current.parent;
+  }
+  
+  if (ts.isCallExpression(current) && ts.isPropertyAccessExpression(current.expression) &&
+      ts.isIdentifier(current.expression.expression) && current.expression.expression.text === 'Effect') {
+    return `Effect.${current.expression.name.text}`;
+  }
+  return undefined;
+};
+
+// The effect a pipeable handler applies to: `effect.pipe(handler)` or `pipe(effect, ..., handler)`
+const getPipedEffect = (node: ts.Expression): ts.Expression | undefined => {
+  const parent = node.parent;
+  if (!ts.isCallExpression(parent) || !parent.arguments.includes(node)) return undefined;
+  
+  if (ts.isPropertyAccessExpression(parent.expression) && parent.expression.name.text === 'pipe') {
+    return parent.expression.expression;
+  }
+  if (ts.isIdentifier(parent.expression) && parent.expression.text === 'pipe' && parent.arguments[0] !== node) {
+    return parent.arguments[0];
+  }
+  return undefined;
+};
+
+const getObjectLiteralKeys = (node: ts.Expression | undefined): string[] => {
+  if (!node || !ts.isObjectLiteralExpression(node)) return [];
+  return node.properties
+    .map(prop => prop.name && (ts.isIdentifier(prop.name) || ts.isStringLiteral(prop.name)) ? prop.name.text : undefined)
+    .filter((key): key is string => key !== undefined);
+};
+
+const findParentDeclaration = (node: ts.Node): ts.Node | undefined => {
+  let parent = node.parent;
+  while (parent) {
+    if (ts.isVariableDeclaration(parent) || 
+        ts.isFunctionDeclaration(parent) ||
+        ts.isMethodDeclaration(parent) ||
+        ts.isPropertyDeclaration(parent)) {
+      return parent;
+    }
+    parent = parent.parent;
+  }
+  return undefined;
+};
+
+const getDeclarationName = (node: ts.Node): string | undefined => {
+  if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name)) {
+    return node.name.text;
+  }
+  if (ts.isFunctionDeclaration(node) && node.name) {
+    return node.name.text;
+  }
+  if (ts.isMethodDeclaration(node) && node.name && ts.isIdentifier(node.name)) {
+    return node.name.text;
+  }
+  return undefined;
+};
+
+// Pure function to type a declaration by the classification rules
+const inferNodeType = (node: ts.Node, filePath: string, state: AnalysisState): NodeType => {
+  return classifyNode(state.classification, getClassificationFacts(node, toRelativePath(state.rootDir, filePath)));
+};
+
+// Pure function to gather what a declaration is classified by: its path, enclosing class,
+// decorators and service tag; the function analyzer types its functions by the same facts
+export const getClassificationFacts = (node: ts.Node, relativePath: string): ClassificationFacts => {
+  const enclosingClass = ts.isClassDeclaration(node) ? node : ts.findAncestor(node.parent, ts.isClassDeclaration);
+  const decorators = [node, enclosingClass].flatMap(declaration =>
+    declaration && ts.canHaveDecorators(declaration) ? Array.from(ts.getDecorators(declaration) || []) : []
+  );
+  
+  return {
+    path: relativePath,
+    className: enclosingClass?.name?.text,
+    decorators: decorators.map(decorator => getDecoratorName(decorator.expression)),
+    tag: enclosingClass && getServiceDeclaration(enclosingClass)?.key
+  };
+};
+
+// Pure function to type a Context.Tag / Effect.Service declaration by the tag rules only:
+// where a service is declared says little about what it provides
+const inferServiceType = (node: ts.Node, key: string, filePath: string, state: AnalysisState): NodeType => {
+  const rules = {
+    ...state.classification,
+    rules: state.classification.rules.filter(rule => rule.tag !== undefined),
+    fallback: 'service'
+  };
+  
+  return classifyNode(rules, {
+    path: toRelativePath(state.rootDir, filePath),
+    className: ts.isClassDeclaration(node) ? node.name?.text : undefined,
+    decorators: ts.canHaveDecorators(node) ? Array.from(ts.getDecorators(node) || [], decorator => getDecoratorName(decorator.expression)) : [],
+    tag: key
+  });
+};
+
+// `@Controller` and `@Controller("/users")` -> Controller
+const getDecoratorName = (expression: ts.Expression): string => {
+  const callee = ts.isCallExpression(expression) ? expression.expression : expression;
+  return ts.isPropertyAccessExpression(callee) ? callee.name.text : callee.getText();
+};
+
+// Stream, Sink, Schedule, STM, Queue and PubSub values built directly by their module:
+// `const ticks = Schedule.spaced("1 second")`, `const numbers = (n: number) => Stream.range(1, n)`
+// Pipelines and Effect.gen bodies are classified where they are analyzed
+const getDeclarationDataflowType = (
+  node: ts.VariableDeclaration | ts.FunctionDeclaration,
+  checker: ts.TypeChecker | undefined
+): DataflowNodeType | undefined => {
+  const value = getDeclaredValue(node);
+  const module = value && getConstructorModule(value);
+  if (!module) return undefined;
+  
+  // The checker tells `Stream.range(1, 3)` from `Stream.runCollect(numbers)`, an effect
+  return checker ? getDataflowType(node, checker) : module;
+};
+
+// What a variable evaluates to, or what its arrow function returns: `(n: number) => Stream.range(1, n)`
+const getDeclaredValue = (node: ts.VariableDeclaration | ts.FunctionDeclaration): ts.Expression | undefined => {
+  if (!ts.isVariableDeclaration(node) || !node.initializer) return undefined;
+  return ts.isArrowFunction(node.initializer) && !ts.isBlock(node.initializer.body) ?
+         node.initializer.body : node.initializer;
+};
+
+// Without a checker a pipeline is classified by the module of its source: `Stream.range(1, 10).pipe(...)`
+const getPipelineDataflowType = (
+  declaration: ts.Node,
+  pipeline: PipelineParts,
+  checker: ts.TypeChecker | undefined
+): DataflowNodeType | undefined => {
+  if (checker) return getDataflowType(declaration, checker);
+  return pipeline.source && pipeline.kind !== 'effect-fn' ? getConstructorModule(pipeline.source) : undefined;
+};
+
+const getDataflowType = (declaration: ts.Node, checker: ts.TypeChecker): DataflowNodeType | undefined => {
+  try {
+    return getDataflowTypeOfType(checker.getTypeAtLocation(getTypeLocation(declaration)), checker);
+  } catch {
+    return undefined;
+  }
+};
+
+// Explicit annotation, or its JSDoc `@type` / `@returns` equivalent in JS files
+const getDeclaredTypeNode = (node: ts.Node): ts.TypeNode | undefined => {
+  if (ts.isVariableDeclaration(node) || ts.isPropertyDeclaration(node)) {
+    return node.type || ts.getJSDocType(node);
+  }
+  if (ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node)) {
+    return node.type || ts.getJSDocReturnType(node);
+  }
+  return undefined;
+};
+
+// Matches both `Effect<...>` and the qualified `Effect.Effect<...>` form
 const isEffectType = (typeNode: ts.TypeNode): boolean => {
   if (ts.isTypeReferenceNode(typeNode)) {
     const typeName = typeNode.typeName;
     if (ts.isIdentifier(typeName)) {
       return typeName.text === 'Effect';
     }
+    if (ts.isQualifiedName(typeName)) {
+      return typeName.right.text === 'Effect';
+    }
   }
   return false;
 };
 
-const extractEffectSignature = (node: ts.Node): EffectSignature | undefined => {
-  const typeNode = ts.isVariableDeclaration(node) ? node.type :
-                  ts.isFunctionDeclaration(node) ? node.type :
-                  ts.isMethodDeclaration(node) ? node.type : undefined;
+// Prefers the type checker (covers inferred types); falls back to the annotation
+const extractEffectSignature = (
+  declaration: ts.Node,
+  expression: ts.Node,
+  checker: ts.TypeChecker | undefined
+): EffectSignature | undefined => {
+  if (checker) {
+    const signature = extractEffectSignatureFromChecker(declaration, checker) ||
+                      extractEffectSignatureFromChecker(expression, checker);
+    if (signature) return signature;
+  }
+  
+  const typeNode = getDeclaredTypeNode(declaration);
   
   if (typeNode) {
     return extractEffectSignatureFromType(typeNode);
@@ -443,10 +1609,32 @@ const extractEffectSignature = (node: ts.Node): EffectSignature | undefined => {
   return undefined;
 };
 
+const extractEffectSignatureFromChecker = (
+  node: ts.Node,
+  checker: ts.TypeChecker
+): EffectSignature | undefined => {
+  const location = getTypeLocation(node);
+  try {
+    return signatureFromType(checker.getTypeAtLocation(location), checker);
+  } catch {
+    return undefined;
+  }
+};
+
+// Declarations resolve best through their name; other nodes are used as-is
+const getTypeLocation = (node: ts.Node): ts.Node => {
+  if ((ts.isVariableDeclaration(node) || ts.isFunctionDeclaration(node) ||
+       ts.isMethodDeclaration(node) || ts.isPropertyDeclaration(node)) && node.name) {
+    return node.name;
+  }
+  return node;
+};
+
 const extractEffectSignatureFromType = (typeNode: ts.TypeNode): EffectSignature | undefined => {
   if (ts.isTypeReferenceNode(typeNode) && typeNode.typeArguments) {
     const args = typeNode.typeArguments;
-    if (args.length >= 3) {
+    // E and R default to never when omitted
+    if (args.length >= 1 && isEffectType(typeNode)) {
       return {
         success: args[0] ? typeNodeToString(args[0]) : 'unknown',
         error: args[1] ? extractErrorTypes(args[1]) : [],
@@ -464,7 +1652,8 @@ const typeNodeToString = (node: ts.TypeNode): string => {
   if (ts.isLiteralTypeNode(node)) {
     return node.literal.getText();
   }
-  return 'unknown';
+  // Fall back to the source text for anything more complex
+  return node.getSourceFile() ? node.getText() : 'unknown';
 };
 
 const extractErrorTypes = (node: ts.TypeNode): string[] => {
@@ -496,92 +1685,923 @@ const extractRequirements = (node: ts.TypeNode): string[] => {
 };
 
 
-const extractDependencies = (node: ts.CallExpression): string[] => {
-  const deps: string[] = [];
+// Collects `yield* Tag`, `yield* service.method(...)` and `yield* effect(...)`
+// from the generator passed to Effect.gen, following local service bindings
+const extractYieldAccesses = (node: ts.CallExpression, sourceId: string): ReferenceAccess[] => {
+  const generator = getGenerator(node);
+  if (!generator) return [];
+  
+  const toAccess = createAccessResolver(generator, sourceId);
+  const accesses: ReferenceAccess[] = [];
   
   const visit = (n: ts.Node) => {
-    if (ts.isCallExpression(n) && ts.isIdentifier(n.expression)) {
-      deps.push(n.expression.text);
+    if (ts.isYieldExpression(n) && n.asteriskToken && n.expression) {
+      const access = toAccess(n.expression, getLineNumber(n));
+      if (access) accesses.push(access);
     }
-    if (ts.isPropertyAccessExpression(n) && ts.isIdentifier(n.name)) {
-      deps.push(n.name.text);
+    ts.forEachChild(n, visit);
+  };
+  visit(generator);
+  
+  return accesses;
+};
+
+// Collects forks, races, concurrent Effect.all / forEach calls and fiber joins from the
+// generator passed to Effect.gen; the effects they run become concurrent references
+const extractConcurrency = (
+  node: ts.CallExpression,
+  sourceId: string
+): { points: ConcurrencyPoint[]; accesses: ReferenceAccess[] } => {
+  const generator = getGenerator(node);
+  if (!generator) return { points: [], accesses: [] };
+  
+  const toAccess = createAccessResolver(generator, sourceId);
+  const points: ConcurrencyPoint[] = [];
+  const accesses: ReferenceAccess[] = [];
+  
+  const visit = (n: ts.Node) => {
+    const operation = ts.isCallExpression(n) || ts.isPropertyAccessExpression(n) ? getConcurrencyOperation(n) : undefined;
+    if (operation) {
+      const point: ConcurrencyPoint = {
+        kind: operation.kind,
+        operator: operation.operator,
+        ...(operation.concurrency && { concurrency: operation.concurrency }),
+        line: getLineNumber(n)
+      };
+      points.push(point);
+      
+      const piped = operation.piped && ts.isExpression(n) ? getPipedEffect(n) : undefined;
+      [...(piped ? [piped] : []), ...operation.branches].forEach(branch => {
+        const effect = getBranchEffect(branch);
+        const access = effect && toAccess(effect, point.line);
+        if (access) accesses.push({ ...access, edgeType: 'concurrent', concurrency: point });
+      });
     }
     ts.forEachChild(n, visit);
   };
+  visit(generator);
+  
+  return { points, accesses };
+};
+
+const getGenerator = (node: ts.CallExpression): ts.Expression | undefined =>
+  node.arguments.find(arg => ts.isFunctionExpression(arg) && arg.asteriskToken);
+
+// `(user) => notify(user)` runs `notify(user)`; block-bodied functions are not followed
+const getBranchEffect = (branch: ts.Expression): ts.Expression | undefined => {
+  if (ts.isArrowFunction(branch) || ts.isFunctionExpression(branch)) {
+    return ts.isBlock(branch.body) ? undefined : branch.body;
+  }
+  return branch;
+};
+
+// Pure function to tell the literal arguments of Effect combinators: span names, durations, options
+const isLiteralArgument = (node: ts.Expression): boolean =>
+  ts.isStringLiteralLike(node) || ts.isNumericLiteral(node) || ts.isTemplateExpression(node) ||
+  ts.isObjectLiteralExpression(node) || node.kind === ts.SyntaxKind.TrueKeyword || node.kind === ts.SyntaxKind.FalseKeyword;
+
+// Turns `Tag`, `service.method(...)` or `effect(...)` into the reference it makes,
+// following the service bindings of the generator and the Effect combinators wrapping it
+const createAccessResolver = (
+  generator: ts.Node,
+  sourceId: string
+): ((expression: ts.Expression, line: number) => ReferenceAccess | undefined) => {
+  // `const repo = yield* UserRepo` and `const { findById } = yield* UserRepo`
+  const serviceBindings = new Map<string, string>();
+  const memberBindings = new Map<string, { service: string; member: string }>();
+  
+  const collectBindings = (n: ts.Node) => {
+    if (ts.isVariableDeclaration(n) && n.initializer && ts.isYieldExpression(n.initializer) &&
+        n.initializer.asteriskToken && n.initializer.expression && ts.isIdentifier(n.initializer.expression)) {
+      const service = n.initializer.expression.text;
+      if (ts.isIdentifier(n.name)) {
+        serviceBindings.set(n.name.text, service);
+      } else if (ts.isObjectBindingPattern(n.name)) {
+        n.name.elements.forEach(element => {
+          const member = element.propertyName && ts.isIdentifier(element.propertyName) ?
+                         element.propertyName.text :
+                         ts.isIdentifier(element.name) ? element.name.text : undefined;
+          if (member && ts.isIdentifier(element.name)) {
+            memberBindings.set(element.name.text, { service, member });
+          }
+        });
+      }
+    }
+    ts.forEachChild(n, collectBindings);
+  };
+  collectBindings(generator);
+  
+  const toAccess = (expression: ts.Expression, line: number): ReferenceAccess | undefined => {
+    // `effect.pipe(...)` depends on whatever is being piped
+    if (ts.isCallExpression(expression) && ts.isPropertyAccessExpression(expression.expression) &&
+        expression.expression.name.text === 'pipe') {
+      return toAccess(expression.expression.expression, line);
+    }
+    
+    // `Effect.scoped(effect)`, `Effect.provide(effect, layer)` and `Effect.withSpan(effect, "name")`
+    // depend on the effect they wrap; forks and concurrent runs are left to extractConcurrency
+    if (ts.isCallExpression(expression) && ts.isPropertyAccessExpression(expression.expression) &&
+        ts.isIdentifier(expression.expression.expression) && expression.expression.expression.text === 'Effect') {
+      if (getConcurrencyOperation(expression)) return undefined;
+      const wrapped = expression.arguments.find(arg => !isLiteralArgument(arg));
+      return wrapped && toAccess(wrapped, line);
+    }
+    
+    const callee = ts.isCallExpression(expression) ? expression.expression : expression;
+    
+    if (ts.isIdentifier(callee)) {
+      const memberBinding = memberBindings.get(callee.text);
+      return memberBinding ?
+        { sourceId, edgeType: 'dependency', target: memberBinding.service, member: memberBinding.member, reference: callee, line } :
+        { sourceId, edgeType: 'dependency', target: callee.text, member: undefined, reference: callee, line };
+    }
+    
+    if (ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression)) {
+      const owner = callee.expression.text;
+      return {
+        sourceId,
+        edgeType: 'dependency',
+        target: serviceBindings.get(owner) || owner,
+        member: callee.name.text,
+        reference: callee.name,
+        line
+      };
+    }
+    
+    return undefined;
+  };
+  
+  return toAccess;
+};
+
+// Pure function to turn recorded yield* accesses and pipe stages into edges
+const resolveReferences = (state: AnalysisState): AnalysisState => {
+  const newEdges = new Set(state.edges);
+  const edgeIds = new Set(Array.from(state.edges, edge => edge.id));
+  const ambiguities: AmbiguousReference[] = [];
+  
+  state.references.forEach(access => {
+    const qualifiedName = access.member ? `${access.target}.${access.member}` : access.target;
+    const candidates = resolveReference(state, access.reference, qualifiedName);
+    if (candidates.length > 1) {
+      ambiguities.push(createAmbiguity(state, access.sourceId, qualifiedName, access.line, candidates));
+      return;
+    }
+    
+    const targetId = candidates[0];
+    if (!targetId || targetId === access.sourceId) return;
+    
+    // Forking an effect and also yielding it gives both a dependency and a concurrent edge
+    const edgeId = access.edgeType === 'concurrent' ?
+                   `edge_${access.sourceId}_${targetId}_concurrent` :
+                   `edge_${access.sourceId}_${targetId}`;
+    if (edgeIds.has(edgeId)) return;
+    edgeIds.add(edgeId);
+    
+    newEdges.add({
+      id: edgeId,
+      source: access.sourceId,
+      target: targetId,
+      type: access.edgeType,
+      line: access.line,
+      ...(access.concurrency && { concurrency: access.concurrency })
+    });
+  });
   
-  if (node.arguments.length > 0 && node.arguments[0]) {
-    visit(node.arguments[0]);
+  return {
+    ...state,
+    edges: newEdges,
+    references: [],
+    ambiguities: [...state.ambiguities, ...ambiguities]
+  };
+};
+
+// Resolves through the checker's symbol, following imports, re-exports and barrels.
+// Local bindings, unresolvable imports and checker-less runs fall back to the exact name;
+// several same-named nodes come back as candidates rather than a guess
+const resolveReference = (state: AnalysisState, reference: ts.Node, qualifiedName: string): string[] => {
+  if (state.checker) {
+    const declarations = resolveDeclarations(state.checker, reference);
+    const nodeIds = declarations
+      .map(declaration => state.declarations.get(declaration))
+      .filter((nodeId): nodeId is string => nodeId !== undefined);
+    if (nodeIds.length > 0) return Array.from(new Set(nodeIds));
+    
+    // Library symbols never map to nodes
+    if (declarations.length > 0 && declarations.every(declaration => declaration.getSourceFile().isDeclarationFile)) {
+      return [];
+    }
   }
   
-  return deps;
+  const name = state.checker && ts.isIdentifier(reference) && reference.text === qualifiedName ?
+               getImportedName(state.checker, reference) : qualifiedName;
+  const matches = Array.from(state.nodes.values()).filter(node => node.name === name);
+  
+  // A top-level name declared in the referencing file cannot also be imported there
+  const referenceFile = reference.getSourceFile()?.fileName;
+  const sameFile = matches.filter(node => referenceFile && referenceFile.endsWith(node.filePath));
+  
+  return (sameFile.length === 1 ? sameFile : matches).map(node => node.id);
 };
 
-const extractPipeStages = (node: ts.CallExpression): string[] => {
-  const stages: string[] = [];
+const createAmbiguity = (
+  state: AnalysisState,
+  sourceId: string,
+  name: string,
+  line: number,
+  candidates: string[]
+): AmbiguousReference => ({
+  name,
+  filePath: state.nodes.get(sourceId)?.filePath || '',
+  line,
+  candidates
+});
+
+// Pure function to turn error sites into error edges and attach the handlers that absorb them
+const resolveErrorTrack = (state: AnalysisState): AnalysisState => {
+  const edges = new Map(Array.from(state.edges, edge => [edge.id, edge]));
+  const ambiguities: AmbiguousReference[] = [];
+  
+  const addErrorEdge = (sourceId: string, errorNode: EffectNode, label: string | undefined, line: number) => {
+    const edgeId = `edge_${sourceId}_${errorNode.id}`;
+    if (sourceId === errorNode.id || edges.has(edgeId)) return;
+    edges.set(edgeId, {
+      id: edgeId,
+      source: sourceId,
+      target: errorNode.id,
+      type: 'error',
+      errorType: errorNode.errorTag || errorNode.name,
+      line,
+      ...(label && { label })
+    });
+  };
   
-  node.arguments.forEach(arg => {
-    if (ts.isIdentifier(arg)) {
-      stages.push(arg.text);
+  state.errorSites.forEach(site => {
+    const sourceId = findEnclosingNodeId(state, site.node);
+    if (!sourceId) return;
+    
+    const candidates = resolveReference(state, site.node.expression, site.errorName)
+      .filter(nodeId => state.nodes.get(nodeId)?.type === 'error');
+    if (candidates.length > 1) {
+      ambiguities.push(createAmbiguity(state, sourceId, site.errorName, site.line, candidates));
+      return;
     }
-    if (ts.isCallExpression(arg) && ts.isIdentifier(arg.expression)) {
-      stages.push(arg.expression.text);
+    
+    const target = candidates[0] ? state.nodes.get(candidates[0]) : undefined;
+    if (target?.type === 'error' && target.errorTag) {
+      addErrorEdge(sourceId, target, site.label, site.line);
     }
   });
   
-  return stages;
+  // Service members are only declared, so their error channel is the source of truth
+  const memberDeclarations = new Map<string, ts.Node>();
+  state.declarations.forEach((nodeId, declaration) => {
+    if (state.nodes.get(nodeId)?.memberOf) memberDeclarations.set(nodeId, declaration);
+  });
+  state.nodes.forEach(node => {
+    if (!node.memberOf) return;
+    const declaration = memberDeclarations.get(node.id);
+    const resolved = declaration && state.checker ? resolveSignatureErrors(state, declaration, state.checker) : undefined;
+    
+    node.effectSignature?.error.forEach(errorName => {
+      const candidates = resolved?.get(errorName) || findErrorNodesByName(state, errorName, declaration);
+      if (candidates.length > 1) {
+        ambiguities.push(createAmbiguity(state, node.id, errorName, node.line, candidates));
+        return;
+      }
+      const errorNode = candidates[0] ? state.nodes.get(candidates[0]) : undefined;
+      if (errorNode) addErrorEdge(node.id, errorNode, 'signature', node.line);
+    });
+  });
+  
+  // A handler absorbs matching failures raised by the handled effect or anything it depends on
+  const dependencies = new Map<string, string[]>();
+  edges.forEach(edge => {
+    if (edge.type !== 'dependency' && edge.type !== 'pipe') return;
+    dependencies.set(edge.source, [...(dependencies.get(edge.source) || []), edge.target]);
+  });
+  
+  state.errorHandlers.forEach(site => {
+    const sourceId = findEnclosingNodeId(state, site.node);
+    if (!sourceId) return;
+    
+    const candidates = site.handled ? resolveHandledEffect(state, site.handled) : [];
+    if (candidates.length > 1 && site.handled) {
+      ambiguities.push(createAmbiguity(state, sourceId, site.handled.getText(), site.line, candidates));
+    }
+    const handledId = (candidates.length === 1 && candidates[0]) || sourceId;
+    const reachable = new Set<string>([handledId]);
+    const queue = [handledId];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      (dependencies.get(current) || []).forEach(next => {
+        if (!reachable.has(next)) {
+          reachable.add(next);
+          queue.push(next);
+        }
+      });
+    }
+    
+    edges.forEach((edge, edgeId) => {
+      if (edge.type !== 'error' || !reachable.has(edge.source)) return;
+      if (site.tags && !(edge.errorType && site.tags.includes(edge.errorType))) return;
+      edges.set(edgeId, {
+        ...edge,
+        handlers: [...(edge.handlers || []), { kind: site.kind, handledBy: sourceId, line: site.line }]
+      });
+    });
+  });
+  
+  return {
+    ...state,
+    edges: new Set(edges.values()),
+    errorSites: [],
+    errorHandlers: [],
+    ambiguities: [...state.ambiguities, ...ambiguities]
+  };
+};
+
+// Error nodes declaring each type of a member's error channel, by the name the signature lists it under
+// Types declared outside the analyzed files (library errors) resolve to no node
+const resolveSignatureErrors = (
+  state: AnalysisState,
+  declaration: ts.Node,
+  checker: ts.TypeChecker
+): Map<string, string[]> | undefined => {
+  let error: ts.Type | undefined;
+  try {
+    const type = checker.getTypeAtLocation(ts.getNameOfDeclaration(declaration as ts.Declaration) || declaration);
+    error = (getEffectChannels(type, checker) || getEffectChannelsFromReturn(type, checker))?.[1];
+  } catch {
+    return undefined;
+  }
+  if (!error || error.flags & ts.TypeFlags.Never) return undefined;
+  
+  const resolved = new Map<string, string[]>();
+  (error.isUnion() ? error.types : [error]).forEach(member => {
+    const declarations = (member.aliasSymbol || member.getSymbol())?.declarations || [];
+    const nodeIds = declarations
+      .map(errorDeclaration => state.declarations.get(errorDeclaration))
+      .filter((nodeId): nodeId is string => nodeId !== undefined && state.nodes.get(nodeId)?.type === 'error');
+    if (declarations.length > 0) {
+      resolved.set(formatType(member, checker), Array.from(new Set(nodeIds)));
+    }
+  });
+  return resolved;
 };
 
-const findNodeByName = (nodes: Map<string, EffectNode>, name: string): EffectNode | undefined => {
-  for (const node of nodes.values()) {
-    if (node.name === name || node.name.endsWith(`.${name}`)) {
-      return node;
+// Checker-less fallback: error nodes of that name, preferring one declared where the signature is written
+const findErrorNodesByName = (state: AnalysisState, errorName: string, declaration: ts.Node | undefined): string[] => {
+  const matches = Array.from(state.nodes.values()).filter(node => node.type === 'error' && node.errorTag && node.name === errorName);
+  const declarationFile = declaration?.getSourceFile().fileName;
+  const sameFile = matches.filter(node => declarationFile && declarationFile.endsWith(node.filePath));
+  return (sameFile.length === 1 ? sameFile : matches).map(node => node.id);
+};
+
+// Pure function to link effects to the schemas they decode, encode or return
+const resolveSchemaUsages = (state: AnalysisState): AnalysisState => {
+  const edges = new Map(Array.from(state.edges, edge => [edge.id, edge]));
+  const ambiguities: AmbiguousReference[] = [];
+  
+  // An effect can both decode and return a schema, so the usage is part of the edge ID
+  const addSchemaEdge = (sourceId: string, schemaId: string, usage: SchemaUsage, line: number) => {
+    const edgeId = `edge_${sourceId}_${schemaId}_${usage}`;
+    if (sourceId === schemaId || edges.has(edgeId)) return;
+    edges.set(edgeId, {
+      id: edgeId,
+      source: sourceId,
+      target: schemaId,
+      type: 'schema',
+      label: usage,
+      line
+    });
+  };
+  
+  state.schemaSites.forEach(site => {
+    const sourceId = findEnclosingNodeId(state, site.node);
+    const schema = site.node.arguments[0];
+    if (!sourceId || !schema) return;
+    
+    getSchemaReferences(schema).forEach(reference => {
+      const candidates = resolveReference(state, reference, reference.text)
+        .filter(nodeId => state.nodes.get(nodeId)?.type === 'schema');
+      if (candidates.length > 1) {
+        ambiguities.push(createAmbiguity(state, sourceId, reference.text, site.line, candidates));
+        return;
+      }
+      if (candidates[0]) addSchemaEdge(sourceId, candidates[0], site.usage, site.line);
+    });
+  });
+  
+  // Effects return a schema when its decoded type is part of their success type:
+  // `User`, `readonly User[]`, `Option<User>`
+  const { checker } = state;
+  const declarationsById = new Map<string, ts.Node>();
+  state.declarations.forEach((nodeId, declaration) => {
+    if (!declarationsById.has(nodeId)) declarationsById.set(nodeId, declaration);
+  });
+  
+  const schemasByType = new Map<ts.Type, string>();
+  const schemasByTypeName = new Map<string, EffectNode[]>();
+  state.nodes.forEach(node => {
+    const declaration = declarationsById.get(node.id);
+    const schemaType = checker && declaration && node.schema ? getSchemaType(declaration, checker) : undefined;
+    if (schemaType) schemasByType.set(schemaType, node.id);
+    node.schema?.typeNames.forEach(typeName => {
+      schemasByTypeName.set(typeName, [...(schemasByTypeName.get(typeName) || []), node]);
+    });
+  });
+  
+  state.nodes.forEach(node => {
+    if (!node.effectSignature || node.schema) return;
+    
+    // The checker compares types, so same-named types of other files never match
+    const declaration = declarationsById.get(node.id);
+    const successType = checker && declaration ? getSuccessType(declaration, checker) : undefined;
+    if (checker && successType) {
+      getTypeParts(successType, checker).forEach(part => {
+        const schemaId = schemasByType.get(part);
+        if (schemaId) addSchemaEdge(node.id, schemaId, 'returns', node.line);
+      });
+      return;
     }
+    
+    // Without types, the names in the printed success type are matched
+    getTypeNameTokens(node.effectSignature.success).forEach(typeName => {
+      const matches = schemasByTypeName.get(typeName) || [];
+      const sameFile = matches.filter(schemaNode => schemaNode.filePath === node.filePath);
+      const candidates = (sameFile.length === 1 ? sameFile : matches).map(schemaNode => schemaNode.id);
+      if (candidates.length > 1) {
+        ambiguities.push(createAmbiguity(state, node.id, typeName, node.line, candidates));
+        return;
+      }
+      if (candidates[0]) addSchemaEdge(node.id, candidates[0], 'returns', node.line);
+    });
+  });
+  
+  return {
+    ...state,
+    edges: new Set(edges.values()),
+    schemaSites: [],
+    ambiguities: [...state.ambiguities, ...ambiguities]
+  };
+};
+
+// Decoded type of a schema: the class instance type, or `typeof UserSchema.Type` for structs
+const getSchemaType = (declaration: ts.Node, checker: ts.TypeChecker): ts.Type | undefined => {
+  if (ts.isClassDeclaration(declaration) && declaration.name) {
+    const symbol = checker.getSymbolAtLocation(declaration.name);
+    return symbol && checker.getDeclaredTypeOfSymbol(symbol);
+  }
+  if (ts.isVariableDeclaration(declaration)) {
+    const typeProperty = checker.getTypeAtLocation(declaration.name).getProperty('Type');
+    return typeProperty && checker.getTypeOfSymbolAtLocation(typeProperty, declaration.name);
   }
   return undefined;
 };
 
+// A channel of the effect a declaration evaluates to, or of the effect its function returns
+const getSuccessType = (declaration: ts.Node, checker: ts.TypeChecker): ts.Type | undefined => {
+  try {
+    const type = checker.getTypeAtLocation(getTypeLocation(declaration));
+    return (getEffectChannels(type, checker) || getEffectChannelsFromReturn(type, checker))?.[0];
+  } catch {
+    return undefined;
+  }
+};
+
+// Pure function to annotate effects with the resources they acquire and the applications closing
+// their scope, and to report scoped effects whose scope is never closed
+// Runs before references become edges: a reference outside any Effect.scoped passes the scope
+// of the effect it runs on to the referencing effect
+const resolveResourceLifecycles = (state: AnalysisState): AnalysisState => {
+  if (state.resourceSites.length === 0 && !hasScopeRequirement(state)) return state;
+  
+  const acquires = new Map<string, ResourceAcquisition[]>();
+  const closures = new Map<string, Map<string, ScopeClosure>>();
+  const acquiring = new Set<string>();
+  
+  const addClosure = (targetId: string, closing: ClosingCall, nodeId: string | undefined) => {
+    const closure: ScopeClosure = {
+      operator: closing.operator,
+      filePath: closing.node.getSourceFile().fileName,
+      line: getLineNumber(closing.node),
+      ...(nodeId && { nodeId })
+    };
+    const existing = closures.get(targetId) || new Map<string, ScopeClosure>();
+    closures.set(targetId, existing.set(`${closure.filePath}:${closure.line}:${closure.operator}`, closure));
+  };
+  
+  state.resourceSites.forEach(site => {
+    const nodeId = findEnclosingNodeId(state, site.node);
+    const acquisition = getAcquisitionCall(site.node);
+    if (acquisition && nodeId) {
+      const resource = acquisition.acquire || getPipedEffect(site.node);
+      acquires.set(nodeId, [...(acquires.get(nodeId) || []), {
+        operator: acquisition.operator,
+        resource: resource ? describeExpression(resource) : acquisition.operator,
+        line: site.line
+      }]);
+      
+      // Acquired inside an Effect.scoped of the same effect, or released by acquireUseRelease itself
+      const enclosing = acquisition.releasesItself ? undefined : findEnclosingClosingCall(site.node);
+      if (enclosing) addClosure(nodeId, enclosing, nodeId);
+      if (!acquisition.releasesItself && !enclosing) acquiring.add(nodeId);
+    }
+    
+    // Layers and wrappers naming the effect they close: `Layer.scoped(Database, makeDatabase)`
+    const closing = getClosingCall(site.node);
+    const closed = closing?.closed[0];
+    const targets = closed ? resolveHandledEffect(state, closed) : [];
+    if (closing && targets.length === 1 && targets[0]) addClosure(targets[0], closing, nodeId);
+  });
+  
+  // Effects running a scoped effect outside any closing application take over its scope
+  const consumes = new Map<string, string[]>();
+  const consumers = new Map<string, string[]>();
+  state.references.forEach(access => {
+    const qualifiedName = access.member ? `${access.target}.${access.member}` : access.target;
+    const candidates = resolveReference(state, access.reference, qualifiedName);
+    const targetId = candidates[0];
+    if (candidates.length !== 1 || !targetId || targetId === access.sourceId) return;
+    
+    const enclosing = findEnclosingClosingCall(access.reference);
+    if (enclosing) {
+      addClosure(targetId, enclosing, access.sourceId);
+      return;
+    }
+    consumes.set(access.sourceId, [...(consumes.get(access.sourceId) || []), targetId]);
+    consumers.set(targetId, [...(consumers.get(targetId) || []), access.sourceId]);
+  });
+  
+  // Scope in the R channel comes from a library call (e.g. FileSystem.open) when nothing the
+  // effect runs needs a scope itself
+  const needsScope = (nodeId: string) =>
+    !!state.nodes.get(nodeId)?.effectSignature?.dependencies.some(isScopeRequirement);
+  state.nodes.forEach(node => {
+    if (needsScope(node.id) && !(consumes.get(node.id) || []).some(targetId => acquiring.has(targetId) || needsScope(targetId))) {
+      acquiring.add(node.id);
+    }
+  });
+  
+  // Each scoped effect remembers which acquiring effects its scope holds resources of
+  const acquiredIn = new Map<string, Set<string>>();
+  const pending: Array<[string, string]> = Array.from(acquiring, nodeId => [nodeId, nodeId]);
+  acquiring.forEach(nodeId => acquiredIn.set(nodeId, new Set([nodeId])));
+  for (let next = pending.pop(); next; next = pending.pop()) {
+    const [nodeId, acquiringId] = next;
+    (consumers.get(nodeId) || []).forEach(consumerId => {
+      const held = acquiredIn.get(consumerId) || new Set<string>();
+      if (held.has(acquiringId)) return;
+      acquiredIn.set(consumerId, held.add(acquiringId));
+      pending.push([consumerId, acquiringId]);
+    });
+  }
+  
+  const nodes = new Map(state.nodes);
+  const unclosedScopes: UnclosedScope[] = [];
+  state.nodes.forEach(node => {
+    const nodeAcquires = acquires.get(node.id) || [];
+    const closedBy = Array.from(closures.get(node.id)?.values() || []);
+    const held = acquiredIn.get(node.id);
+    if (nodeAcquires.length === 0 && closedBy.length === 0 && !held) return;
+    
+    nodes.set(node.id, { ...node, resources: { acquires: nodeAcquires, scoped: !!held, closedBy } });
+    if (held && closedBy.length === 0 && !consumers.has(node.id)) {
+      unclosedScopes.push({ nodeId: node.id, filePath: node.filePath, line: node.line, acquiredIn: Array.from(held).sort() });
+    }
+  });
+  
+  return {
+    ...state,
+    nodes,
+    resourceSites: [],
+    unclosedScopes: [...state.unclosedScopes, ...unclosedScopes]
+  };
+};
+
+const hasScopeRequirement = (state: AnalysisState): boolean =>
+  Array.from(state.nodes.values()).some(node => node.effectSignature?.dependencies.some(isScopeRequirement));
+
+// Pure function to attach the config each effect reads, and to list where ConfigProviders are supplied
+// Runs before references become edges: an effect yielding a top-level config such as
+// `const dbConfig = Config.all(...)` reads its keys, whether or not the config is a node
+const resolveConfigRequirements = (state: AnalysisState): AnalysisState => {
+  if (state.configSites.length === 0) return state;
+  
+  const resolve = (identifier: ts.Identifier) => {
+    const declaration = findVariableDeclaration(state.checker, identifier);
+    return declaration?.initializer;
+  };
+  const reads = new Map<string, ConfigRequirement[]>();
+  const addReads = (nodeId: string, requirements: ConfigRequirement[]) => {
+    reads.set(nodeId, [...(reads.get(nodeId) || []), ...requirements]);
+  };
+  
+  const configDeclarations = new Map<ts.Node, ConfigRequirement[]>();
+  const configProviders: ConfigProviderUsage[] = [];
+  state.configSites.forEach(site => {
+    const nodeId = findEnclosingNodeId(state, site.node);
+    if (site.kind === 'provider') {
+      configProviders.push({
+        operator: getProviderOperator(site.node),
+        filePath: site.node.getSourceFile().fileName,
+        line: site.line,
+        ...(nodeId && { nodeId })
+      });
+      return;
+    }
+    
+    const requirements = getConfigRequirements(site.node, resolve);
+    if (requirements.length === 0) return;
+    if (nodeId) addReads(nodeId, requirements);
+    if (ts.isVariableDeclaration(site.node.parent) && !state.declarations.has(site.node.parent)) {
+      configDeclarations.set(site.node.parent, requirements);
+    }
+  });
+  
+  state.references.forEach(access => {
+    if (!ts.isIdentifier(access.reference)) return;
+    const declaration = findVariableDeclaration(state.checker, access.reference);
+    const requirements = declaration && configDeclarations.get(declaration);
+    if (requirements) addReads(access.sourceId, requirements);
+  });
+  
+  const nodes = new Map(state.nodes);
+  reads.forEach((requirements, nodeId) => {
+    const node = nodes.get(nodeId);
+    const byKey = new Map(requirements.map(requirement => [requirement.key, requirement]));
+    if (node) nodes.set(nodeId, { ...node, config: Array.from(byKey.values()) });
+  });
+  
+  return {
+    ...state,
+    nodes,
+    configSites: [],
+    configProviders: [...state.configProviders, ...configProviders]
+  };
+};
+
+// Variable an identifier refers to; without a checker, a top-level variable of the same file
+const findVariableDeclaration = (
+  checker: ts.TypeChecker | undefined,
+  identifier: ts.Identifier
+): ts.VariableDeclaration | undefined => {
+  if (checker) {
+    return resolveDeclarations(checker, identifier).find(ts.isVariableDeclaration);
+  }
+  return identifier.getSourceFile().statements
+    .flatMap(statement => ts.isVariableStatement(statement) ? Array.from(statement.declarationList.declarations) : [])
+    .find(declaration => ts.isIdentifier(declaration.name) && declaration.name.text === identifier.text);
+};
+
+// Pure function to attach the retries, timeouts and repeats each effect applies, and mark effects performing IO
+// A policy wrapping another node's effect, as in `fetchUser.pipe(Effect.retry(policy))`, names it as target;
+// one wrapping the effect's own body, as in `Effect.tryPromise(...).pipe(Effect.timeout("1 second"))`, does not
+const resolveResilience = (state: AnalysisState): AnalysisState => {
+  if (state.resilienceSites.length === 0) return state;
+  
+  const resolve = (identifier: ts.Identifier) => findVariableDeclaration(state.checker, identifier)?.initializer;
+  const policies = new Map<string, ResiliencePolicy[]>();
+  const io = new Set<string>();
+  
+  state.resilienceSites.forEach(site => {
+    const nodeId = findEnclosingNodeId(state, site.node);
+    if (!nodeId) return;
+    if (isIoCall(site.node)) io.add(nodeId);
+    
+    const call = getResilienceCall(site.node, resolve);
+    if (!call) return;
+    const wrapped = call.wrapped || getPipedEffect(site.node);
+    const targets = wrapped ? resolveHandledEffect(state, wrapped) : [];
+    const target = targets.length === 1 && targets[0] !== nodeId ? targets[0] : undefined;
+    policies.set(nodeId, [...(policies.get(nodeId) || []), {
+      kind: call.kind,
+      operator: call.operator,
+      line: site.line,
+      ...(target && { target }),
+      ...(call.schedule && { schedule: call.schedule }),
+      ...(call.times && { times: call.times }),
+      ...(call.duration && { duration: call.duration })
+    }]);
+  });
+  
+  const nodes = new Map(state.nodes);
+  nodes.forEach((node, nodeId) => {
+    const resilience = policies.get(nodeId);
+    if (resilience || io.has(nodeId)) {
+      nodes.set(nodeId, { ...node, ...(resilience && { resilience }), ...(io.has(nodeId) && { io: true }) });
+    }
+  });
+  
+  return { ...state, nodes, resilienceSites: [] };
+};
+
+// Pure function to attach the spans, annotations and log calls of each effect
+// Spans wrapping another node's effect name it as target, as retries and timeouts do
+const resolveObservability = (state: AnalysisState): AnalysisState => {
+  if (state.observabilitySites.length === 0) return state;
+  
+  const points = new Map<string, ObservabilityPoint[]>();
+  state.observabilitySites.forEach(site => {
+    const nodeId = findEnclosingNodeId(state, site.node);
+    const call = getObservabilityCall(site.node);
+    if (!nodeId || !call) return;
+    const wrapped = call.kind === 'span' && call.operator === 'Effect.withSpan' ? call.wrapped || getPipedEffect(site.node) : undefined;
+    const targets = wrapped ? resolveHandledEffect(state, wrapped) : [];
+    const target = targets.length === 1 && targets[0] !== nodeId ? targets[0] : undefined;
+    points.set(nodeId, [...(points.get(nodeId) || []), {
+      kind: call.kind,
+      operator: call.operator,
+      line: site.line,
+      ...(call.name && { name: call.name }),
+      ...(target && { target })
+    }]);
+  });
+  
+  const nodes = new Map(state.nodes);
+  points.forEach((observability, nodeId) => {
+    const node = nodes.get(nodeId);
+    if (node) nodes.set(nodeId, { ...node, observability });
+  });
+  
+  return { ...state, nodes, observabilitySites: [] };
+};
+
+// Pure function to link effects offering to a Queue or publishing to a PubSub with the
+// effects taking from or subscribing to the same instance
+const resolveMessageFlows = (state: AnalysisState): AnalysisState => {
+  const edges = new Map(Array.from(state.edges, edge => [edge.id, edge]));
+  const instances = new Map<ts.Node | string, { name: string; sites: Array<{ nodeId: string; site: MessageSite }> }>();
+  
+  state.messageSites.forEach(site => {
+    const nodeId = findEnclosingNodeId(state, site.node);
+    if (!nodeId) return;
+    const { key, name } = getMessageInstance(state.checker, site.instance);
+    const instance = instances.get(key) || { name, sites: [] };
+    instances.set(key, { ...instance, sites: [...instance.sites, { nodeId, site }] });
+  });
+  
+  instances.forEach(({ name, sites }) => {
+    const producers = sites.filter(({ site }) => site.role === 'producer');
+    const consumers = sites.filter(({ site }) => site.role === 'consumer');
+    producers.forEach(producer => consumers.forEach(consumer => {
+      const edgeId = `edge_${producer.nodeId}_${consumer.nodeId}_message`;
+      if (producer.nodeId === consumer.nodeId || edges.has(edgeId)) return;
+      edges.set(edgeId, {
+        id: edgeId,
+        source: producer.nodeId,
+        target: consumer.nodeId,
+        type: 'message',
+        label: name,
+        line: producer.site.line
+      });
+    }));
+  });
+  
+  return {
+    ...state,
+    edges: new Set(edges.values()),
+    messageSites: []
+  };
+};
+
+// The declaration a Queue / PubSub comes from, following `const queue = yield* JobQueue` to the
+// `JobQueue` tag so effects that each yield it share the instance
+// Without a checker, the same name within a file is taken to be the same instance
+const getMessageInstance = (
+  checker: ts.TypeChecker | undefined,
+  instance: ts.Expression
+): { key: ts.Node | string; name: string } => {
+  const fallback = { key: `${instance.getSourceFile().fileName}#${instance.getText()}`, name: instance.getText() };
+  if (!checker) return fallback;
+  
+  const symbolNode = (expression: ts.Expression) => ts.isPropertyAccessExpression(expression) ? expression.name : expression;
+  const seen = new Set<ts.Node>();
+  let declaration: ts.Declaration | undefined = resolveDeclarations(checker, symbolNode(instance))[0];
+  while (declaration && ts.isVariableDeclaration(declaration) && declaration.initializer && !seen.has(declaration)) {
+    seen.add(declaration);
+    let source = declaration.initializer;
+    while (ts.isYieldExpression(source) || ts.isParenthesizedExpression(source)) {
+      if (!source.expression) break;
+      source = source.expression;
+    }
+    if (!ts.isIdentifier(source) && !ts.isPropertyAccessExpression(source)) break;
+    const next = resolveDeclarations(checker, symbolNode(source))[0];
+    if (!next) break;
+    declaration = next;
+  }
+  
+  const name = declaration && ts.getNameOfDeclaration(declaration);
+  return declaration ? { key: declaration, name: name ? name.getText() : fallback.name } : fallback;
+};
+
+// Resolves `effect`, `effect(...)`, `Service.member(...)` or `effect.pipe(...)` to a node ID
+const resolveHandledEffect = (state: AnalysisState, expression: ts.Expression): string[] => {
+  if (ts.isCallExpression(expression) && ts.isPropertyAccessExpression(expression.expression) &&
+      expression.expression.name.text === 'pipe') {
+    return resolveHandledEffect(state, expression.expression.expression);
+  }
+  
+  const callee = ts.isCallExpression(expression) ? expression.expression : expression;
+  
+  if (ts.isIdentifier(callee)) {
+    return resolveReference(state, callee, callee.text);
+  }
+  if (ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression) &&
+      callee.expression.text !== 'Effect') {
+    return resolveReference(state, callee.name, `${callee.expression.text}.${callee.name.text}`);
+  }
+  return [];
+};
+
+// What a route handler depends on: the effects it runs, and what those yield when written inline
+const extractHandlerReferences = (handler: ts.Expression, sourceId: string): ReferenceAccess[] => {
+  return getHandlerEffects(handler).flatMap((effect): ReferenceAccess[] => {
+    if (ts.isCallExpression(effect) && isNamespaceCall(effect.expression, 'Effect', 'gen')) {
+      return extractYieldAccesses(effect, sourceId);
+    }
+    const pipeline = ts.isCallExpression(effect) ? getPipelineParts(effect) : undefined;
+    if (pipeline?.kind === 'effect-fn' && ts.isCallExpression(effect)) {
+      return extractYieldAccesses(effect, sourceId);
+    }
+    if (pipeline?.source) {
+      return [...extractHandlerReferences(pipeline.source, sourceId), ...extractPipeStages(pipeline.stages, sourceId)];
+    }
+    return extractPipeStages([effect], sourceId);
+  }).map(access => ({ ...access, edgeType: 'dependency' }));
+};
+
+// Collects `stage`, `stage(...)` and `ns.stage(...)` stages of a pipeline
+const extractPipeStages = (pipelineStages: ts.Expression[], sourceId: string): ReferenceAccess[] => {
+  const stages: ReferenceAccess[] = [];
+  
+  pipelineStages.forEach(arg => {
+    const callee = ts.isCallExpression(arg) ? arg.expression : arg;
+    const line = getLineNumber(arg);
+    
+    if (ts.isIdentifier(callee)) {
+      stages.push({ sourceId, edgeType: 'pipe', target: callee.text, member: undefined, reference: callee, line });
+    }
+    if (ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression)) {
+      stages.push({
+        sourceId,
+        edgeType: 'pipe',
+        target: callee.expression.text,
+        member: callee.name.text,
+        reference: callee.name,
+        line
+      });
+    }
+  });
+  
+  return stages;
+};
+
 // Pure function to build railway from state
 const buildRailway = (state: AnalysisState): EffectRailway => {
-  const nodes = Array.from(state.nodes.values());
   const edges = Array.from(state.edges);
   
-  // Identify entry points (nodes with no incoming edges)
+  // Fan-out and fan-in: distinct nodes a node has edges to, and has edges from
+  const callees = new Map<string, Set<string>>();
+  const callers = new Map<string, Set<string>>();
+  edges.forEach(edge => {
+    if (edge.source === edge.target) return;
+    callees.set(edge.source, (callees.get(edge.source) || new Set()).add(edge.target));
+    callers.set(edge.target, (callers.get(edge.target) || new Set()).add(edge.source));
+  });
+  const nodes = Array.from(state.nodes.values(), node => node.metrics ? {
+    ...node,
+    metrics: {
+      ...node.metrics,
+      callsCount: callees.get(node.id)?.size || 0,
+      calledByCount: callers.get(node.id)?.size || 0
+    }
+  } : node);
+  
+  // Entry points are the HTTP routes and the programs run; without any, nodes with no incoming edges
   const targetNodes = new Set(edges.map(e => e.target));
-  const entryPoints = nodes
+  const roots = nodes.filter(n => n.route || n.runtime).map(n => n.id);
+  const entryPoints = roots.length > 0 ? roots : nodes
     .filter(n => !targetNodes.has(n.id))
     .map(n => n.id);
   
   // Build layers
-  const layers = buildLayers(nodes);
+  const layers = buildLayers(nodes, state.classification.lanes);
   
   return {
     nodes,
     edges,
     entryPoints,
-    layers
+    layers,
+    lanes: state.classification.lanes
   };
 };
 
 // Pure function to build layers
-const buildLayers = (nodes: EffectNode[]): LayerMap => {
-  const layers: LayerMap = {
-    controllers: [],
-    services: [],
-    repositories: [],
-    middleware: [],
-    workers: [],
-    utilities: [],
-    errors: []
-  };
-  
-  nodes.forEach(node => {
-    const layerKey = (node.type + 's') as keyof LayerMap;
-    if (layers[layerKey]) {
-      layers[layerKey].push(node.id);
-    }
-  });
-  
-  return layers;
+// Layers are the swim lanes of the classification rules, plus the catch-all lane when used
+const buildLayers = (nodes: EffectNode[], lanes: LaneDefinition[]): LayerMap => {
+  return Object.fromEntries(groupByLane(lanes, nodes).map(lane => [lane.name, lane.items.map(node => node.id)]));
 };
 
 // Pure function to calculate statistics
@@ -594,10 +2614,14 @@ const calculateStatistics = (railway: EffectRailway) => {
     errorTypes: [] as string[],
     dependencyTypes: [] as string[]
   };
+  const nodesByPackage: Record<string, number> = {};
   
-  // Count nodes per type
+  // Count nodes per type, and per package in workspace mode
   railway.nodes.forEach(node => {
     stats.nodesPerType[node.type] = (stats.nodesPerType[node.type] || 0) + 1;
+    if (node.package) {
+      nodesByPackage[node.package] = (nodesByPackage[node.package] || 0) + 1;
+    }
   });
   
   // Count edges per type
@@ -605,5 +2629,29 @@ const calculateStatistics = (railway: EffectRailway) => {
     stats.edgesPerType[edge.type] = (stats.edgesPerType[edge.type] || 0) + 1;
   });
   
-  return stats;
+  // Collect tagged error types
+  stats.errorTypes = Array.from(new Set(
+    railway.nodes
+      .filter(node => node.type === 'error' && node.errorTag)
+      .map(node => node.errorTag as string)
+  ));
+  
+  // Bucket nodes by fan-out, with the same bounds as the function analysis
+  const fanOuts = railway.nodes.map(node => node.metrics?.callsCount || 0);
+  const complexity = {
+    zero: fanOuts.filter(count => count === 0).length,
+    low: fanOuts.filter(count => count >= 1 && count <= 3).length,
+    medium: fanOuts.filter(count => count >= 4 && count <= 9).length,
+    high: fanOuts.filter(count => count >= 10 && count <= 19).length,
+    veryHigh: fanOuts.filter(count => count >= 20).length
+  };
+  const avgDependencies = fanOuts.length > 0 ?
+    Math.round((fanOuts.reduce((sum, count) => sum + count, 0) / fanOuts.length) * 100) / 100 : 0;
+  
+  return {
+    ...stats,
+    complexity,
+    avgDependencies,
+    ...(Object.keys(nodesByPackage).length > 0 && { nodesByPackage })
+  };
 };
\ No newline at end of file
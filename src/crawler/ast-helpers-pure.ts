@@ -0,0 +1,91 @@
+/**
+ * Purpose: Pure syntax helpers shared by the crawler passes
+ * Dependencies: TypeScript Compiler API
+ * 
+ * Example Input:
+ * ```
+ * isNamespaceCall(call.expression, 'Effect', 'gen')
+ * ```
+ * 
+ * Expected Output:
+ * ```
+ * true for `Effect.gen(...)` callees
+ * ```
+ */
+
+import * as ts from 'typescript';
+
+// Matches `Namespace.member` callees such as `Context.Tag` or `Effect.gen`
+export const isNamespaceCall = (expression: ts.Expression, namespace: string, member: string): boolean => {
+  return ts.isPropertyAccessExpression(expression) &&
+         ts.isIdentifier(expression.expression) &&
+         expression.expression.text === namespace &&
+         expression.name.text === member;
+};
+
+export const getStringArgument = (node: ts.CallExpression, index: number): string | undefined => {
+  const arg = node.arguments[index];
+  return arg && (ts.isStringLiteral(arg) || ts.isNoSubstitutionTemplateLiteral(arg)) ? arg.text : undefined;
+};
+
+// Splits `base.pipe(a, b)` and `pipe(base, a, b)` into base and stages
+export const getPipeParts = (node: ts.CallExpression): { base: ts.Expression; stages: ts.Expression[] } | undefined => {
+  if (ts.isPropertyAccessExpression(node.expression) && node.expression.name.text === 'pipe') {
+    return { base: node.expression.expression, stages: Array.from(node.arguments) };
+  }
+  if (ts.isIdentifier(node.expression) && node.expression.text === 'pipe' && node.arguments[0]) {
+    return { base: node.arguments[0], stages: node.arguments.slice(1) };
+  }
+  return undefined;
+};
+
+// Short, single-line description of an expression
+export const describeExpression = (expression: ts.Expression): string => {
+  const text = expression.getText().split('\n')[0]?.trim() || '';
+  return text.length > 60 ? `${text.substring(0, 57)}...` : text;
+};
+
+// `Effect` in `Effect.succeed(1)` and `Effect.map(f)`, `AM` in `AM.UserService.Default`
+export const getRootIdentifier = (expression: ts.Expression): ts.Identifier | undefined => {
+  if (ts.isIdentifier(expression)) return expression;
+  if (ts.isPropertyAccessExpression(expression) || ts.isCallExpression(expression)) {
+    return getRootIdentifier(expression.expression);
+  }
+  return undefined;
+};
+
+export const getLineNumber = (node: ts.Node): number => {
+  const sourceFile = node.getSourceFile();
+  if (sourceFile) {
+    const { line } = sourceFile.getLineAndCharacterOfPosition(node.getStart());
+    return line + 1;
+  }
+  return 0;
+};
+
+// Position of a syntax node; lets results computed against one program's AST
+// (e.g. in a worker thread) be mapped back onto another program's AST of the same files
+export interface NodeRef {
+  fileName: string;
+  pos: number;
+  end: number;
+  kind: ts.SyntaxKind;
+}
+
+export const getNodeRef = (node: ts.Node): NodeRef => ({
+  fileName: node.getSourceFile().fileName,
+  pos: node.pos,
+  end: node.end,
+  kind: node.kind
+});
+
+export const findNodeByRef = (program: ts.Program, ref: NodeRef): ts.Node | undefined => {
+  const sourceFile = program.getSourceFile(ref.fileName);
+  if (!sourceFile) return undefined;
+  
+  const visit = (node: ts.Node): ts.Node | undefined => {
+    if (node.pos === ref.pos && node.end === ref.end && node.kind === ref.kind) return node;
+    return ts.forEachChild(node, child => child.pos <= ref.pos && ref.end <= child.end ? visit(child) : undefined);
+  };
+  return visit(sourceFile);
+};
@@ -0,0 +1,174 @@
+/**
+ * Purpose: Pure classification of declarations into layer types by prioritized rules (path globs,
+ *          class-name patterns, decorators and service tags), and the swim lanes those types are laid out in
+ * Dependencies: None (pure functions)
+ * 
+ * Example Input:
+ * ```
+ * classifyNode(DEFAULT_CLASSIFICATION_RULES, { path: 'src/errors/controller-errors.ts', className: undefined, decorators: [], tag: undefined })
+ * parseClassificationRules({ rules: [{ type: 'controller', path: 'src/handlers/**' }] })
+ * groupByLane(lanes, nodes)
+ * ```
+ * 
+ * Expected Output:
+ * ```
+ * 'error'   (the errors/ folder outranks the file name)
+ * { rules: { rules: [{ type: 'controller', path: 'src/handlers/**', priority: 100 }, ...defaults], lanes, fallback: 'utility' }, warnings: [] }
+ * [{ name: 'controllers', items: [...] }, ..., { name: 'other', items: [<nodes of types no lane lists>] }]
+ * ```
+ */
+
+import type { ClassificationRule, ClassificationRules, LaneDefinition, NodeType } from '../types/effect-node.js';
+import { DATAFLOW_NODE_TYPES } from '../types/effect-node.js';
+
+// What a declaration is classified by
+export interface ClassificationFacts {
+  path: string;                  // Relative to the analyzed root, with `/` separators
+  className: string | undefined; // Enclosing class
+  decorators: string[];          // On the declaration and its enclosing class
+  tag: string | undefined;       // Context.Tag / Effect.Service key of the enclosing class
+}
+
+// Layers told apart by a word in folder, file and class names; ties resolve in this order
+const NAMED_LAYERS: Array<{ type: NodeType; word: string; inClassName: boolean }> = [
+  { type: 'controller', word: 'controller', inClassName: true },
+  { type: 'service', word: 'service', inClassName: true },
+  { type: 'repository', word: 'repositor', inClassName: true },
+  { type: 'middleware', word: 'middleware', inClassName: false },
+  { type: 'worker', word: 'worker', inClassName: false },
+  { type: 'error', word: 'error', inClassName: false }
+];
+
+// Rules from a rules file outrank the defaults unless they set a priority
+const USER_RULE_PRIORITY = 100;
+
+// Lane of node types no lane lists, laid out below the others
+export const CATCH_ALL_LANE = 'other';
+
+// A folder names the layer of everything in it, before the file name and then the class name:
+// `src/errors/controller-errors.ts` holds errors
+export const DEFAULT_CLASSIFICATION_RULES: ClassificationRules = {
+  rules: [
+    ...NAMED_LAYERS.map(({ type, word }) => ({ type, path: `**/*${word}*/**`, priority: 20 })),
+    ...NAMED_LAYERS.map(({ type, word }) => ({ type, path: `**/*${word}*`, priority: 10 })),
+    ...NAMED_LAYERS.filter(layer => layer.inClassName).map(({ type, word }) => ({ type, className: `*${word}*`, priority: 5 }))
+  ],
+  lanes: [
+    { name: 'controllers', types: ['controller'] },   // Entry points (HTTP endpoints, programs)
+    { name: 'middleware', types: ['middleware'] },    // Request processing
+    { name: 'services', types: ['service'] },         // Business logic
+    { name: 'repositories', types: ['repository'] },  // Data access
+    { name: 'workers', types: ['worker'] },           // Background processing
+    { name: 'utilities', types: ['utility'] },        // Helper functions
+    { name: 'errors', types: ['error'] },             // Error handling
+    { name: 'schemas', types: ['schema'] },           // Domain schemas
+    { name: 'dataflow', types: DATAFLOW_NODE_TYPES }  // Streams, schedules, STM, queues and pubsubs
+  ],
+  fallback: 'utility'
+};
+
+// Pure function to type a declaration by the matching rule of highest priority; ties go to the earlier rule
+export const classifyNode = (rules: ClassificationRules, facts: ClassificationFacts): NodeType => {
+  const chosen = rules.rules.reduce<ClassificationRule | undefined>(
+    (best, rule) => matchesRule(rule, facts) && (!best || (rule.priority || 0) > (best.priority || 0)) ? rule : best,
+    undefined
+  );
+  return chosen?.type || rules.fallback;
+};
+
+// Pure function to read a rules file: its rules come before the defaults (or replace them with
+// `"defaults": false`), its lanes replace the default lanes
+// Malformed rules and lanes are skipped with a warning; types no lane lists are warned about, as
+// their nodes end up in the catch-all lane
+export const parseClassificationRules = (value: unknown): { rules: ClassificationRules; warnings: string[] } => {
+  if (!isRecord(value)) {
+    return { rules: DEFAULT_CLASSIFICATION_RULES, warnings: ['rules file is not a JSON object; using the default rules'] };
+  }
+  const warnings: string[] = [];
+  
+  const rules = (Array.isArray(value.rules) ? value.rules : []).flatMap((entry: unknown, index): ClassificationRule[] => {
+    const rule = parseRule(entry);
+    if (!rule) warnings.push(`rule ${index} needs a type and at least one of path, className, decorator or tag`);
+    return rule ? [rule] : [];
+  });
+  const lanes = (Array.isArray(value.lanes) ? value.lanes : []).flatMap((entry: unknown, index): LaneDefinition[] => {
+    const lane = parseLane(entry);
+    if (!lane) warnings.push(`lane ${index} needs a name and a list of types`);
+    return lane ? [lane] : [];
+  });
+  
+  const classification: ClassificationRules = {
+    rules: [...rules, ...(value.defaults === false ? [] : DEFAULT_CLASSIFICATION_RULES.rules)],
+    lanes: lanes.length > 0 ? lanes : DEFAULT_CLASSIFICATION_RULES.lanes,
+    fallback: typeof value.fallback === 'string' ? value.fallback : DEFAULT_CLASSIFICATION_RULES.fallback
+  };
+  
+  const unlisted = Array.from(new Set([...classification.rules.map(rule => rule.type), classification.fallback]))
+    .filter(type => !classification.lanes.some(lane => lane.types.includes(type)));
+  unlisted.forEach(type => warnings.push(`type "${type}" is in no lane; its nodes are laid out in the "${CATCH_ALL_LANE}" lane`));
+  
+  return { rules: classification, warnings };
+};
+
+// Pure function to find the lane a node type is laid out in; types no lane lists get the
+// catch-all lane after the listed ones
+export const getLaneIndex = (lanes: LaneDefinition[], type: NodeType): number => {
+  const index = lanes.findIndex(lane => lane.types.includes(type));
+  return index === -1 ? lanes.length : index;
+};
+
+// Pure function to group nodes by lane in lane order; the catch-all lane is added when it has nodes
+export const groupByLane = <T extends { type: NodeType }>(
+  lanes: LaneDefinition[],
+  items: T[]
+): Array<{ name: string; items: T[] }> => {
+  const groups = [...lanes.map(lane => ({ name: lane.name, items: [] as T[] })), { name: CATCH_ALL_LANE, items: [] as T[] }];
+  items.forEach(item => groups[getLaneIndex(lanes, item.type)]?.items.push(item));
+  return groups.filter((group, index) => index < lanes.length || group.items.length > 0);
+};
+
+// Every condition the rule sets has to hold
+const matchesRule = (rule: ClassificationRule, facts: ClassificationFacts): boolean => {
+  return (rule.path === undefined || matchesPattern(rule.path, facts.path)) &&
+         (rule.className === undefined || (facts.className !== undefined && matchesPattern(rule.className, facts.className))) &&
+         (rule.decorator === undefined || facts.decorators.includes(rule.decorator)) &&
+         (rule.tag === undefined || (facts.tag !== undefined && matchesPattern(rule.tag, facts.tag)));
+};
+
+// Case-insensitive glob: `**/` spans any number of folders, `*` and `?` stay within one
+const matchesPattern = (pattern: string, value: string): boolean => {
+  const source = pattern.split(/(\*\*\/|\*\*|\*|\?)/).map(part =>
+    part === '**/' ? '(?:.*/)?' :
+    part === '**' ? '.*' :
+    part === '*' ? '[^/]*' :
+    part === '?' ? '[^/]' :
+    part.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+  ).join('');
+  return new RegExp(`^${source}$`, 'i').test(value);
+};
+
+const parseRule = (entry: unknown): ClassificationRule | undefined => {
+  if (!isRecord(entry) || typeof entry.type !== 'string') return undefined;
+  const conditions = {
+    ...(typeof entry.path === 'string' && { path: entry.path }),
+    ...(typeof entry.className === 'string' && { className: entry.className }),
+    ...(typeof entry.decorator === 'string' && { decorator: entry.decorator }),
+    ...(typeof entry.tag === 'string' && { tag: entry.tag })
+  };
+  if (Object.keys(conditions).length === 0) return undefined;
+  return {
+    type: entry.type,
+    priority: typeof entry.priority === 'number' ? entry.priority : USER_RULE_PRIORITY,
+    ...conditions
+  };
+};
+
+const parseLane = (entry: unknown): LaneDefinition | undefined => {
+  if (!isRecord(entry) || typeof entry.name !== 'string' || !Array.isArray(entry.types)) return undefined;
+  const types = entry.types.filter((type): type is string => typeof type === 'string');
+  return types.length > 0 ? { name: entry.name, types } : undefined;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
@@ -0,0 +1,118 @@
+/**
+ * Purpose: Pure detection of the calls where an effect forks a fiber, races effects,
+ *          runs effects concurrently or joins a fiber
+ * Dependencies: TypeScript Compiler API
+ * 
+ * Example Input:
+ * ```
+ * getConcurrencyOperation(<Effect.all([fetchUser, fetchPosts], { concurrency: "unbounded" })>)
+ * ```
+ * 
+ * Expected Output:
+ * ```
+ * { kind: 'all', operator: 'Effect.all', concurrency: 'unbounded', branches: [<fetchUser>, <fetchPosts>], piped: false }
+ * ```
+ */
+
+import * as ts from 'typescript';
+import type { ConcurrencyKind, EffectNode, UnboundedConcurrency } from '../types/effect-node.js';
+
+// A recognized operation and the effects it runs concurrently
+export interface ConcurrencyOperation {
+  kind: ConcurrencyKind;
+  operator: string;
+  concurrency: string | undefined;
+  branches: ts.Expression[];   // Effects given as arguments
+  piped: boolean;              // Also applies to the effect it is piped onto: `worker.pipe(Effect.fork)`
+}
+
+const FORKS: Record<string, ConcurrencyKind> = {
+  fork: 'fork',
+  forkDaemon: 'fork-daemon',
+  forkScoped: 'fork-scoped'
+};
+
+const JOINS = ['join', 'joinAll'];
+
+// Pure function to recognize a concurrency operation:
+// `Effect.fork(worker)`, `worker.pipe(Effect.forkDaemon)`, `Effect.race(a, b)`, `a.pipe(Effect.race(b))`,
+// `Effect.raceAll([a, b])`, `Effect.all([a, b], { concurrency: 5 })`,
+// `Effect.forEach(users, notify, { concurrency: "unbounded" })` and `Fiber.join(fiber)`
+// Effect.all / forEach only count when given a `concurrency` option; they run sequentially otherwise
+export const getConcurrencyOperation = (
+  node: ts.CallExpression | ts.PropertyAccessExpression
+): ConcurrencyOperation | undefined => {
+  // A fork passed as a pipe stage without being called
+  if (ts.isPropertyAccessExpression(node)) {
+    const kind = isEffectMember(node) ? FORKS[node.name.text] : undefined;
+    const isStage = ts.isCallExpression(node.parent) && node.parent.arguments.some(arg => arg === node);
+    return kind && isStage ? { kind, operator: node.getText(), concurrency: undefined, branches: [], piped: true } : undefined;
+  }
+  
+  const callee = node.expression;
+  if (!ts.isPropertyAccessExpression(callee) || !ts.isIdentifier(callee.expression)) return undefined;
+  const member = callee.name.text;
+  const operator = `${callee.expression.text}.${member}`;
+  const args = Array.from(node.arguments);
+  
+  if (callee.expression.text === 'Fiber') {
+    return JOINS.includes(member) ? { kind: 'join', operator, concurrency: undefined, branches: [], piped: false } : undefined;
+  }
+  if (callee.expression.text !== 'Effect') return undefined;
+  
+  const fork = FORKS[member];
+  if (fork) return { kind: fork, operator, concurrency: undefined, branches: args.slice(0, 1), piped: false };
+  
+  if (member === 'raceAll') {
+    return { kind: 'race', operator, concurrency: undefined, branches: getElements(args[0]), piped: false };
+  }
+  if (member.startsWith('race')) {
+    // Data-last races take the other effect from the pipe: `a.pipe(Effect.race(b))`
+    const effects = args.filter(arg => !ts.isObjectLiteralExpression(arg));
+    return { kind: 'race', operator, concurrency: undefined, branches: effects.slice(0, 2), piped: effects.length === 1 };
+  }
+  
+  const options = args.length >= 2 ? args[args.length - 1] : undefined;
+  const concurrency = options && getConcurrencyOption(options);
+  if (!concurrency) return undefined;
+  if (member === 'all') {
+    return { kind: 'all', operator, concurrency, branches: getElements(args[0]), piped: false };
+  }
+  if (member === 'forEach') {
+    // `Effect.forEach(items, f, options)`, or data-last `Effect.forEach(f, options)`
+    const f = args[args.length - 2];
+    return { kind: 'for-each', operator, concurrency, branches: f ? [f] : [], piped: false };
+  }
+  return undefined;
+};
+
+// Pure function to list the Effect.all / forEach call sites with `concurrency: "unbounded"`
+export const findUnboundedConcurrency = (nodes: EffectNode[]): UnboundedConcurrency[] => {
+  return nodes.flatMap(node => (node.concurrency || [])
+    .filter(point => point.concurrency === 'unbounded')
+    .map(point => ({ nodeId: node.id, operator: point.operator, filePath: node.filePath, line: point.line })));
+};
+
+const isEffectMember = (node: ts.PropertyAccessExpression): boolean =>
+  ts.isIdentifier(node.expression) && node.expression.text === 'Effect';
+
+// Effects of an array or struct literal; anything else is a single collection
+const getElements = (collection: ts.Expression | undefined): ts.Expression[] => {
+  if (!collection) return [];
+  if (ts.isArrayLiteralExpression(collection)) return Array.from(collection.elements);
+  if (ts.isObjectLiteralExpression(collection)) {
+    return collection.properties.flatMap(prop =>
+      ts.isPropertyAssignment(prop) ? [prop.initializer] :
+      ts.isShorthandPropertyAssignment(prop) ? [prop.name] : []);
+  }
+  return [collection];
+};
+
+// `{ concurrency: "unbounded" }` -> "unbounded", `{ concurrency: 5 }` -> "5"
+const getConcurrencyOption = (options: ts.Expression): string | undefined => {
+  if (!ts.isObjectLiteralExpression(options)) return undefined;
+  const prop = options.properties.find(property =>
+    ts.isPropertyAssignment(property) && ts.isIdentifier(property.name) && property.name.text === 'concurrency');
+  if (!prop || !ts.isPropertyAssignment(prop)) return undefined;
+  return ts.isStringLiteralLike(prop.initializer) ? prop.initializer.text : prop.initializer.getText();
+};
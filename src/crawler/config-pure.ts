@@ -0,0 +1,281 @@
+/**
+ * Purpose: Pure extraction of the configuration an Effect program reads through Config,
+ *          aggregated per entry point, and the .env.example it implies
+ * Dependencies: TypeScript Compiler API, crawler helpers
+ * 
+ * Example Input:
+ * ```
+ * getConfigRequirements(<Config.string("HOST").pipe(Config.nested("DATABASE"), Config.withDefault("localhost"))>, resolve)
+ * buildConfigInventory(railway, layerGraph)
+ * ```
+ * 
+ * Expected Output:
+ * ```
+ * [{ key: 'DATABASE_HOST', type: 'string', default: 'localhost' }]
+ * [{ entryId: 'main.ts#Effect.runPromise', keys: [{ key: 'DATABASE_URL', type: 'redacted', readBy: [...] }] }]
+ * ```
+ */
+
+import * as ts from 'typescript';
+import type { ConfigInventoryEntry, ConfigKey, ConfigRequirement, EffectRailway, LayerGraph } from '../types/effect-node.js';
+import { RUN_EDGES } from '../types/effect-node.js';
+import { describeExpression } from './ast-helpers-pure.js';
+
+// Looks up what an identifier in a config expression refers to, e.g. `dbConfig` in `Config.all([dbConfig, port])`
+export type ConfigResolver = (identifier: ts.Identifier) => ts.Expression | undefined;
+
+// Constructors reading a single key, and the type they read
+const PRIMITIVES: Record<string, string> = {
+  string: 'string',
+  nonEmptyString: 'string',
+  number: 'number',
+  integer: 'integer',
+  boolean: 'boolean',
+  bigint: 'bigint',
+  url: 'url',
+  date: 'date',
+  duration: 'duration',
+  logLevel: 'log-level',
+  port: 'port',
+  redacted: 'redacted',
+  secret: 'redacted'
+};
+
+// Constructors reading a list under a key: `Config.array(Config.string(), "HOSTS")`
+const COLLECTIONS: Record<string, string> = {
+  array: 'array',
+  chunk: 'array',
+  hashSet: 'set'
+};
+
+// Combinators, with the arguments their data-first form takes
+const COMBINATORS: Record<string, number> = {
+  nested: 2,
+  withDefault: 2,
+  option: 1,
+  map: 2,
+  mapAttempt: 2,
+  mapOrFail: 2,
+  validate: 2,
+  withDescription: 2,
+  orElse: 2
+};
+
+export type ConfigSiteKind = 'config' | 'provider';
+
+// Pure function to read the keys a config expression requires:
+// `Config.string("PORT")`, `Config.redacted("API_KEY")`, `Config.nested(config, "DB")`,
+// `Config.all({ host, port })`, `config.pipe(Config.withDefault(8080))`, `Config.option(config)`...
+export const getConfigRequirements = (
+  expression: ts.Expression,
+  resolve: ConfigResolver,
+  seen: ReadonlySet<ts.Node> = new Set()
+): ConfigRequirement[] => {
+  const read = (inner: ts.Expression) => getConfigRequirements(inner, resolve, seen);
+  
+  if (ts.isParenthesizedExpression(expression)) return read(expression.expression);
+  if (ts.isIdentifier(expression)) {
+    const target = resolve(expression);
+    return target && !seen.has(target) ? getConfigRequirements(target, resolve, new Set([...seen, target])) : [];
+  }
+  if (!ts.isCallExpression(expression)) return [];
+  
+  const callee = expression.expression;
+  const args = Array.from(expression.arguments);
+  
+  // Stages apply in order to what is piped
+  if (ts.isPropertyAccessExpression(callee) && callee.name.text === 'pipe') {
+    return args.reduce((requirements, stage) => applyStage(requirements, stage), read(callee.expression));
+  }
+  
+  // `Config.literal("dev", "prod")("MODE")`
+  if (ts.isCallExpression(callee) && getConfigMember(callee.expression) === 'literal') {
+    const key = args[0];
+    return key && ts.isStringLiteralLike(key) ? [{ key: key.text, type: 'literal' }] : [];
+  }
+  
+  const member = getConfigMember(callee);
+  if (!member) return [];
+  
+  const primitive = PRIMITIVES[member];
+  if (primitive) {
+    const key = args[0];
+    if (key && ts.isStringLiteralLike(key)) return [{ key: key.text, type: primitive }];
+    // `Config.redacted(Config.string("API_KEY"))`
+    return key ? read(key).map(requirement => ({ ...requirement, type: primitive })) : [];
+  }
+  
+  const collection = COLLECTIONS[member];
+  if (collection) {
+    const [inner, key] = args;
+    const innerMember = inner && ts.isCallExpression(inner) ? getConfigMember(inner.expression) : undefined;
+    const innerType = innerMember && PRIMITIVES[innerMember] || 'unknown';
+    return key && ts.isStringLiteralLike(key) ? [{ key: key.text, type: `${collection}<${innerType}>` }] : [];
+  }
+  
+  if (member === 'all') {
+    return args.flatMap(arg => getElements(arg)).flatMap(read);
+  }
+  
+  // Data-first combinators: `Config.nested(config, "DB")`
+  const [config, ...rest] = args;
+  return config && args.length === COMBINATORS[member] ? applyCombinator(read(config), member, rest) : [];
+};
+
+// Pure function to tell whether a call reads config or supplies a ConfigProvider
+// Only the outermost call of a chain counts: `Config.string("HOST")` inside
+// `Config.nested(Config.string("HOST"), "DB")` is read as part of the latter
+export const getConfigSiteKind = (node: ts.CallExpression): ConfigSiteKind | undefined => {
+  const kind = isConfigExpression(node) ? 'config' : isConfigProviderCall(node) ? 'provider' : undefined;
+  if (!kind) return undefined;
+  
+  let current = node.parent;
+  while (current && (ts.isCallExpression(current) || ts.isPropertyAccessExpression(current) ||
+         ts.isArrayLiteralExpression(current) || ts.isObjectLiteralExpression(current) ||
+         ts.isPropertyAssignment(current) || ts.isParenthesizedExpression(current))) {
+    if (ts.isCallExpression(current) && (kind === 'config' ? isConfigExpression(current) : isConfigProviderCall(current))) {
+      return undefined;
+    }
+    current = current.parent;
+  }
+  return kind;
+};
+
+// Callee naming a provider call, e.g. "ConfigProvider.fromMap" for `ConfigProvider.fromMap(env).pipe(...)`
+export const getProviderOperator = (node: ts.CallExpression): string => {
+  const callee = node.expression;
+  if (ts.isPropertyAccessExpression(callee) && callee.name.text === 'pipe' && ts.isCallExpression(callee.expression)) {
+    return getProviderOperator(callee.expression);
+  }
+  return callee.getText();
+};
+
+// Pure function to list, per route or worker, every config key it needs through the effects it runs
+// A service it uses needs what the layers building that service read: the walk goes on from a
+// service or its members into the effects of those layers
+export const buildConfigInventory = (railway: EffectRailway, layerGraph: LayerGraph): ConfigInventoryEntry[] => {
+  const nodes = new Map(railway.nodes.map(node => [node.id, node]));
+  const runs = new Map<string, string[]>();
+  railway.edges.forEach(edge => {
+    if (RUN_EDGES.some(type => type === edge.type)) runs.set(edge.source, [...(runs.get(edge.source) || []), edge.target]);
+  });
+  const builtBy = new Map<string, string[]>();
+  layerGraph.layers.forEach(layer => layer.services.forEach(serviceId => {
+    builtBy.set(serviceId, [...(builtBy.get(serviceId) || []), ...layer.effects]);
+  }));
+  
+  const workers = railway.nodes.filter(node => node.type === 'worker').map(node => node.id);
+  const entries = Array.from(new Set([...railway.entryPoints, ...workers]));
+  
+  return entries.flatMap(entryId => {
+    const keys = new Map<string, ConfigKey>();
+    const visited = new Set<string>([entryId]);
+    const pending = [entryId];
+    for (let nodeId = pending.pop(); nodeId; nodeId = pending.pop()) {
+      const readerId = nodeId;
+      const reader = nodes.get(readerId);
+      const serviceId = reader?.service ? readerId : reader?.memberOf;
+      reader?.config?.forEach(requirement => {
+        const existing = keys.get(requirement.key);
+        keys.set(requirement.key, existing ?
+          { ...existing, readBy: Array.from(new Set([...existing.readBy, readerId])) } :
+          { ...requirement, readBy: [readerId] });
+      });
+      [...(runs.get(readerId) || []), ...(serviceId && builtBy.get(serviceId) || [])].forEach(targetId => {
+        if (visited.has(targetId)) return;
+        visited.add(targetId);
+        pending.push(targetId);
+      });
+    }
+    
+    const sorted = Array.from(keys.values()).sort((a, b) => a.key.localeCompare(b.key));
+    return sorted.length > 0 ? [{ entryId, keys: sorted }] : [];
+  });
+};
+
+// Pure function to write a .env.example with every key of the inventory, defaults filled in
+export const generateEnvExample = (inventory: ConfigInventoryEntry[]): string => {
+  const keys = new Map<string, { key: ConfigKey; entries: string[] }>();
+  inventory.forEach(entry => entry.keys.forEach(key => {
+    const existing = keys.get(key.key);
+    keys.set(key.key, { key: existing?.key || key, entries: [...(existing?.entries || []), entry.entryId] });
+  }));
+  
+  return Array.from(keys.values())
+    .sort((a, b) => a.key.key.localeCompare(b.key.key))
+    .map(({ key, entries }) => {
+      const notes = [key.type, ...(key.optional ? ['optional'] : []), ...(key.default !== undefined ? [`default ${key.default}`] : [])];
+      return `# ${notes.join(', ')}; needed by ${entries.join(', ')}\n${key.key}=${key.type === 'redacted' ? '' : key.default || ''}\n`;
+    })
+    .join('\n');
+};
+
+// `Config.nested("DB")`, `Config.withDefault(8080)` or a bare `Config.option` as a pipe stage
+const applyStage = (requirements: ConfigRequirement[], stage: ts.Expression): ConfigRequirement[] => {
+  if (ts.isPropertyAccessExpression(stage)) {
+    const member = getConfigMember(stage);
+    return member ? applyCombinator(requirements, member, []) : requirements;
+  }
+  if (ts.isCallExpression(stage)) {
+    const member = getConfigMember(stage.expression);
+    return member ? applyCombinator(requirements, member, Array.from(stage.arguments)) : requirements;
+  }
+  return requirements;
+};
+
+const applyCombinator = (requirements: ConfigRequirement[], member: string, args: ts.Expression[]): ConfigRequirement[] => {
+  const [arg] = args;
+  if (member === 'nested' && arg && ts.isStringLiteralLike(arg)) {
+    return requirements.map(requirement => ({ ...requirement, key: `${arg.text}_${requirement.key}` }));
+  }
+  if (member === 'withDefault' && arg) {
+    const value = ts.isStringLiteralLike(arg) ? arg.text : describeExpression(arg);
+    return requirements.map(requirement => ({ ...requirement, default: value }));
+  }
+  if (member === 'option') {
+    return requirements.map(requirement => ({ ...requirement, optional: true }));
+  }
+  return requirements;
+};
+
+const getConfigMember = (callee: ts.Expression): string | undefined => {
+  return ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression) && callee.expression.text === 'Config' ?
+         callee.name.text : undefined;
+};
+
+// Builds on the Config module: `Config.string("HOST").pipe(...)`, or `dbConfig.pipe(Config.withDefault(...))`
+const isConfigExpression = (expression: ts.Expression): boolean => {
+  if (getRootName(expression) === 'Config') return true;
+  return ts.isCallExpression(expression) && ts.isPropertyAccessExpression(expression.expression) &&
+         expression.expression.name.text === 'pipe' && expression.arguments.some(stage => getRootName(stage) === 'Config');
+};
+
+// `ConfigProvider.fromMap(...)`, `Layer.setConfigProvider(...)` and `Effect.withConfigProvider(...)`
+const isConfigProviderCall = (node: ts.CallExpression): boolean => {
+  const callee = node.expression;
+  if (ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression) &&
+      ['Layer', 'Effect'].includes(callee.expression.text)) {
+    return ['setConfigProvider', 'withConfigProvider'].includes(callee.name.text);
+  }
+  return getRootName(node) === 'ConfigProvider';
+};
+
+// Identifier a chain of calls and member accesses starts from
+const getRootName = (expression: ts.Expression): string | undefined => {
+  let current = expression;
+  while (ts.isCallExpression(current) || ts.isPropertyAccessExpression(current)) {
+    current = current.expression;
+  }
+  return ts.isIdentifier(current) ? current.text : undefined;
+};
+
+// Configs of an array or struct literal; anything else is a single config
+const getElements = (configs: ts.Expression): ts.Expression[] => {
+  if (ts.isArrayLiteralExpression(configs)) return Array.from(configs.elements);
+  if (ts.isObjectLiteralExpression(configs)) {
+    return configs.properties.flatMap(prop =>
+      ts.isPropertyAssignment(prop) ? [prop.initializer] :
+      ts.isShorthandPropertyAssignment(prop) ? [prop.name] : []);
+  }
+  return [configs];
+};
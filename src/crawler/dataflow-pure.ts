@@ -0,0 +1,134 @@
+/**
+ * Purpose: Pure classification of Stream, Sink, Schedule, STM, Queue and PubSub values, and of
+ *          the Queue/PubSub operations that produce and consume messages
+ * Dependencies: TypeScript Compiler API, Effect type helpers
+ * 
+ * Example Input:
+ * ```
+ * getConstructorModule(<Stream.range(1, 10)>)
+ * getMessageSite(<Queue.offer(jobs, job)>, checker)
+ * ```
+ * 
+ * Expected Output:
+ * ```
+ * 'stream'
+ * { role: 'producer', kind: 'queue', instance: <jobs> }
+ * ```
+ */
+
+import * as ts from 'typescript';
+import type { DataflowNodeType } from '../types/effect-node.js';
+import { getEffectChannels } from './effect-types-pure.js';
+
+export type MessageRole = 'producer' | 'consumer';
+
+// A Queue / PubSub operation and the instance it works on
+export interface MessageSite {
+  role: MessageRole;
+  kind: 'queue' | 'pubsub';
+  instance: ts.Expression;
+}
+
+// Modules whose constructors build each kind of value
+const DATAFLOW_MODULES: Record<string, DataflowNodeType> = {
+  Stream: 'stream',
+  Sink: 'sink',
+  Schedule: 'schedule',
+  STM: 'stm',
+  TRef: 'stm',
+  TMap: 'stm',
+  TSet: 'stm',
+  TQueue: 'stm',
+  TArray: 'stm',
+  Queue: 'queue',
+  PubSub: 'pubsub'
+};
+
+// Names the checker reports for the value types
+const DATAFLOW_TYPE_NAMES: Record<string, DataflowNodeType> = {
+  ...DATAFLOW_MODULES,
+  Enqueue: 'queue',
+  Dequeue: 'queue'
+};
+
+// Operations by module, with the arguments their data-first form takes
+const MESSAGE_OPERATIONS: Record<'queue' | 'pubsub', Record<string, [MessageRole, number]>> = {
+  queue: {
+    offer: ['producer', 2],
+    offerAll: ['producer', 2],
+    unsafeOffer: ['producer', 2],
+    take: ['consumer', 1],
+    takeAll: ['consumer', 1],
+    takeUpTo: ['consumer', 2],
+    takeN: ['consumer', 2],
+    takeBetween: ['consumer', 3],
+    poll: ['consumer', 1]
+  },
+  pubsub: {
+    publish: ['producer', 2],
+    publishAll: ['producer', 2],
+    unsafePublish: ['producer', 2],
+    subscribe: ['consumer', 1]
+  }
+};
+
+// Pure function to find the module of a constructor call:
+// `Stream.range(1, 10)`, `Schedule.spaced("1 second")`, `Queue.bounded<Job>(100)`
+export const getConstructorModule = (expression: ts.Expression): DataflowNodeType | undefined => {
+  if (!ts.isCallExpression(expression)) return undefined;
+  let callee = expression.expression;
+  while (ts.isCallExpression(callee)) callee = callee.expression;
+  return ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression) ?
+         DATAFLOW_MODULES[callee.expression.text] : undefined;
+};
+
+// Pure function to classify a type: a Stream, Sink, Schedule or STM value, an effect that
+// makes a Queue or PubSub, or a function returning any of them
+export const getDataflowTypeOfType = (type: ts.Type, checker: ts.TypeChecker): DataflowNodeType | undefined => {
+  const classify = (candidate: ts.Type): DataflowNodeType | undefined => {
+    const direct = getTypeNameKind(candidate);
+    if (direct) return direct;
+    const success = getEffectChannels(candidate, checker)?.[0];
+    return success ? getTypeNameKind(success) : undefined;
+  };
+  
+  const signature = type.getCallSignatures()[0];
+  return classify(type) || (signature ? classify(checker.getReturnTypeOfSignature(signature)) : undefined);
+};
+
+// Pure function to recognize a Queue / PubSub producer or consumer:
+// `Queue.offer(queue, x)`, `Queue.take(queue)`, `PubSub.publish(pubsub, x)`, `PubSub.subscribe(pubsub)`
+// and, with a checker, the method forms `queue.offer(x)`, `queue.take`, `pubsub.publish(x)`
+export const getMessageSite = (
+  node: ts.CallExpression | ts.PropertyAccessExpression,
+  checker: ts.TypeChecker | undefined
+): MessageSite | undefined => {
+  if (ts.isCallExpression(node)) {
+    const callee = node.expression;
+    if (!ts.isPropertyAccessExpression(callee) || !ts.isIdentifier(callee.expression)) return undefined;
+    const kind = callee.expression.text === 'Queue' ? 'queue' : callee.expression.text === 'PubSub' ? 'pubsub' : undefined;
+    const operation = kind && MESSAGE_OPERATIONS[kind][callee.name.text];
+    const instance = node.arguments[0];
+    return kind && operation && instance && node.arguments.length >= operation[1] ?
+           { role: operation[0], kind, instance } : undefined;
+  }
+  
+  // Only members named like an operation are worth asking the checker about
+  const member = node.name.text;
+  if (!checker || !(member in MESSAGE_OPERATIONS.queue || member in MESSAGE_OPERATIONS.pubsub)) return undefined;
+  if (ts.isIdentifier(node.expression) && ['Queue', 'PubSub'].includes(node.expression.text)) return undefined;
+  
+  try {
+    const receiverKind = getTypeNameKind(checker.getTypeAtLocation(node.expression));
+    const kind = receiverKind === 'queue' || receiverKind === 'pubsub' ? receiverKind : undefined;
+    const operation = kind && MESSAGE_OPERATIONS[kind][member];
+    return kind && operation ? { role: operation[0], kind, instance: node.expression } : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const getTypeNameKind = (type: ts.Type): DataflowNodeType | undefined => {
+  const name = (type.aliasSymbol || type.getSymbol())?.getName();
+  return name && Object.prototype.hasOwnProperty.call(DATAFLOW_TYPE_NAMES, name) ? DATAFLOW_TYPE_NAMES[name] : undefined;
+};
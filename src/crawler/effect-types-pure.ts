@@ -0,0 +1,189 @@
+/**
+ * Purpose: Pure helpers that read Effect and Layer channels through the TypeScript checker
+ * Dependencies: TypeScript Compiler API
+ * 
+ * Example Input:
+ * ```
+ * signatureFromType(checker.getTypeAtLocation(node), checker)
+ * ```
+ * 
+ * Expected Output:
+ * ```
+ * { success: "User", error: ["UserNotFound"], dependencies: ["UserRepo"] }
+ * ```
+ */
+
+import * as ts from 'typescript';
+import type { EffectSignature } from '../types/effect-node.js';
+
+// Builds a signature from an Effect type or a function returning one
+export const signatureFromType = (
+  type: ts.Type,
+  checker: ts.TypeChecker
+): EffectSignature | undefined => {
+  const channels = getEffectChannels(type, checker) || getEffectChannelsFromReturn(type, checker);
+  if (!channels) return undefined;
+  
+  const [success, error, requirements] = channels;
+  return {
+    success: formatType(success, checker),
+    error: splitUnionType(error, checker),
+    dependencies: splitUnionType(requirements, checker)
+  };
+};
+
+// Functions returning an Effect take their channels from the return type
+export const getEffectChannelsFromReturn = (
+  type: ts.Type,
+  checker: ts.TypeChecker
+): readonly [ts.Type, ts.Type, ts.Type] | undefined => {
+  const signature = type.getCallSignatures()[0];
+  if (!signature) return undefined;
+  return getEffectChannels(checker.getReturnTypeOfSignature(signature), checker);
+};
+
+// Reads A, E and R from an Effect type reference, or from the variance
+// struct that every Effect subtype (Option, Either, Tag, ...) carries
+export const getEffectChannels = (
+  type: ts.Type,
+  checker: ts.TypeChecker
+): readonly [ts.Type, ts.Type, ts.Type] | undefined => {
+  const symbolName = (type.aliasSymbol || type.getSymbol())?.getName();
+  if (symbolName === 'Effect') {
+    const args = type.aliasTypeArguments || (isTypeReference(type) ? checker.getTypeArguments(type) : []);
+    const [success, error, requirements] = args;
+    if (success && error && requirements) {
+      return [success, error, requirements];
+    }
+  }
+  
+  const varianceSymbol = type.getProperties().find(prop => prop.getName().includes('EffectTypeId'));
+  if (!varianceSymbol) return undefined;
+  
+  const variance = checker.getTypeOfSymbol(varianceSymbol);
+  const success = getVarianceChannel(variance, '_A', checker);
+  const error = getVarianceChannel(variance, '_E', checker);
+  const requirements = getVarianceChannel(variance, '_R', checker);
+  
+  return success && error && requirements ? [success, error, requirements] : undefined;
+};
+
+// Reads ROut, E and RIn from a Layer type reference or its variance struct
+export const getLayerChannels = (
+  type: ts.Type,
+  checker: ts.TypeChecker
+): readonly [ts.Type, ts.Type, ts.Type] | undefined => {
+  const symbolName = (type.aliasSymbol || type.getSymbol())?.getName();
+  if (symbolName === 'Layer') {
+    const args = type.aliasTypeArguments || (isTypeReference(type) ? checker.getTypeArguments(type) : []);
+    const [provides, error, requires] = args;
+    if (provides && error && requires) {
+      return [provides, error, requires];
+    }
+  }
+  
+  const varianceSymbol = type.getProperties().find(prop => prop.getName().includes('LayerTypeId'));
+  if (!varianceSymbol) return undefined;
+  
+  const variance = checker.getTypeOfSymbol(varianceSymbol);
+  const provides = getContravariantChannel(variance, '_ROut', checker);
+  const error = getVarianceChannel(variance, '_E', checker);
+  const requires = getVarianceChannel(variance, '_RIn', checker);
+  
+  return provides && error && requires ? [provides, error, requires] : undefined;
+};
+
+// Contravariant channels are encoded as `(_: T) => void`
+const getContravariantChannel = (
+  variance: ts.Type,
+  channel: string,
+  checker: ts.TypeChecker
+): ts.Type | undefined => {
+  const symbol = variance.getProperty(channel);
+  const parameter = symbol && checker.getTypeOfSymbol(symbol).getCallSignatures()[0]?.parameters[0];
+  return parameter ? checker.getTypeOfSymbol(parameter) : undefined;
+};
+
+// Variance channels are encoded as `(_: never) => T`
+export const getVarianceChannel = (
+  variance: ts.Type,
+  channel: string,
+  checker: ts.TypeChecker
+): ts.Type | undefined => {
+  const symbol = variance.getProperty(channel);
+  if (!symbol) return undefined;
+  const channelType = checker.getTypeOfSymbol(symbol);
+  const signature = channelType.getCallSignatures()[0];
+  return signature ? checker.getReturnTypeOfSignature(signature) : channelType;
+};
+
+// A type and the types it is built from: union and intersection members and type arguments,
+// so `readonly User[]` and `Option<User>` both contain `User`
+export const getTypeParts = (type: ts.Type, checker: ts.TypeChecker): ts.Type[] => {
+  const parts = new Set<ts.Type>();
+  const visit = (current: ts.Type) => {
+    if (parts.has(current)) return;
+    parts.add(current);
+    if (current.isUnionOrIntersection()) current.types.forEach(visit);
+    current.aliasTypeArguments?.forEach(visit);
+    if (isTypeReference(current)) checker.getTypeArguments(current).forEach(visit);
+  };
+  visit(type);
+  return Array.from(parts);
+};
+
+export const isTypeReference = (type: ts.Type): type is ts.TypeReference => {
+  return (type.flags & ts.TypeFlags.Object) !== 0 &&
+         ((type as ts.ObjectType).objectFlags & ts.ObjectFlags.Reference) !== 0;
+};
+
+// `never` means an empty channel; anonymous unions and intersections list each member,
+// while a named alias such as `type AppError = NotFound | Timeout` stays one entry
+export const splitUnionType = (type: ts.Type, checker: ts.TypeChecker): string[] => {
+  if (type.flags & ts.TypeFlags.Never) return [];
+  if (type.aliasSymbol) {
+    const args = type.aliasTypeArguments?.map(arg => formatType(arg, checker)) || [];
+    return [args.length > 0 ? `${type.aliasSymbol.getName()}<${args.join(', ')}>` : type.aliasSymbol.getName()];
+  }
+  if (type.isUnion() || type.isIntersection()) {
+    return type.types.map(member => formatType(member, checker)).sort();
+  }
+  return [formatType(type, checker)];
+};
+
+const printer = ts.createPrinter({ removeComments: true });
+const printFile = ts.createSourceFile('type.ts', '', ts.ScriptTarget.Latest);
+
+const printTypeNode = (node: ts.Node): string => printer.printNode(ts.EmitHint.Unspecified, node, printFile);
+
+// Prints a type like checker.typeToString, with union members and object type members sorted at every depth
+// The checker orders them by internal type IDs (object members too, for mapped types such as
+// Schema types with optional fields), which depend on which files were checked first;
+// sorting keeps output identical across runs and worker threads
+export const formatType = (type: ts.Type, checker: ts.TypeChecker): string => {
+  const typeNode = checker.typeToTypeNode(type, undefined,
+                                          ts.NodeBuilderFlags.NoTruncation | ts.NodeBuilderFlags.IgnoreErrors);
+  if (!typeNode) return checker.typeToString(type, undefined, ts.TypeFormatFlags.NoTruncation);
+  
+  const sortByText = <T extends ts.Node>(nodes: readonly T[]): T[] => nodes
+    .map(member => ({ member, text: printTypeNode(member) }))
+    .sort((a, b) => a.text < b.text ? -1 : a.text > b.text ? 1 : 0)
+    .map(({ member }) => member);
+  
+  const sortUnions: ts.TransformerFactory<ts.Node> = context => {
+    const visit = (node: ts.Node): ts.Node => {
+      const visited = ts.visitEachChild(node, visit, context);
+      if (ts.isTypeLiteralNode(visited)) {
+        return context.factory.updateTypeLiteralNode(visited, context.factory.createNodeArray(sortByText(visited.members)));
+      }
+      if (!ts.isUnionTypeNode(visited)) return visited;
+      return context.factory.updateUnionTypeNode(visited, context.factory.createNodeArray(sortByText(visited.types)));
+    };
+    return visit;
+  };
+  
+  const result = ts.transform(typeNode, [sortUnions]);
+  const text = printTypeNode(result.transformed[0] as ts.Node);
+  result.dispose();
+  return text;
+};
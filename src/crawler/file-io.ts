@@ -4,7 +4,12 @@
  * 
  * Example Input:
  * ```
- * loadSourceFiles("../backend/src")
+ * loadProject("../backend/src")
+ * loadProject("../backend/src", { tsconfigPath: "../backend/tsconfig.json" })
+ * loadProject("../frontend/src", { extensions: [".ts", ".tsx"], allowJs: true })
+ * loadProject("../monorepo", { workspace: true })
+ * loadProject("../backend/src", { rulesPath: "./effect-railway.rules.json" })
+ * hashProjectSources("../backend/src")
  * ```
  * 
  * Expected Output:
@@ -16,10 +21,43 @@
 import * as ts from 'typescript';
 import * as fs from 'fs';
 import * as path from 'path';
+import { createHash } from 'crypto';
+import { glob } from 'glob';
 import type { SourceFileInput } from './ast-analyzer-pure.js';
+import type { FunctionAnalysisCache } from '../analyzer/function-analyzer-types.js';
+import { getPackageJsonWorkspaces, parsePnpmWorkspace, findPackage, withWorkspacePaths } from './workspace-pure.js';
+import type { WorkspacePackage } from './workspace-pure.js';
+import { DEFAULT_CLASSIFICATION_RULES, parseClassificationRules } from './classification-rules-pure.js';
+import type { ClassificationRules } from '../types/effect-node.js';
+
+export const TS_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts'];
+export const JS_EXTENSIONS = ['.js', '.jsx', '.mjs', '.cjs'];
+
+// Which files a project load picks up
+export interface ProjectOptions {
+  tsconfigPath?: string;   // Files and compiler options come from this tsconfig when given
+  extensions?: string[];   // Directory walk extensions; defaults to TS_EXTENSIONS
+  allowJs?: boolean;       // Adds JS_EXTENSIONS; JSDoc types then feed Effect signatures
+  workspace?: boolean;     // Root is an npm/pnpm workspace; every package is walked and package names resolve to sources
+  rulesPath?: string;      // Classification rules file; defaults to RULES_FILE_NAME in the root when present
+}
+
+// Rules file picked up from the analyzed root without a rulesPath
+export const RULES_FILE_NAME = 'effect-railway.rules.json';
+
+// Declaration files and JSON modules carry no functions or effects
+const isAnalyzableFile = (fileName: string): boolean => {
+  return !/\.d\.[cm]?ts$/.test(fileName) && !fileName.endsWith('.json');
+};
+
+// Pure function to resolve the extensions a directory walk accepts
+export const getSourceExtensions = (options: ProjectOptions): string[] => {
+  const extensions = options.extensions || TS_EXTENSIONS;
+  return Array.from(new Set(options.allowJs ? [...extensions, ...JS_EXTENSIONS] : extensions));
+};
 
 // IO function to find TypeScript files
-export const findTypeScriptFiles = (dir: string): string[] => {
+export const findTypeScriptFiles = (dir: string, extensions: string[] = TS_EXTENSIONS): string[] => {
   const files: string[] = [];
   
   const traverse = (currentDir: string) => {
@@ -33,7 +71,7 @@ export const findTypeScriptFiles = (dir: string): string[] => {
       
       if (stat.isDirectory() && !entry.includes('node_modules') && !entry.includes('.git')) {
         traverse(fullPath);
-      } else if (entry.endsWith('.ts') && !entry.endsWith('.d.ts')) {
+      } else if (extensions.some(extension => entry.endsWith(extension)) && isAnalyzableFile(entry)) {
         files.push(fullPath);
       }
     }
@@ -65,18 +103,219 @@ export const loadSourceFile = async (filePath: string): Promise<SourceFileInput
   }
 };
 
-// IO function to load all source files from a path
-export const loadSourceFiles = async (rootPath: string): Promise<SourceFileInput[]> => {
-  const filePaths = findTypeScriptFiles(rootPath);
+// IO function to read a JSON file; missing or malformed files read as undefined
+const readJsonFile = (filePath: string): unknown => {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch {
+    return undefined;
+  }
+};
+
+// IO function to read the classification rules of a project: the given rules file, or the
+// root's RULES_FILE_NAME when present. Unreadable files fall back to the default rules
+export const readClassificationRules = (rootDir: string, rulesPath?: string): ClassificationRules => {
+  const filePath = rulesPath || path.join(rootDir, RULES_FILE_NAME);
+  if (!rulesPath && !fs.existsSync(filePath)) return DEFAULT_CLASSIFICATION_RULES;
+  
+  const value = readJsonFile(filePath);
+  if (value === undefined) {
+    console.warn(`Failed to read classification rules ${filePath}; using the default rules`);
+    return DEFAULT_CLASSIFICATION_RULES;
+  }
+  const { rules, warnings } = parseClassificationRules(value);
+  warnings.forEach(message => console.warn(`${filePath}: ${message}`));
+  return rules;
+};
+
+// IO function to find the packages of an npm/yarn (`workspaces` in package.json) or
+// pnpm (pnpm-workspace.yaml) workspace, sorted by directory. `!pattern` entries exclude packages
+export const readWorkspacePackages = (rootDir: string): WorkspacePackage[] => {
+  const pnpmWorkspacePath = path.join(rootDir, 'pnpm-workspace.yaml');
+  const patterns = fs.existsSync(pnpmWorkspacePath) ?
+                   parsePnpmWorkspace(fs.readFileSync(pnpmWorkspacePath, 'utf-8')) :
+                   getPackageJsonWorkspaces(readJsonFile(path.join(rootDir, 'package.json')));
+  const toManifestGlob = (pattern: string): string => `${pattern.replace(/^\.\//, '').replace(/\/+$/, '')}/package.json`;
+  
+  const manifests = glob.sync(patterns.filter(pattern => !pattern.startsWith('!')).map(toManifestGlob), {
+    cwd: rootDir,
+    ignore: ['**/node_modules/**', ...patterns.filter(pattern => pattern.startsWith('!')).map(pattern => toManifestGlob(pattern.slice(1)))],
+    absolute: true
+  });
+  
+  return manifests
+    .sort()
+    .flatMap(manifestPath => {
+      const name = (readJsonFile(manifestPath) as { name?: unknown } | undefined)?.name;
+      return typeof name === 'string' ? [{ name, dir: path.dirname(manifestPath) }] : [];
+    });
+};
+
+// Loaded project: source inputs plus the checker that resolves their types
+export interface LoadedProject {
+  sourceFiles: SourceFileInput[];
+  program: ts.Program;
+  checker: ts.TypeChecker;
+  rootDir: string;                // Node IDs name files relative to this directory
+  packages: WorkspacePackage[];   // Empty outside workspace mode
+  classification: ClassificationRules;
+}
+
+// Files and compiler options as tsc sees them for a tsconfig.json
+export interface ProjectConfig {
+  configPath: string;
+  fileNames: string[];            // Source files of the project and every referenced project
+  options: ts.CompilerOptions;
+  references: string[];           // Resolved tsconfig paths of referenced projects
+  diagnostics: string[];
+}
+
+// "No inputs were found in config file" is expected for solution-style roots
+const NO_INPUTS_FOUND = 18003;
+
+// IO function to read a tsconfig.json, following `extends` and project references.
+// include/exclude, paths/baseUrl and jsx come from tsc's own config parser
+export const readProjectConfig = (configPath: string): ProjectConfig => {
+  const rootConfigPath = path.resolve(configPath);
+  const visited = new Set<string>();
+  const fileNames = new Set<string>();
+  const diagnostics: string[] = [];
+  let options: ts.CompilerOptions | undefined;
+  
+  const visit = (currentPath: string) => {
+    if (visited.has(currentPath)) return;
+    visited.add(currentPath);
+    
+    const { config, error } = ts.readConfigFile(currentPath, ts.sys.readFile);
+    if (error) {
+      throw new Error(`Failed to read ${currentPath}: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`);
+    }
+    
+    const parsed = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(currentPath), undefined, currentPath);
+    parsed.errors
+      .filter(diagnostic => diagnostic.code !== NO_INPUTS_FOUND)
+      .forEach(diagnostic => diagnostics.push(ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')));
+    
+    const sources = parsed.fileNames.filter(isAnalyzableFile);
+    sources.forEach(fileName => fileNames.add(fileName));
+    
+    // Solution-style roots (`files: []`) take their options from the first real project
+    if (!options && (sources.length > 0 || !parsed.projectReferences?.length)) {
+      options = parsed.options;
+    }
+    
+    parsed.projectReferences?.forEach(reference => visit(ts.resolveProjectReferencePath(reference)));
+  };
+  
+  visit(rootConfigPath);
+  
+  return {
+    configPath: rootConfigPath,
+    fileNames: Array.from(fileNames),
+    options: options || {},
+    references: Array.from(visited).filter(visitedPath => visitedPath !== rootConfigPath),
+    diagnostics
+  };
+};
+
+// Compiler options for a directory walk without a tsconfig
+export const createDefaultCompilerOptions = (allowJs: boolean): ts.CompilerOptions => ({
+  target: ts.ScriptTarget.Latest,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  strict: true,
+  allowJs,
+  jsx: ts.JsxEmit.Preserve,
+  skipLibCheck: true,
+  noEmit: true
+});
+
+// IO function to create a type-checked program over the given files
+// Referenced projects are compiled from source, so imports resolve to their .ts files
+// rather than to build outputs that may not exist
+export const createAnalysisProgram = (
+  filePaths: string[],
+  options: ts.CompilerOptions = createDefaultCompilerOptions(false)
+): ts.Program => {
+  return ts.createProgram(filePaths, { ...options, noEmit: true });
+};
+
+// IO function to load a project with type information
+// With a tsconfig, files and module resolution match what tsc sees for that project
+// A tsconfig's own allowJs and include patterns take precedence over extensions/allowJs
+// In workspace mode every package is walked, and imports of a package name resolve to its sources
+export const loadProject = async (rootPath: string, options: ProjectOptions = {}): Promise<LoadedProject> => {
+  const { projectConfig, packages, filePaths } = selectProjectFiles(rootPath, options);
+  projectConfig?.diagnostics.forEach(message => console.warn(`tsconfig: ${message}`));
+  if (options.workspace && packages.length === 0) {
+    console.warn(`No workspace packages found in ${rootPath}; analyzing it as a single directory`);
+  }
+  
+  const compilerOptions = projectConfig ? projectConfig.options : createDefaultCompilerOptions(options.allowJs === true);
+  const program = createAnalysisProgram(
+    filePaths,
+    packages.length > 0 ? withWorkspacePaths(compilerOptions, packages) : compilerOptions
+  );
   const sourceFiles: SourceFileInput[] = [];
   
   for (const filePath of filePaths) {
-    const sourceFile = await loadSourceFile(filePath);
+    const sourceFile = program.getSourceFile(filePath);
     if (sourceFile) {
-      sourceFiles.push(sourceFile);
+      const pkg = findPackage(packages, filePath);
+      sourceFiles.push({
+        path: filePath,
+        content: sourceFile.text,
+        sourceFile,
+        ...(pkg && { package: pkg.name })
+      });
+    } else {
+      console.warn(`Failed to load file ${filePath}`);
     }
   }
   
+  return {
+    sourceFiles,
+    program,
+    checker: program.getTypeChecker(),
+    rootDir: path.resolve(rootPath),
+    packages,
+    classification: readClassificationRules(rootPath, options.rulesPath)
+  };
+};
+
+// IO function to pick the files a project load reads: the tsconfig's, every workspace package's,
+// or a walk of the root
+const selectProjectFiles = (
+  rootPath: string,
+  options: ProjectOptions
+): { projectConfig: ProjectConfig | undefined; packages: WorkspacePackage[]; filePaths: string[] } => {
+  const projectConfig = options.tsconfigPath ? readProjectConfig(options.tsconfigPath) : undefined;
+  const packages = options.workspace ? readWorkspacePackages(rootPath) : [];
+  const extensions = getSourceExtensions(options);
+  const filePaths = projectConfig ? projectConfig.fileNames :
+                    packages.length > 0 ? Array.from(new Set(packages.flatMap(pkg => findTypeScriptFiles(pkg.dir, extensions)))) :
+                    findTypeScriptFiles(rootPath, extensions);
+  return { projectConfig, packages, filePaths };
+};
+
+// IO function to hash what a project load reads: the options, the tsconfigs, every source file and
+// the rules file. Equal hashes mean loading and analyzing the project again gives the same result
+export const hashProjectSources = (rootPath: string, options: ProjectOptions = {}): string => {
+  const { projectConfig, filePaths } = selectProjectFiles(rootPath, options);
+  const inputs = [
+    ...(projectConfig ? [projectConfig.configPath, ...projectConfig.references] : []),
+    ...[...filePaths].sort(),
+    options.rulesPath || path.join(rootPath, RULES_FILE_NAME)
+  ];
+  return inputs
+    .reduce((hash, filePath) => hash.update(`\0${filePath}\0`).update(readSourceText(filePath)),
+            createHash('sha256').update(JSON.stringify({ rootPath: path.resolve(rootPath), options })))
+    .digest('hex');
+};
+
+// IO function to load all source files from a path
+export const loadSourceFiles = async (rootPath: string, options: ProjectOptions = {}): Promise<SourceFileInput[]> => {
+  const { sourceFiles } = await loadProject(rootPath, options);
   return sourceFiles;
 };
 
@@ -90,4 +329,28 @@ export const saveAnalysisResult = (result: any, outputPath: string): void => {
 export const loadAnalysisResult = (inputPath: string): any => {
   const json = fs.readFileSync(inputPath, 'utf-8');
   return JSON.parse(json);
+};
+
+// IO function to read a source file's text; unreadable files read as empty
+export const readSourceText = (filePath: string): string => {
+  try {
+    return fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    return '';
+  }
+};
+
+// IO function to load the function analysis cache; missing or corrupt caches start cold
+export const loadFunctionAnalysisCache = (cachePath: string): FunctionAnalysisCache | undefined => {
+  try {
+    return JSON.parse(fs.readFileSync(cachePath, 'utf-8'));
+  } catch {
+    return undefined;
+  }
+};
+
+// IO function to save the function analysis cache
+export const saveFunctionAnalysisCache = (cache: FunctionAnalysisCache, cachePath: string): void => {
+  fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+  fs.writeFileSync(cachePath, JSON.stringify(cache), 'utf-8');
 };
\ No newline at end of file
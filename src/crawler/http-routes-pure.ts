@@ -0,0 +1,359 @@
+/**
+ * Purpose: Pure detection of @effect/platform HTTP routes: HttpApi endpoints and HttpRouter registrations
+ * Dependencies: TypeScript Compiler API, crawler helpers
+ * 
+ * Example Input:
+ * ```
+ * collectHttpRoutes(sourceFiles, checker)
+ * ```
+ * 
+ * Expected Output:
+ * ```
+ * [{ route: { framework: 'http-api', method: 'GET', path: '/users/:id', endpoint: 'getUser', group: 'users',
+ *             schemas: { path: 'Schema.Struct({ id: Schema.String })', success: 'User' } },
+ *    qualifiedName: 'getUser', handlers: [<the handler passed to handlers.handle("getUser", ...)>], ... }]
+ * ```
+ */
+
+import * as ts from 'typescript';
+import type { HttpRoute, HttpRouteSchemas } from '../types/effect-node.js';
+import type { SourceFileInput } from './ast-analyzer-pure.js';
+import { getLineNumber, getStringArgument, isNamespaceCall, describeExpression } from './ast-helpers-pure.js';
+import { getQualifiedName } from './node-identity-pure.js';
+import { resolveDeclarations } from './symbol-resolver-pure.js';
+
+// A route found in the source, before it becomes a node
+export interface HttpRouteDefinition {
+  route: HttpRoute;
+  anchor: ts.Node;                          // Expression that declares the route; fingerprinted for its ID
+  declaration: ts.Node | undefined;         // `const getUser = HttpApiEndpoint.get(...)`, if declared on its own
+  qualifiedName: string;
+  filePath: string;
+  line: number;
+  handlers: ts.Expression[];                // Effects or functions returning effects that serve the route
+}
+
+// Group an endpoint was added to, and the prefix the group puts in front of its paths
+interface GroupMembership {
+  group: string;
+  prefix: string;
+}
+
+const ENDPOINT_METHODS: Record<string, string> = {
+  get: 'GET',
+  post: 'POST',
+  put: 'PUT',
+  patch: 'PATCH',
+  del: 'DELETE',
+  head: 'HEAD',
+  options: 'OPTIONS'
+};
+
+const ROUTER_METHODS: Record<string, string> = {
+  ...ENDPOINT_METHODS,
+  all: '*'
+};
+
+// HttpApiEndpoint builder methods that attach schemas
+const ENDPOINT_SCHEMA_SETTERS: Record<string, keyof HttpRouteSchemas> = {
+  setPath: 'path',
+  setUrlParams: 'query',
+  setPayload: 'body',
+  addSuccess: 'success'
+};
+
+// Decoders used inside HttpRouter handlers, by namespace and member
+const ROUTER_SCHEMA_DECODERS: Array<[string, string, keyof HttpRouteSchemas]> = [
+  ['HttpRouter', 'schemaPathParams', 'path'],
+  ['HttpRouter', 'schemaParams', 'path'],
+  ['HttpRouter', 'schemaJson', 'body'],
+  ['HttpServerRequest', 'schemaSearchParams', 'query'],
+  ['HttpServerRequest', 'schemaBodyJson', 'body'],
+  ['HttpServerRequest', 'schemaBodyForm', 'body'],
+  ['HttpServerRequest', 'schemaBodyUrlParams', 'body']
+];
+
+// Main pure function to find every route of the project
+export const collectHttpRoutes = (
+  sourceFiles: SourceFileInput[],
+  checker: ts.TypeChecker | undefined
+): HttpRouteDefinition[] => {
+  const memberships = collectGroupMemberships(sourceFiles, checker);
+  const handlers = collectEndpointHandlers(sourceFiles);
+  const routes: HttpRouteDefinition[] = [];
+  
+  sourceFiles.forEach(fileInput => {
+    const visit = (node: ts.Node) => {
+      const endpoint = getEndpointRoot(node);
+      if (endpoint) {
+        routes.push(createEndpointDefinition(endpoint, fileInput.path, memberships, handlers));
+      }
+      if (ts.isCallExpression(node) && getRouterMethod(node)) {
+        const definition = createRouterDefinition(node, fileInput.path, checker);
+        if (definition) routes.push(definition);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(fileInput.sourceFile);
+  });
+  
+  return routes;
+};
+
+// Whether an Effect.gen or pipeline is written inline as a route handler; the route node
+// takes over what it yields instead of it becoming a node named after the router
+export const isInlineRouteHandler = (node: ts.Node): boolean => {
+  let current = node;
+  while (current.parent && isHandlerWrapper(current, current.parent)) {
+    current = current.parent;
+  }
+  const call = current.parent;
+  if (!call || !ts.isCallExpression(call) || call.arguments[1] !== current) return false;
+  return getRouterMethod(call) !== undefined || isHandleCall(call);
+};
+
+// Pure function to list the effects a handler runs: the handler itself, the body of an arrow
+// handler or what a function handler returns
+export const getHandlerEffects = (handler: ts.Expression): ts.Expression[] => {
+  const unwrapped = skipParentheses(handler);
+  if (!ts.isArrowFunction(unwrapped) && !ts.isFunctionExpression(unwrapped)) return [unwrapped];
+  if (!ts.isBlock(unwrapped.body)) return [skipParentheses(unwrapped.body)];
+  return unwrapped.body.statements.flatMap(statement =>
+    ts.isReturnStatement(statement) && statement.expression ? [skipParentheses(statement.expression)] : []);
+};
+
+const skipParentheses = (node: ts.Expression): ts.Expression => {
+  return ts.isParenthesizedExpression(node) ? skipParentheses(node.expression) : node;
+};
+
+// Parentheses, arrow bodies and returns between a handler effect and the call it is passed to
+const isHandlerWrapper = (child: ts.Node, parent: ts.Node): boolean => {
+  return ts.isParenthesizedExpression(parent) || ts.isReturnStatement(parent) ||
+         (ts.isBlock(parent) && ts.isFunctionLike(parent.parent)) ||
+         ((ts.isArrowFunction(parent) || ts.isFunctionExpression(parent)) && parent.body === child);
+};
+
+// `HttpRouter.get("/users/:id", handler)` -> "GET"
+const getRouterMethod = (node: ts.CallExpression): string | undefined => {
+  const method = Object.keys(ROUTER_METHODS).find(member => isNamespaceCall(node.expression, 'HttpRouter', member));
+  return method && getStringArgument(node, 0) !== undefined && node.arguments[1] ? ROUTER_METHODS[method] : undefined;
+};
+
+// `handlers.handle("getUser", handler)` inside HttpApiBuilder.group
+const isHandleCall = (node: ts.CallExpression): boolean => {
+  return ts.isPropertyAccessExpression(node.expression) &&
+         (node.expression.name.text === 'handle' || node.expression.name.text === 'handleRaw') &&
+         getStringArgument(node, 0) !== undefined && node.arguments[1] !== undefined;
+};
+
+// Start of an endpoint builder chain: `HttpApiEndpoint.get("getUser", "/users/:id")`, or the
+// tagged template of `HttpApiEndpoint.get("getUser")\`/users/${idParam}\``
+const getEndpointRoot = (node: ts.Node): { root: ts.Expression; method: string; name: string; path: string } | undefined => {
+  const call = ts.isTaggedTemplateExpression(node) ? node.tag : node;
+  if (!ts.isCallExpression(call)) return undefined;
+  const member = Object.keys(ENDPOINT_METHODS).find(method => isNamespaceCall(call.expression, 'HttpApiEndpoint', method));
+  const name = getStringArgument(call, 0);
+  if (!member || !name) return undefined;
+  
+  if (ts.isTaggedTemplateExpression(node)) {
+    return { root: node, method: ENDPOINT_METHODS[member]!, name, path: describeTemplatePath(node.template) };
+  }
+  // The tag of a tagged template is reported with the template
+  if (ts.isTaggedTemplateExpression(call.parent) && call.parent.tag === call) return undefined;
+  return { root: call, method: ENDPOINT_METHODS[member]!, name, path: getStringArgument(call, 1) || '/' };
+};
+
+// `/users/${idParam}` -> "/users/:id" when idParam is `HttpApiSchema.param("id", ...)`
+const describeTemplatePath = (template: ts.TemplateLiteral): string => {
+  if (ts.isNoSubstitutionTemplateLiteral(template)) return template.text;
+  return template.templateSpans.reduce(
+    (path, span) => `${path}:${getParamName(span.expression)}${span.literal.text}`,
+    template.head.text
+  );
+};
+
+// Name of a path parameter, following an identifier to its declaration in the same file
+const getParamName = (expression: ts.Expression): string => {
+  if (ts.isCallExpression(expression) && isNamespaceCall(expression.expression, 'HttpApiSchema', 'param')) {
+    return getStringArgument(expression, 0) || 'param';
+  }
+  if (!ts.isIdentifier(expression)) return 'param';
+  
+  let initializer: ts.Expression | undefined;
+  const visit = (node: ts.Node) => {
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.name.text === expression.text) {
+      initializer = node.initializer;
+    }
+    if (!initializer) ts.forEachChild(node, visit);
+  };
+  visit(expression.getSourceFile());
+  return initializer && ts.isCallExpression(initializer) ? getParamName(initializer) : expression.text;
+};
+
+// Calls chained onto a builder: `.setPath(...)`, `.add(...)`, `.prefix(...)`
+const getChainCalls = (root: ts.Expression): { outer: ts.Expression; calls: Array<[string, ts.CallExpression]> } => {
+  const calls: Array<[string, ts.CallExpression]> = [];
+  let outer = root;
+  while (ts.isPropertyAccessExpression(outer.parent) && outer.parent.expression === outer &&
+         ts.isCallExpression(outer.parent.parent) && outer.parent.parent.expression === outer.parent) {
+    calls.push([outer.parent.name.text, outer.parent.parent]);
+    outer = outer.parent.parent;
+  }
+  return { outer, calls };
+};
+
+// Pure function to map endpoints onto the groups they are added to
+// Inline endpoints are keyed by their chain, declared ones by declaration (or by name without a checker)
+const collectGroupMemberships = (
+  sourceFiles: SourceFileInput[],
+  checker: ts.TypeChecker | undefined
+): Map<ts.Node | string, GroupMembership> => {
+  const memberships = new Map<ts.Node | string, GroupMembership>();
+  
+  sourceFiles.forEach(fileInput => {
+    const visit = (node: ts.Node) => {
+      const group = ts.isCallExpression(node) && isNamespaceCall(node.expression, 'HttpApiGroup', 'make') ?
+                    getStringArgument(node, 0) : undefined;
+      if (group && ts.isCallExpression(node)) {
+        const { calls } = getChainCalls(node);
+        const prefix = calls.filter(([method]) => method === 'prefix')
+          .map(([, call]) => getStringArgument(call, 0) || '')
+          .join('');
+        calls.filter(([method]) => method === 'add').flatMap(([, call]) => Array.from(call.arguments)).forEach(endpoint => {
+          const membership = { group, prefix };
+          if (ts.isIdentifier(endpoint)) {
+            const declarations = checker ? resolveDeclarations(checker, endpoint) : [];
+            declarations.forEach(declaration => memberships.set(declaration, membership));
+            if (declarations.length === 0) memberships.set(endpoint.text, membership);
+          } else {
+            memberships.set(endpoint, membership);
+          }
+        });
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(fileInput.sourceFile);
+  });
+  
+  return memberships;
+};
+
+// Pure function to find `handlers.handle("getUser", ...)` inside `HttpApiBuilder.group(Api, "users", ...)`
+// Keyed by `group/endpoint`
+const collectEndpointHandlers = (sourceFiles: SourceFileInput[]): Map<string, ts.Expression[]> => {
+  const handlers = new Map<string, ts.Expression[]>();
+  
+  sourceFiles.forEach(fileInput => {
+    const visit = (node: ts.Node) => {
+      const group = ts.isCallExpression(node) && isNamespaceCall(node.expression, 'HttpApiBuilder', 'group') ?
+                    getStringArgument(node, 1) : undefined;
+      const builder = group && ts.isCallExpression(node) ? node.arguments[2] : undefined;
+      if (group && builder) {
+        const visitBuilder = (child: ts.Node) => {
+          if (ts.isCallExpression(child) && isHandleCall(child)) {
+            const key = `${group}/${getStringArgument(child, 0)}`;
+            handlers.set(key, [...(handlers.get(key) || []), child.arguments[1]!]);
+          }
+          ts.forEachChild(child, visitBuilder);
+        };
+        visitBuilder(builder);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(fileInput.sourceFile);
+  });
+  
+  return handlers;
+};
+
+// Pure function to describe an HttpApiEndpoint chain
+const createEndpointDefinition = (
+  endpoint: { root: ts.Expression; method: string; name: string; path: string },
+  filePath: string,
+  memberships: Map<ts.Node | string, GroupMembership>,
+  handlers: Map<string, ts.Expression[]>
+): HttpRouteDefinition => {
+  const { outer, calls } = getChainCalls(endpoint.root);
+  const schemas: HttpRouteSchemas = {};
+  calls.forEach(([method, call]) => {
+    const slot = ENDPOINT_SCHEMA_SETTERS[method];
+    const schema = call.arguments[0];
+    if (slot && schema && !schemas[slot]) schemas[slot] = describeExpression(schema);
+  });
+  const prefix = calls.filter(([method]) => method === 'prefix').map(([, call]) => getStringArgument(call, 0) || '').join('');
+  
+  const declaration = ts.isVariableDeclaration(outer.parent) && outer.parent.initializer === outer ? outer.parent : undefined;
+  const membership = memberships.get(outer) ||
+                     (declaration && memberships.get(declaration)) ||
+                     (declaration && ts.isIdentifier(declaration.name) ? memberships.get(declaration.name.text) : undefined);
+  const groupPrefix = membership?.prefix || '';
+  const endpointHandlers = membership ? handlers.get(`${membership.group}/${endpoint.name}`) :
+                           findHandlersByEndpoint(handlers, endpoint.name);
+  
+  return {
+    route: {
+      framework: 'http-api',
+      method: endpoint.method,
+      path: `${groupPrefix}${prefix}${endpoint.path}`,
+      endpoint: endpoint.name,
+      ...(membership && { group: membership.group }),
+      schemas
+    },
+    anchor: outer,
+    declaration,
+    qualifiedName: declaration ? getQualifiedName(declaration) : `${getQualifiedName(outer)}.${endpoint.name}`,
+    filePath,
+    line: getLineNumber(endpoint.root),
+    handlers: endpointHandlers || []
+  };
+};
+
+// Endpoints whose group is unknown match a handler by endpoint name, when only one group has it
+const findHandlersByEndpoint = (handlers: Map<string, ts.Expression[]>, endpoint: string): ts.Expression[] | undefined => {
+  const matches = Array.from(handlers).filter(([key]) => key.endsWith(`/${endpoint}`));
+  return matches.length === 1 ? matches[0]![1] : undefined;
+};
+
+// Pure function to describe an `HttpRouter.get(path, handler)` registration
+const createRouterDefinition = (
+  node: ts.CallExpression,
+  filePath: string,
+  checker: ts.TypeChecker | undefined
+): HttpRouteDefinition | undefined => {
+  const method = getRouterMethod(node);
+  const path = getStringArgument(node, 0);
+  const handler = node.arguments[1];
+  if (!method || path === undefined || !handler) return undefined;
+  
+  return {
+    route: {
+      framework: 'http-router',
+      method,
+      path,
+      schemas: collectRouterSchemas(handler, checker)
+    },
+    anchor: node,
+    declaration: undefined,
+    qualifiedName: `${getQualifiedName(node)}.${method} ${path}`,
+    filePath,
+    line: getLineNumber(node),
+    handlers: [handler]
+  };
+};
+
+// Schemas decoded by an HttpRouter handler, inline or declared elsewhere
+const collectRouterSchemas = (handler: ts.Expression, checker: ts.TypeChecker | undefined): HttpRouteSchemas => {
+  const schemas: HttpRouteSchemas = {};
+  const target = ts.isIdentifier(handler) && checker ? resolveDeclarations(checker, handler)[0] || handler : handler;
+  
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node) && node.arguments[0]) {
+      const decoder = ROUTER_SCHEMA_DECODERS.find(([namespace, member]) => isNamespaceCall(node.expression, namespace, member));
+      if (decoder && !schemas[decoder[2]]) schemas[decoder[2]] = describeExpression(node.arguments[0]);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(target);
+  
+  return schemas;
+};
@@ -0,0 +1,792 @@
+/**
+ * Purpose: Pure functional Layer provisioning analysis for Effect TS
+ * Dependencies: TypeScript Compiler API, crawler helpers
+ * 
+ * Example Input:
+ * ```
+ * analyzeLayers(sourceFiles, railway, checker, '/repo')
+ * ```
+ * 
+ * Expected Output:
+ * ```
+ * LayerGraph with provided/required tags per layer, runtime provisions,
+ * unprovided requirements and duplicate provisions
+ * ```
+ */
+
+import * as ts from 'typescript';
+import * as path from 'path';
+import type {
+  AmbiguousReference,
+  EffectNode,
+  EffectRailway,
+  LayerGraph,
+  LayerNode,
+  LayerKind,
+  LayerProvision,
+  UnprovidedRequirement,
+  DuplicateProvision
+} from '../types/effect-node.js';
+import type { SourceFileInput } from './ast-analyzer-pure.js';
+import { getEffectChannels, getLayerChannels, splitUnionType } from './effect-types-pure.js';
+import { getLineNumber, isNamespaceCall, getPipeParts, describeExpression, getRootIdentifier } from './ast-helpers-pure.js';
+import { getRunCall } from './runtime-entries-pure.js';
+import { createNodeId, claimNodeId, getQualifiedName, getFingerprint, toRelativePath } from './node-identity-pure.js';
+import { resolveDeclarations } from './symbol-resolver-pure.js';
+
+// Named layer found in the source
+interface LayerDefinition {
+  id: string;                            // Same file-plus-qualified-name scheme as railway nodes
+  name: string;
+  qualifiedName: string;                 // Canonical name within its file, e.g. `UserService.Default`
+  declaration: ts.Node;
+  expression: ts.Expression | undefined; // Undefined for implicit Effect.Service `.Default` layers
+  service: string | undefined;           // Owning Effect.Service class for `.Default` layers
+  filePath: string;
+  line: number;
+}
+
+// Tags a layer expression provides (with their providers) and requires
+interface LayerShape {
+  providers: Map<string, string[]>;
+  requires: string[];
+  composedOf: string[];
+  duplicates: Array<{ tag: string; providers: string[] }>;
+}
+
+// Something a reference can resolve to: a layer definition or a railway node
+interface ReferenceTarget {
+  id: string;
+  name: string;
+  filePath: string;
+}
+
+// Context shared while evaluating layer expressions
+interface LayerContext {
+  definitions: Map<string, LayerDefinition>;  // Layer ID -> definition
+  layerIds: Map<ts.Node, string>;             // Declaration -> layer ID; a class stands for its `.Default` layer
+  shapes: Map<string, LayerShape>;            // Layer ID -> evaluated shape
+  evaluating: Set<string>;
+  nodes: Map<string, EffectNode>;
+  nodeIds: Map<ts.Node, string>;              // Declaration -> railway node ID
+  effectRequirements: Map<string, string[]>;  // Effect node ID -> transitive requirements
+  filePaths: Map<ts.SourceFile, string>;      // Paths as the source inputs name them
+  checker: ts.TypeChecker | undefined;
+  ambiguities: Map<string, AmbiguousReference>;
+}
+
+const LAYER_CONSTRUCTORS: Record<string, LayerKind> = {
+  succeed: 'succeed',
+  sync: 'sync',
+  effect: 'effect',
+  scoped: 'scoped',
+  function: 'function',
+  merge: 'merge',
+  mergeAll: 'merge',
+  provide: 'provide',
+  provideMerge: 'provide'
+};
+
+// Constructors building a service from the tag they are given
+const SERVICE_BUILDERS = ['succeed', 'sync', 'effect', 'scoped', 'function'];
+
+// Main pure function to build the layer graph
+// Layer IDs follow the same file-plus-qualified-name scheme as railway nodes, relative to rootDir
+// References to layers, services and effects resolve like calls do: through the checker, else by
+// name within the imported module or the referencing file. Names matching several are reported
+export const analyzeLayers = (
+  sourceFiles: SourceFileInput[],
+  railway: EffectRailway,
+  checker: ts.TypeChecker | undefined,
+  rootDir: string,
+  declarations: Map<ts.Node, string>
+): { layerGraph: LayerGraph; ambiguities: AmbiguousReference[] } => {
+  const definitions = collectLayerDefinitions(sourceFiles, checker, rootDir);
+  const context: LayerContext = {
+    definitions: new Map(definitions.map(definition => [definition.id, definition])),
+    layerIds: new Map(definitions.map(definition => [definition.declaration, definition.id])),
+    shapes: new Map(),
+    evaluating: new Set(),
+    nodes: new Map(railway.nodes.map(node => [node.id, node])),
+    nodeIds: declarations,
+    effectRequirements: buildEffectRequirements(railway),
+    filePaths: new Map(sourceFiles.map(fileInput => [fileInput.sourceFile, fileInput.path])),
+    checker,
+    ambiguities: new Map()
+  };
+  
+  const layers: LayerNode[] = [];
+  const duplicateProvisions: DuplicateProvision[] = [];
+  
+  definitions.forEach(definition => {
+    const shape = evaluateNamedLayer(definition.id, context);
+    const built = collectBuiltServices(definition, context);
+    layers.push({
+      id: definition.id,
+      name: definition.name,
+      kind: definition.expression ? getLayerKind(definition.expression) : 'service-default',
+      filePath: definition.filePath,
+      line: definition.line,
+      provides: Array.from(shape.providers.keys()),
+      requires: shape.requires,
+      composedOf: shape.composedOf,
+      services: built.services,
+      effects: built.effects
+    });
+    shape.duplicates.forEach(duplicate => {
+      duplicateProvisions.push({ ...duplicate, filePath: definition.filePath, line: definition.line });
+    });
+  });
+  
+  const provisions: LayerProvision[] = [];
+  const unprovidedRequirements: UnprovidedRequirement[] = [];
+  
+  sourceFiles.forEach(fileInput => {
+    collectRunEntries(fileInput.sourceFile, context.nodeIds).forEach(({ entry, node, base, layerExpressions }) => {
+      const line = getLineNumber(node);
+      const result = entry === 'Layer.launch' ?
+        resolveLaunch(base, context) :
+        resolveProvision(base, layerExpressions, context);
+      
+      provisions.push({
+        entry,
+        effect: describeExpression(base),
+        filePath: fileInput.path,
+        line,
+        layers: result.layers,
+        requires: result.requires,
+        unprovided: result.unprovided
+      });
+      result.unprovided.forEach(tag => {
+        unprovidedRequirements.push({ tag, entry, filePath: fileInput.path, line });
+      });
+      result.duplicates.forEach(duplicate => {
+        duplicateProvisions.push({ ...duplicate, filePath: fileInput.path, line });
+      });
+    });
+  });
+  
+  return {
+    layerGraph: {
+      layers,
+      provisions,
+      unprovidedRequirements,
+      duplicateProvisions
+    },
+    ambiguities: Array.from(context.ambiguities.values())
+  };
+};
+
+// Pure function to find named layers and implicit Effect.Service defaults
+const collectLayerDefinitions = (
+  sourceFiles: SourceFileInput[],
+  checker: ts.TypeChecker | undefined,
+  rootDir: string
+): LayerDefinition[] => {
+  const definitions: LayerDefinition[] = [];
+  const ids = new Set<string>();
+  const claimId = (filePath: string, qualifiedName: string, declaration: ts.Node): string => {
+    const id = claimNodeId(
+      createNodeId(toRelativePath(rootDir, filePath), qualifiedName),
+      getFingerprint(declaration),
+      layerId => ids.has(layerId)
+    );
+    ids.add(id);
+    return id;
+  };
+  
+  sourceFiles.forEach(fileInput => {
+    const visit = (node: ts.Node) => {
+      if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer &&
+          isLayerExpression(node.initializer, checker)) {
+        definitions.push({
+          id: claimId(fileInput.path, getQualifiedName(node), node),
+          name: node.name.text,
+          qualifiedName: getQualifiedName(node),
+          declaration: node,
+          expression: node.initializer,
+          service: undefined,
+          filePath: fileInput.path,
+          line: getLineNumber(node)
+        });
+      }
+      
+      if (ts.isClassDeclaration(node) && node.name && isEffectServiceClass(node)) {
+        const name = `${node.name.text}.Default`;
+        definitions.push({
+          id: claimId(fileInput.path, `${getQualifiedName(node)}.Default`, node),
+          name,
+          qualifiedName: `${getQualifiedName(node)}.Default`,
+          declaration: node,
+          expression: undefined,
+          service: node.name.text,
+          filePath: fileInput.path,
+          line: getLineNumber(node)
+        });
+      }
+      
+      ts.forEachChild(node, visit);
+    };
+    visit(fileInput.sourceFile);
+  });
+  
+  return definitions;
+};
+
+const isEffectServiceClass = (node: ts.ClassDeclaration): boolean => {
+  const base = node.heritageClauses?.[0]?.types[0]?.expression;
+  return !!base && ts.isCallExpression(base) && ts.isCallExpression(base.expression) &&
+         isNamespaceCall(base.expression.expression, 'Effect', 'Service');
+};
+
+// Layer.* calls, pipes through Layer combinators, or anything the checker types as a Layer
+const isLayerExpression = (expression: ts.Expression, checker: ts.TypeChecker | undefined): boolean => {
+  if (ts.isCallExpression(expression)) {
+    if (isLayerCall(expression)) return true;
+    const pipe = getPipeParts(expression);
+    if (pipe && (isLayerCallOrReference(pipe.base) || pipe.stages.some(isLayerCall))) return true;
+  }
+  
+  if (checker) {
+    try {
+      return !!getLayerChannels(checker.getTypeAtLocation(expression), checker);
+    } catch {
+      return false;
+    }
+  }
+  
+  return false;
+};
+
+const isLayerCall = (node: ts.Node): node is ts.CallExpression => {
+  if (!ts.isCallExpression(node)) return false;
+  const callee = ts.isCallExpression(node.expression) ? node.expression.expression : node.expression;
+  return ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression) &&
+         callee.expression.text === 'Layer';
+};
+
+const isLayerCallOrReference = (node: ts.Expression): boolean => {
+  return isLayerCall(node) || (ts.isPropertyAccessExpression(node) && node.name.text === 'Default');
+};
+
+const getLayerKind = (expression: ts.Expression): LayerKind => {
+  if (ts.isCallExpression(expression)) {
+    if (isLayerCall(expression)) {
+      const callee = ts.isCallExpression(expression.expression) ? expression.expression.expression : expression.expression;
+      const member = ts.isPropertyAccessExpression(callee) ? callee.name.text : '';
+      return LAYER_CONSTRUCTORS[member] || 'other';
+    }
+    const pipe = getPipeParts(expression);
+    if (pipe) {
+      const kinds = pipe.stages.map(getLayerKind);
+      if (kinds.includes('provide')) return 'provide';
+      if (kinds.includes('merge')) return 'merge';
+      return getLayerKind(pipe.base);
+    }
+  }
+  if (ts.isPropertyAccessExpression(expression) && expression.name.text === 'Default') {
+    return 'service-default';
+  }
+  return 'other';
+};
+
+// Pure function to find the services a named layer builds itself and the effects building them:
+// `Layer.effect(UserRepo, makeUserRepo)` runs makeUserRepo, an inline `Layer.effect(UserRepo, Effect.gen(...))`
+// the layer's own node. Named layers it composes are left to their own definitions
+const collectBuiltServices = (definition: LayerDefinition, context: LayerContext): { services: string[]; effects: string[] } => {
+  const ownId = context.nodeIds.get(definition.declaration);
+  if (!definition.expression) {
+    return { services: ownId && context.nodes.get(ownId)?.service ? [ownId] : [], effects: [] };
+  }
+  
+  const candidates = Array.from(context.nodes.values()).filter(node => !node.memberOf);
+  const services: string[] = [];
+  const effects: string[] = [];
+  const visit = (node: ts.Node) => {
+    if (isLayerCall(node)) {
+      // Curried forms such as `Layer.effect(Tag)(make)` carry the tag on the inner call
+      const call = ts.isCallExpression(node.expression) ? node.expression : node;
+      const member = (call.expression as ts.PropertyAccessExpression).name.text;
+      const [tag, build] = call === node ? Array.from(node.arguments) : [...call.arguments, ...node.arguments];
+      const serviceId = SERVICE_BUILDERS.includes(member) && tag && (ts.isIdentifier(tag) || ts.isPropertyAccessExpression(tag)) ?
+                        resolveTarget(tag, context.nodeIds, candidates, context) : undefined;
+      if (serviceId && context.nodes.get(serviceId)?.service) {
+        services.push(serviceId);
+        const builder = build && ts.isCallExpression(build) ? build.expression : build;
+        const effectId = !builder ? undefined :
+                         ts.isIdentifier(builder) ? resolveTarget(builder, context.nodeIds, candidates, context) : ownId;
+        if (effectId && context.nodes.has(effectId)) effects.push(effectId);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(definition.expression);
+  
+  return { services: unique(services), effects: unique(effects) };
+};
+
+// Pure function to evaluate a named layer once, using the checker when it can
+const evaluateNamedLayer = (id: string, context: LayerContext): LayerShape => {
+  const cached = context.shapes.get(id);
+  if (cached) return cached;
+  
+  const definition = context.definitions.get(id);
+  if (!definition || context.evaluating.has(id)) {
+    return emptyShape(definition ? [id] : []);
+  }
+  
+  context.evaluating.add(id);
+  let shape: LayerShape = definition.expression ?
+    evaluateLayerExpression(definition.expression, context) :
+    { ...emptyShape([]), providers: new Map([[definition.service || definition.name, [id]]]) };
+  context.evaluating.delete(id);
+  
+  if (definition.expression) {
+    shape = withCheckerChannels(shape, definition.expression, id, context);
+  }
+  
+  context.shapes.set(id, shape);
+  return shape;
+};
+
+// The checker knows the exact ROut/RIn; syntax still supplies providers and duplicates
+const withCheckerChannels = (
+  shape: LayerShape,
+  expression: ts.Expression,
+  name: string,
+  context: LayerContext
+): LayerShape => {
+  if (!context.checker) return shape;
+  
+  let channels: ReturnType<typeof getLayerChannels>;
+  try {
+    channels = getLayerChannels(context.checker.getTypeAtLocation(expression), context.checker);
+  } catch {
+    channels = undefined;
+  }
+  if (!channels) return shape;
+  
+  const [provides, , requires] = channels;
+  const providers = new Map<string, string[]>();
+  splitUnionType(provides, context.checker).forEach(tag => {
+    providers.set(tag, shape.providers.get(tag) || [name]);
+  });
+  
+  return {
+    ...shape,
+    providers,
+    requires: splitUnionType(requires, context.checker)
+  };
+};
+
+// Pure function to evaluate what a layer expression provides and requires
+const evaluateLayerExpression = (expression: ts.Expression, context: LayerContext): LayerShape => {
+  if (ts.isIdentifier(expression) || ts.isPropertyAccessExpression(expression)) {
+    return referenceShape(expression, context);
+  }
+  
+  if (ts.isArrayLiteralExpression(expression)) {
+    return expression.elements.reduce(
+      (acc, element) => mergeShapes(acc, evaluateLayerExpression(element, context)),
+      emptyShape([])
+    );
+  }
+  
+  if (!ts.isCallExpression(expression)) {
+    return emptyShape([]);
+  }
+  
+  const pipe = getPipeParts(expression);
+  if (pipe) {
+    return pipe.stages.reduce(
+      (acc, stage) => applyLayerStage(acc, stage, context),
+      evaluateLayerExpression(pipe.base, context)
+    );
+  }
+  
+  if (isNamespaceCall(expression.expression, 'Effect', 'provideService') && expression.arguments[0]) {
+    const tag = expression.arguments[0].getText();
+    return { ...emptyShape([]), providers: new Map([[tag, [describeExpression(expression)]]]) };
+  }
+  
+  if (!isLayerCall(expression)) {
+    return emptyShape([]);
+  }
+  
+  // Curried forms such as `Layer.succeed(Tag)(impl)` carry the tag on the inner call
+  const call = ts.isCallExpression(expression.expression) ? expression.expression : expression;
+  const callee = call.expression as ts.PropertyAccessExpression;
+  const args = call === expression ? Array.from(expression.arguments) : [...call.arguments, ...expression.arguments];
+  const [first, second] = args;
+  
+  switch (callee.name.text) {
+    case 'succeed':
+    case 'sync':
+    case 'function':
+      return first ? leafShape(first.getText(), describeExpression(expression), []) : emptyShape([]);
+    case 'effect':
+    case 'scoped':
+      return first ?
+        leafShape(first.getText(), describeExpression(expression), second ? getEffectRequirements(second, context) : []) :
+        emptyShape([]);
+    case 'merge':
+    case 'mergeAll':
+      return args.reduce(
+        (acc, arg) => mergeShapes(acc, evaluateLayerExpression(arg, context)),
+        emptyShape([])
+      );
+    case 'provide':
+      return first && second ?
+        provideShapes(evaluateLayerExpression(first, context), evaluateLayerExpression(second, context), false) :
+        emptyShape([]);
+    case 'provideMerge':
+      return first && second ?
+        provideShapes(evaluateLayerExpression(first, context), evaluateLayerExpression(second, context), true) :
+        emptyShape([]);
+    default:
+      return emptyShape([]);
+  }
+};
+
+// Pipe stages such as `Layer.provide(Dep)` or `Layer.merge(Other)` applied to an accumulated layer
+const applyLayerStage = (acc: LayerShape, stage: ts.Expression, context: LayerContext): LayerShape => {
+  if (!isLayerCall(stage) || !stage.arguments[0]) return acc;
+  
+  const callee = stage.expression as ts.PropertyAccessExpression;
+  const other = Array.from(stage.arguments).reduce(
+    (shape, arg) => mergeShapes(shape, evaluateLayerExpression(arg, context)),
+    emptyShape([])
+  );
+  
+  switch (callee.name.text) {
+    case 'provide':
+      return provideShapes(acc, other, false);
+    case 'provideMerge':
+      return provideShapes(acc, other, true);
+    case 'merge':
+      return mergeShapes(acc, other);
+    default:
+      return acc;
+  }
+};
+
+// A reference to a named layer is seen from outside as a single provider
+// Unresolved references (library layers such as `NodeContext.layer`) are opaque
+const referenceShape = (reference: ts.Identifier | ts.PropertyAccessExpression, context: LayerContext): LayerShape => {
+  const id = resolveTarget(reference, context.layerIds, Array.from(context.definitions.values()), context);
+  if (!id) return emptyShape([reference.getText()]);
+  
+  const named = evaluateNamedLayer(id, context);
+  const providers = new Map<string, string[]>();
+  named.providers.forEach((_, tag) => providers.set(tag, [id]));
+  return {
+    providers,
+    requires: named.requires,
+    composedOf: [id],
+    duplicates: []
+  };
+};
+
+const emptyShape = (composedOf: string[]): LayerShape => ({
+  providers: new Map(),
+  requires: [],
+  composedOf,
+  duplicates: []
+});
+
+const leafShape = (tag: string, provider: string, requires: string[]): LayerShape => ({
+  providers: new Map([[tag, [provider]]]),
+  requires,
+  composedOf: [],
+  duplicates: []
+});
+
+// Merging layers side by side: outputs and inputs union, overlapping outputs are duplicates
+const mergeShapes = (a: LayerShape, b: LayerShape): LayerShape => {
+  const providers = new Map(a.providers);
+  const duplicates = [...a.duplicates, ...b.duplicates];
+  
+  b.providers.forEach((bProviders, tag) => {
+    const existing = providers.get(tag);
+    if (existing) {
+      duplicates.push({ tag, providers: [...existing, ...bProviders] });
+      providers.set(tag, [...existing, ...bProviders]);
+    } else {
+      providers.set(tag, bProviders);
+    }
+  });
+  
+  return {
+    providers,
+    requires: unique([...a.requires, ...b.requires]),
+    composedOf: unique([...a.composedOf, ...b.composedOf]),
+    duplicates
+  };
+};
+
+// `self` provided by `that`: that's outputs satisfy self's inputs
+const provideShapes = (self: LayerShape, that: LayerShape, keepOutputs: boolean): LayerShape => {
+  const requires = unique([
+    ...self.requires.filter(tag => !that.providers.has(tag)),
+    ...that.requires
+  ]);
+  
+  if (keepOutputs) {
+    return { ...mergeShapes(self, that), requires };
+  }
+  
+  return {
+    providers: self.providers,
+    requires,
+    composedOf: unique([...self.composedOf, ...that.composedOf]),
+    duplicates: [...self.duplicates, ...that.duplicates]
+  };
+};
+
+// Pure function to compute each effect node's transitive service requirements
+const buildEffectRequirements = (railway: EffectRailway): Map<string, string[]> => {
+  const nodesById = new Map(railway.nodes.map(node => [node.id, node]));
+  const outgoing = new Map<string, string[]>();
+  railway.edges.forEach(edge => {
+    if (edge.type !== 'dependency') return;
+    outgoing.set(edge.source, [...(outgoing.get(edge.source) || []), edge.target]);
+  });
+  
+  const memo = new Map<string, string[]>();
+  const visit = (nodeId: string, visiting: Set<string>): string[] => {
+    const cached = memo.get(nodeId);
+    if (cached) return cached;
+    if (visiting.has(nodeId)) return [];
+    visiting.add(nodeId);
+    
+    const node = nodesById.get(nodeId);
+    const requirements = [...(node?.effectSignature?.dependencies || [])];
+    (outgoing.get(nodeId) || []).forEach(targetId => {
+      const target = nodesById.get(targetId);
+      if (!target) return;
+      if (target.service) {
+        requirements.push(target.name);
+      } else if (target.memberOf) {
+        const owner = nodesById.get(target.memberOf);
+        if (owner) requirements.push(owner.name);
+      } else {
+        requirements.push(...visit(targetId, visiting));
+      }
+    });
+    
+    visiting.delete(nodeId);
+    const result = unique(requirements);
+    memo.set(nodeId, result);
+    return result;
+  };
+  
+  const byId = new Map<string, string[]>();
+  railway.nodes.forEach(node => {
+    if (!node.service && !node.memberOf) {
+      byId.set(node.id, visit(node.id, new Set()));
+    }
+  });
+  return byId;
+};
+
+// Requirements of an effect expression: the checker's R channel, or the services it references
+const getEffectRequirements = (expression: ts.Expression, context: LayerContext): string[] => {
+  if (context.checker) {
+    try {
+      const channels = getEffectChannels(context.checker.getTypeAtLocation(expression), context.checker);
+      if (channels) return splitUnionType(channels[2], context.checker);
+    } catch {
+      // Fall through to the syntactic scan
+    }
+  }
+  
+  const requirements: string[] = [];
+  const candidates = Array.from(context.nodes.values()).filter(node => !node.memberOf);
+  const visit = (node: ts.Node) => {
+    // Skip member names and constructor calls (`new Service(...)` builds, not requires)
+    if (ts.isIdentifier(node) &&
+        !(ts.isPropertyAccessExpression(node.parent) && node.parent.name === node) &&
+        !(ts.isNewExpression(node.parent) && node.parent.expression === node)) {
+      const targetId = resolveTarget(node, context.nodeIds, candidates, context);
+      const target = targetId ? context.nodes.get(targetId) : undefined;
+      if (target?.service) {
+        requirements.push(target.name);
+      } else if (targetId) {
+        requirements.push(...(context.effectRequirements.get(targetId) || []));
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(expression);
+  
+  return unique(requirements);
+};
+
+// Pure function to resolve a reference to a layer or railway node through the checker's symbol,
+// following imports, re-exports and namespace imports (`AM.Live`). `UserService.Default`
+// resolves through its class. Without a checker, or for bindings it cannot follow, the name is
+// looked up in the imported module or else the referencing file; several matches are reported
+const resolveTarget = (
+  reference: ts.Identifier | ts.PropertyAccessExpression,
+  ids: Map<ts.Node, string>,
+  candidates: ReferenceTarget[],
+  context: LayerContext
+): string | undefined => {
+  const isDefault = ts.isPropertyAccessExpression(reference) && reference.name.text === 'Default';
+  const symbolNode = isDefault ? getLastName(reference.expression) : getLastName(reference);
+  
+  if (context.checker && symbolNode) {
+    const declarations = resolveDeclarations(context.checker, symbolNode);
+    const found = declarations.map(declaration => ids.get(declaration)).find(id => id !== undefined);
+    if (found) return found;
+    
+    // Resolved to a library symbol, a parameter or a value that is no layer: nothing to match by name
+    if (declarations.length > 0) return undefined;
+  }
+  
+  const root = getRootIdentifier(reference);
+  const sourceFile = reference.getSourceFile();
+  const imported = root && findImport(sourceFile, root.text);
+  const importedName = imported?.importedName && root === symbolNode ? imported.importedName : symbolNode?.text;
+  const name = isDefault ? `${importedName}.Default` : importedName;
+  const matches = candidates.filter(candidate => candidate.name === name);
+  
+  const referenceFile = path.resolve(context.filePaths.get(sourceFile) || sourceFile.fileName);
+  const scoped = imported ? matches.filter(candidate => isModuleFile(referenceFile, imported.module, candidate.filePath)) :
+                 matches.filter(candidate => path.resolve(candidate.filePath) === referenceFile);
+  // Package imports and globals cannot be followed by name; any single match will do
+  const resolved = scoped.length > 0 || (imported && imported.module.startsWith('.')) ? scoped : matches;
+  
+  if (resolved.length > 1) {
+    const line = getLineNumber(reference);
+    const filePath = context.filePaths.get(sourceFile) || sourceFile.fileName;
+    context.ambiguities.set(`${filePath}:${line}:${reference.getText()}`, {
+      name: reference.getText(),
+      filePath,
+      line,
+      candidates: resolved.map(candidate => candidate.id)
+    });
+  }
+  return resolved.length === 1 ? resolved[0]?.id : undefined;
+};
+
+// `Live` in `AM.Live`, `UserService` in `AM.UserService`
+const getLastName = (expression: ts.Expression): ts.Identifier | undefined => {
+  return ts.isIdentifier(expression) ? expression :
+         ts.isPropertyAccessExpression(expression) ? expression.name as ts.Identifier : undefined;
+};
+
+// Module and exported name of `import { Live as L } from './a'`; namespace imports have no name
+const findImport = (
+  sourceFile: ts.SourceFile,
+  localName: string
+): { module: string; importedName: string | undefined } | undefined => {
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) continue;
+    const bindings = statement.importClause?.namedBindings;
+    const module = statement.moduleSpecifier.text;
+    
+    if (bindings && ts.isNamespaceImport(bindings) && bindings.name.text === localName) {
+      return { module, importedName: undefined };
+    }
+    const specifier = bindings && ts.isNamedImports(bindings) ?
+                      bindings.elements.find(element => element.name.text === localName) : undefined;
+    if (specifier) {
+      return { module, importedName: (specifier.propertyName || specifier.name).text };
+    }
+  }
+  return undefined;
+};
+
+// `./users` or `./users.js` from src/main.ts names src/users.ts or src/users/index.ts
+const isModuleFile = (referenceFile: string, module: string, filePath: string): boolean => {
+  if (!module.startsWith('.')) return false;
+  const stripExtension = (file: string) => file.replace(/\.[cm]?[jt]sx?$/, '');
+  const target = stripExtension(path.resolve(path.dirname(referenceFile), module));
+  const candidate = stripExtension(path.resolve(filePath));
+  return candidate === target || candidate === path.join(target, 'index');
+};
+
+// Run entry with the effect being run and the layers supplied to it
+interface RunEntry {
+  entry: string;
+  node: ts.Node;
+  base: ts.Expression;
+  layerExpressions: ts.Expression[];
+}
+
+// Pure function to find runtime entry points in a file
+// A run inside an effect is a nested run, not a program, so its requirements are not checked here
+const collectRunEntries = (sourceFile: ts.SourceFile, nodeIds: Map<ts.Node, string>): RunEntry[] => {
+  const entries: RunEntry[] = [];
+  const isNested = (node: ts.Node): boolean => !!node.parent && (nodeIds.has(node.parent) || isNested(node.parent));
+  
+  const visit = (node: ts.Node) => {
+    const call = ts.isCallExpression(node) ? getRunCall(node) : undefined;
+    if (call && !isNested(node)) {
+      entries.push({ entry: call.runner, node, base: call.base, layerExpressions: call.layerExpressions });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  
+  return entries;
+};
+
+// Pure function to apply supplied layers (innermost first) to an effect's requirements
+const resolveProvision = (
+  base: ts.Expression,
+  layerExpressions: ts.Expression[],
+  context: LayerContext
+): { layers: string[]; requires: string[]; unprovided: string[]; duplicates: Array<{ tag: string; providers: string[] }> } => {
+  const requires = getEffectRequirements(base, context);
+  const providedBy = new Map<string, string>();
+  const duplicates: Array<{ tag: string; providers: string[] }> = [];
+  const layers: string[] = [];
+  let remaining = requires;
+  
+  layerExpressions.forEach(layerExpression => {
+    const name = describeExpression(layerExpression);
+    const shape = withCheckerChannels(evaluateLayerExpression(layerExpression, context), layerExpression, name, context);
+    layers.push(...(shape.composedOf.length > 0 ? shape.composedOf : [name]));
+    duplicates.push(...shape.duplicates);
+    
+    shape.providers.forEach((providers, tag) => {
+      const earlier = providedBy.get(tag);
+      if (earlier) {
+        duplicates.push({ tag, providers: [earlier, ...providers] });
+      } else {
+        providedBy.set(tag, providers.join(' + '));
+      }
+    });
+    
+    remaining = unique([
+      ...remaining.filter(tag => !shape.providers.has(tag)),
+      ...shape.requires
+    ]);
+  });
+  
+  return {
+    layers: unique(layers),
+    requires,
+    unprovided: remaining,
+    duplicates
+  };
+};
+
+// `Layer.launch(layer)` needs the layer itself to be closed
+const resolveLaunch = (
+  layerExpression: ts.Expression,
+  context: LayerContext
+): { layers: string[]; requires: string[]; unprovided: string[]; duplicates: Array<{ tag: string; providers: string[] }> } => {
+  const name = describeExpression(layerExpression);
+  const shape = withCheckerChannels(evaluateLayerExpression(layerExpression, context), layerExpression, name, context);
+  return {
+    layers: shape.composedOf.length > 0 ? shape.composedOf : [name],
+    requires: shape.requires,
+    unprovided: shape.requires,
+    duplicates: shape.duplicates
+  };
+};
+
+const unique = (values: string[]): string[] => Array.from(new Set(values));
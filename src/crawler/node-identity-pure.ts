@@ -0,0 +1,115 @@
+/**
+ * Purpose: Canonical node IDs shared by the crawler, the function analyzer, the API and the UI
+ * Dependencies: TypeScript Compiler API, crypto, path
+ * 
+ * Example Input:
+ * ```
+ * createNodeId('src/users/user-service.ts', getQualifiedName(findByIdDeclaration))
+ * getFingerprint(findByIdDeclaration)
+ * ```
+ * 
+ * Expected Output:
+ * ```
+ * 'src/users/user-service.ts#UserService.findById'
+ * '3fa2c1d09b' (unchanged by reformatting, comments or lines inserted above it)
+ * ```
+ */
+
+import * as ts from 'typescript';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+// `<file relative to the analyzed root>#<qualified name>[~<fingerprint>]`
+// The fingerprint suffix only appears when a file declares the same qualified name twice
+export const NODE_ID_SEPARATOR = '#';
+export const FINGERPRINT_SEPARATOR = '~';
+export const ANONYMOUS_NAME = '<anonymous>';
+
+// Pure function to build a node ID from a file and a qualified name
+export const createNodeId = (relativePath: string, qualifiedName: string): string => {
+  return `${relativePath.split(path.sep).join('/')}${NODE_ID_SEPARATOR}${qualifiedName}`;
+};
+
+// Pure function to pick the ID for a new node: the plain ID when it is free, otherwise
+// the ID qualified with the node's fingerprint (and a counter for identical duplicates)
+export const claimNodeId = (baseId: string, fingerprint: string, isTaken: (nodeId: string) => boolean): string => {
+  if (!isTaken(baseId)) return baseId;
+  const fingerprinted = `${baseId}${FINGERPRINT_SEPARATOR}${fingerprint}`;
+  let candidate = fingerprinted;
+  for (let index = 2; isTaken(candidate); index++) {
+    candidate = `${fingerprinted}${FINGERPRINT_SEPARATOR}${index}`;
+  }
+  return candidate;
+};
+
+// Pure function to find the ID a node claimed, given the IDs the registry already holds
+// and the fingerprints of their nodes
+export const findClaimedId = (
+  baseId: string,
+  fingerprint: string,
+  fingerprintOf: (nodeId: string) => string | undefined
+): string => {
+  const baseFingerprint = fingerprintOf(baseId);
+  return baseFingerprint === undefined || baseFingerprint === fingerprint ?
+         baseId : `${baseId}${FINGERPRINT_SEPARATOR}${fingerprint}`;
+};
+
+// Pure function to name a file relative to the analyzed root, with forward slashes
+export const toRelativePath = (rootDir: string, filePath: string): string => {
+  return path.relative(rootDir, filePath).split(path.sep).join('/');
+};
+
+// Pure function to find the deepest directory containing every file
+export const getCommonDirectory = (filePaths: string[]): string => {
+  if (filePaths.length === 0) return '';
+  const directories = filePaths.map(filePath => path.dirname(path.resolve(filePath)).split(path.sep));
+  const common = directories.reduce((shared, parts) => {
+    const length = shared.findIndex((part, index) => parts[index] !== part);
+    return length === -1 ? shared.slice(0, parts.length) : shared.slice(0, length);
+  });
+  return common.join(path.sep) || path.sep;
+};
+
+// Name a declaration is known by in its own scope, if it has one
+const getOwnName = (node: ts.Node): string | undefined => {
+  if (!ts.isVariableDeclaration(node) && !ts.isFunctionDeclaration(node) && !ts.isClassDeclaration(node) &&
+      !ts.isMethodDeclaration(node) && !ts.isPropertyDeclaration(node) && !ts.isPropertyAssignment(node) &&
+      !ts.isGetAccessorDeclaration(node) && !ts.isSetAccessorDeclaration(node) && !ts.isModuleDeclaration(node) &&
+      !ts.isInterfaceDeclaration(node) && !ts.isPropertySignature(node) && !ts.isMethodSignature(node) &&
+      !ts.isShorthandPropertyAssignment(node)) {
+    return undefined;
+  }
+  const name = node.name;
+  if (!name) return undefined;
+  if (ts.isIdentifier(name) || ts.isPrivateIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+    return name.text;
+  }
+  return undefined;
+};
+
+// Pure function to build the dotted name of a declaration from its named ancestors:
+// `UserService.findById`, `makeRoutes.getUser`, `handlers.create`
+// Blocks, calls and other anonymous scopes do not contribute
+export const getQualifiedName = (node: ts.Node): string => {
+  const names: string[] = [];
+  let current: ts.Node | undefined = node;
+  while (current && !ts.isSourceFile(current)) {
+    const name = getOwnName(current);
+    if (name) names.unshift(name);
+    current = current.parent;
+  }
+  return names.length > 0 ? names.join('.') : ANONYMOUS_NAME;
+};
+
+// Pure function to fingerprint a node by its tokens, ignoring whitespace and comments,
+// so the fingerprint survives reformatting and edits elsewhere in the file
+export const getFingerprint = (node: ts.Node): string => {
+  const sourceFile = node.getSourceFile();
+  const scanner = ts.createScanner(ts.ScriptTarget.Latest, true, sourceFile.languageVariant,
+                                   sourceFile.text.slice(node.getStart(sourceFile), node.getEnd()));
+  const hash = createHash('sha256');
+  for (let token = scanner.scan(); token !== ts.SyntaxKind.EndOfFileToken; token = scanner.scan()) {
+    hash.update(scanner.getTokenText()).update('\u0000');
+  }
+  return hash.digest('hex').slice(0, 10);
+};
@@ -0,0 +1,115 @@
+/**
+ * Purpose: Pure detection of spans, span and log annotations and log calls, and the
+ *          observability coverage of the paths from entry points to IO
+ * Dependencies: TypeScript Compiler API
+ * 
+ * Example Input:
+ * ```
+ * getObservabilityCall(<Effect.withSpan("UserRepo.findById")>)
+ * buildObservabilityReport(railway)
+ * ```
+ * 
+ * Expected Output:
+ * ```
+ * { kind: 'span', operator: 'Effect.withSpan', name: 'UserRepo.findById' }
+ * { spans: 4, unobservedPaths: [{ entryId, ioId, path }], duplicateSpans: [] }
+ * ```
+ */
+
+import * as ts from 'typescript';
+import type { EffectRailway, ObservabilityKind, ObservabilityReport, UnobservedPath, DuplicateSpan } from '../types/effect-node.js';
+import { RUN_EDGES, isIoNode } from '../types/effect-node.js';
+
+// A recognized span, annotation or log call
+export interface ObservabilityCall {
+  kind: ObservabilityKind;
+  operator: string;
+  name: string | undefined;
+  wrapped: ts.Expression | undefined;   // Effect given to a data-first Effect.withSpan
+}
+
+const KINDS: Record<string, ObservabilityKind> = {
+  withSpan: 'span',
+  fn: 'span',
+  annotateCurrentSpan: 'span-annotation',
+  annotateLogs: 'log-annotation'
+};
+
+const LOGS = ['log', 'logTrace', 'logDebug', 'logInfo', 'logWarning', 'logError', 'logFatal'];
+
+// Pure function to recognize `Effect.withSpan("name")`, `Effect.withSpan(effect, "name")`, `Effect.fn("name")`,
+// `Effect.annotateCurrentSpan("key", value)`, `Effect.annotateLogs({ requestId })` and `Effect.logInfo("message")`
+export const getObservabilityCall = (node: ts.CallExpression): ObservabilityCall | undefined => {
+  const callee = node.expression;
+  if (!ts.isPropertyAccessExpression(callee) || !ts.isIdentifier(callee.expression) ||
+      callee.expression.text !== 'Effect') return undefined;
+  const member = callee.name.text;
+  const kind = KINDS[member] || (LOGS.includes(member) ? 'log' : undefined);
+  if (!kind) return undefined;
+  
+  const args = Array.from(node.arguments);
+  const literal = args.find(ts.isStringLiteralLike);
+  const keys = args.find(ts.isObjectLiteralExpression)?.properties
+    .flatMap(prop => prop.name && (ts.isIdentifier(prop.name) || ts.isStringLiteralLike(prop.name)) ? [prop.name.text] : []);
+  
+  // `Effect.fn(body)` without a name only captures a stack trace
+  if (member === 'fn' && !literal) return undefined;
+  
+  // Annotations are named by their keys; a `{ ... }` annotates several at once
+  const name = kind === 'span' || kind === 'log' || literal ? literal?.text : keys?.join(', ');
+  const wrapped = member === 'withSpan' && args[0] && !ts.isStringLiteralLike(args[0]) ? args[0] : undefined;
+  return { kind, operator: `Effect.${member}`, name: name || undefined, wrapped };
+};
+
+// Pure function to find the paths from entry points to IO effects on which no effect opens a span,
+// and the span names opened at several places
+// A span around the call to another effect, as in `Effect.withSpan(fetchOrder(id), "orders.fetch")`,
+// covers that call only
+export const buildObservabilityReport = (railway: EffectRailway): ObservabilityReport => {
+  const nodes = new Map(railway.nodes.map(node => [node.id, node]));
+  const runs = new Map<string, string[]>();
+  railway.edges.forEach(edge => {
+    if (RUN_EDGES.some(type => type === edge.type)) runs.set(edge.source, [...(runs.get(edge.source) || []), edge.target]);
+  });
+  
+  const spanSites = railway.nodes.flatMap(node => (node.observability || [])
+    .filter(point => point.kind === 'span')
+    .map(point => ({ nodeId: node.id, name: point.name, line: point.line, target: point.target })));
+  const spanned = new Set(spanSites.filter(site => !site.target).map(site => site.nodeId));
+  const spannedCalls = new Set(spanSites.map(site => `${site.nodeId}->${site.target}`));
+  
+  // Walk only through effects without a span; every IO effect reached is reached unobserved
+  const unobservedPaths: UnobservedPath[] = railway.entryPoints.flatMap(entryId => {
+    if (spanned.has(entryId)) return [];
+    const parents = new Map<string, string | undefined>([[entryId, undefined]]);
+    const pending = [entryId];
+    for (let nodeId = pending.shift(); nodeId; nodeId = pending.shift()) {
+      (runs.get(nodeId) || []).forEach(targetId => {
+        if (parents.has(targetId) || spanned.has(targetId) || !nodes.has(targetId)) return;
+        if (spannedCalls.has(`${nodeId}->${targetId}`)) return;
+        parents.set(targetId, nodeId);
+        pending.push(targetId);
+      });
+    }
+    
+    return Array.from(parents.keys())
+      .filter(nodeId => {
+        const node = nodes.get(nodeId);
+        return node && isIoNode(node);
+      })
+      .map(ioId => {
+        const path: string[] = [];
+        for (let current: string | undefined = ioId; current; current = parents.get(current)) path.unshift(current);
+        return { entryId, ioId, path };
+      });
+  });
+  
+  const sitesByName = new Map<string, Array<{ nodeId: string; line: number }>>();
+  spanSites.forEach(site => {
+    if (site.name) sitesByName.set(site.name, [...(sitesByName.get(site.name) || []), { nodeId: site.nodeId, line: site.line }]);
+  });
+  const duplicateSpans: DuplicateSpan[] = Array.from(sitesByName, ([name, sites]) => ({ name, sites }))
+    .filter(span => span.sites.length > 1);
+  
+  return { spans: spanSites.length, unobservedPaths, duplicateSpans };
+};
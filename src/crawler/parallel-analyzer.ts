@@ -0,0 +1,48 @@
+/**
+ * Purpose: Runs the per-file pass of the AST analyzer on worker threads
+ * Dependencies: worker-pool, ast-analyzer-pure
+ * 
+ * Example Input:
+ * ```
+ * const project = await loadProject('../backend/src');
+ * await analyzeProjectInWorkers(project, 4)
+ * ```
+ * 
+ * Expected Output:
+ * ```
+ * The same AnalysisResult analyzeSourceFiles(project.sourceFiles, project.checker, project.rootDir, project.classification) returns
+ * ```
+ */
+
+import { analyzeSourceFiles, completeAnalysis, mergeFileAnalyses } from './ast-analyzer-pure.js';
+import type { FileAnalysis } from './ast-analyzer-pure.js';
+import type { AnalysisWorkerTask } from './analysis-worker.js';
+import type { LoadedProject } from './file-io.js';
+import type { AnalysisResult } from '../types/effect-node.js';
+import { createShards, resolveWorkerUrl, runInWorkers } from './worker-pool.js';
+
+// IO function to analyze a loaded project with its files sharded across workers
+// Workers visit files; edges, error tracks and layers are resolved here once results are merged
+export const analyzeProjectInWorkers = async (
+  project: LoadedProject,
+  workerCount: number
+): Promise<AnalysisResult> => {
+  if (workerCount < 2 || project.sourceFiles.length < 2) {
+    return analyzeSourceFiles(project.sourceFiles, project.checker, project.rootDir, project.classification);
+  }
+  
+  const tasks = createShards(project.sourceFiles, workerCount).map((shard): AnalysisWorkerTask => ({
+    rootNames: [...project.program.getRootFileNames()],
+    options: project.program.getCompilerOptions(),
+    rootDir: project.rootDir,
+    classification: project.classification,
+    files: shard.map(fileInput => ({ path: fileInput.path, fileName: fileInput.sourceFile.fileName }))
+  }));
+  const results = await runInWorkers<AnalysisWorkerTask, FileAnalysis[]>(
+    resolveWorkerUrl('./analysis-worker', import.meta.url),
+    tasks
+  );
+  
+  const state = mergeFileAnalyses(results.flat(), project.program, project.rootDir, project.classification);
+  return completeAnalysis(state, project.sourceFiles, project.checker);
+};
@@ -0,0 +1,172 @@
+/**
+ * Purpose: Pure detection of retries, timeouts and repeats, the Schedule policies they use,
+ *          and the calls through which an effect performs IO
+ * Dependencies: TypeScript Compiler API, crawler helpers
+ * 
+ * Example Input:
+ * ```
+ * getResilienceCall(<Effect.retry(fetchUser, Schedule.exponential("100 millis").pipe(Schedule.jittered))>, resolve)
+ * ```
+ * 
+ * Expected Output:
+ * ```
+ * { kind: 'retry', operator: 'Effect.retry', wrapped: <fetchUser>,
+ *   schedule: [{ combinator: 'exponential', argument: '100 millis' }, { combinator: 'jittered' }] }
+ * ```
+ */
+
+import * as ts from 'typescript';
+import type { ResilienceKind, ScheduleStep } from '../types/effect-node.js';
+import { describeExpression } from './ast-helpers-pure.js';
+
+// Looks up what an identifier in a policy refers to, e.g. `retryPolicy` in `Effect.retry(retryPolicy)`
+export type PolicyResolver = (identifier: ts.Identifier) => ts.Expression | undefined;
+
+// A recognized retry, timeout or repeat
+export interface ResilienceCall {
+  kind: ResilienceKind;
+  operator: string;
+  wrapped: ts.Expression | undefined;   // Effect given data-first; undefined for data-last stages
+  schedule: ScheduleStep[] | undefined;
+  times: string | undefined;
+  duration: string | undefined;
+}
+
+// Arguments each operator takes in its data-first form
+const OPERATORS: Record<string, { kind: ResilienceKind; arity: number }> = {
+  retry: { kind: 'retry', arity: 2 },
+  retryOrElse: { kind: 'retry', arity: 3 },
+  timeout: { kind: 'timeout', arity: 2 },
+  timeoutFail: { kind: 'timeout', arity: 2 },
+  timeoutFailCause: { kind: 'timeout', arity: 2 },
+  timeoutOption: { kind: 'timeout', arity: 2 },
+  timeoutTo: { kind: 'timeout', arity: 2 },
+  repeat: { kind: 'repeat', arity: 2 },
+  repeatN: { kind: 'repeat', arity: 2 },
+  repeatOrElse: { kind: 'repeat', arity: 3 }
+};
+
+// Effect constructors wrapping a promise or callback, and modules issuing requests
+const IO_CONSTRUCTORS = ['tryPromise', 'promise', 'async', 'asyncEffect'];
+const IO_MODULES = ['HttpClient', 'SqlClient'];
+
+// Pure function to recognize `Effect.retry(effect, policy)`, `Effect.retry({ times: 3 })`,
+// `Effect.timeout("5 seconds")`, `Effect.timeoutFail({ duration, onTimeout })`, `Effect.repeat(schedule)`,
+// `Effect.repeatN(3)` and their data-first forms, with the schedule, count or duration they use
+// Schedules given by name are only followed with a resolver
+export const getResilienceCall = (
+  node: ts.CallExpression,
+  resolve: PolicyResolver = () => undefined
+): ResilienceCall | undefined => {
+  const callee = node.expression;
+  if (!ts.isPropertyAccessExpression(callee) || !ts.isIdentifier(callee.expression) ||
+      callee.expression.text !== 'Effect') return undefined;
+  const definition = OPERATORS[callee.name.text];
+  if (!definition) return undefined;
+  
+  const args = Array.from(node.arguments);
+  const isDataFirst = args.length === definition.arity;
+  const policy = isDataFirst ? args[1] : args[0];
+  const base = {
+    kind: definition.kind,
+    operator: `Effect.${callee.name.text}`,
+    wrapped: isDataFirst ? args[0] : undefined,
+    schedule: undefined,
+    times: undefined,
+    duration: undefined
+  };
+  if (!policy) return base;
+  
+  if (definition.kind === 'timeout') {
+    const duration = ts.isObjectLiteralExpression(policy) ? getOption(policy, 'duration') : policy;
+    return { ...base, duration: duration && describeValue(duration) };
+  }
+  if (callee.name.text === 'repeatN') {
+    return { ...base, times: describeValue(policy) };
+  }
+  
+  // `{ times: 3, schedule: Schedule.spaced("1 second") }`, or a schedule
+  const options = ts.isObjectLiteralExpression(policy) ? policy : undefined;
+  const schedule = options ? getOption(options, 'schedule') : policy;
+  const times = options && getOption(options, 'times');
+  const steps = schedule ? getScheduleSteps(schedule, resolve) : [];
+  return {
+    ...base,
+    schedule: steps.length > 0 ? steps : undefined,
+    times: times && describeValue(times)
+  };
+};
+
+// Pure function to list the Schedule constructors and combinators a policy is built from, in source order:
+// `Schedule.exponential("100 millis").pipe(Schedule.compose(Schedule.recurs(3)), Schedule.jittered)`
+// gives exponential, recurs and jittered; combinators joining schedules are looked through
+export const getScheduleSteps = (
+  expression: ts.Expression,
+  resolve: PolicyResolver,
+  seen: ReadonlySet<ts.Node> = new Set()
+): ScheduleStep[] => {
+  const read = (inner: ts.Expression) => getScheduleSteps(inner, resolve, seen);
+  
+  if (ts.isParenthesizedExpression(expression)) return read(expression.expression);
+  if (ts.isIdentifier(expression)) {
+    const target = resolve(expression);
+    return target && !seen.has(target) ? getScheduleSteps(target, resolve, new Set([...seen, target])) : [];
+  }
+  
+  // A bare combinator: `Schedule.jittered`, `Schedule.forever`
+  if (ts.isPropertyAccessExpression(expression)) {
+    const member = getScheduleMember(expression);
+    return member ? [{ combinator: member }] : [];
+  }
+  if (!ts.isCallExpression(expression)) return [];
+  
+  const callee = expression.expression;
+  const args = Array.from(expression.arguments);
+  if (ts.isPropertyAccessExpression(callee) && callee.name.text === 'pipe') {
+    return [...read(callee.expression), ...args.flatMap(read)];
+  }
+  if (ts.isIdentifier(callee) && callee.text === 'pipe') {
+    return args.flatMap(read);
+  }
+  
+  const member = getScheduleMember(callee);
+  if (!member) return [];
+  const nested = args.map(read);
+  if (nested.some(steps => steps.length > 0)) return nested.flat();
+  
+  const [argument] = args;
+  return [{ combinator: member, ...(argument && { argument: describeValue(argument) }) }];
+};
+
+// Pure function to recognize a call performing IO: `Effect.tryPromise(...)`, `Effect.async(...)`,
+// `HttpClient.get(...)`, `SqlClient.make(...)` or `fetch(...)`
+export const isIoCall = (node: ts.CallExpression): boolean => {
+  const callee = node.expression;
+  return ts.isIdentifier(callee) ? callee.text === 'fetch' : isIoEffect(node);
+};
+
+// Whether a call builds an effect performing IO; `fetch` returns a promise instead
+export const isIoEffect = (node: ts.CallExpression): boolean => {
+  const callee = node.expression;
+  if (!ts.isPropertyAccessExpression(callee) || !ts.isIdentifier(callee.expression)) return false;
+  
+  const namespace = callee.expression.text;
+  if (namespace === 'Effect') return IO_CONSTRUCTORS.includes(callee.name.text);
+  return IO_MODULES.includes(namespace);
+};
+
+const getScheduleMember = (expression: ts.Expression): string | undefined => {
+  return ts.isPropertyAccessExpression(expression) && ts.isIdentifier(expression.expression) &&
+         expression.expression.text === 'Schedule' ? expression.name.text : undefined;
+};
+
+const getOption = (options: ts.ObjectLiteralExpression, name: string): ts.Expression | undefined => {
+  const prop = options.properties.find(property =>
+    ts.isPropertyAssignment(property) && ts.isIdentifier(property.name) && property.name.text === name);
+  return prop && ts.isPropertyAssignment(prop) ? prop.initializer : undefined;
+};
+
+// String literals without their quotes, anything else as written
+const describeValue = (expression: ts.Expression): string => {
+  return ts.isStringLiteralLike(expression) ? expression.text : describeExpression(expression);
+};
@@ -0,0 +1,122 @@
+/**
+ * Purpose: Pure detection of resource acquisitions and of the applications that close the scope they live in
+ * Dependencies: TypeScript Compiler API
+ * 
+ * Example Input:
+ * ```
+ * getAcquisitionCall(<Effect.acquireRelease(openConnection, (conn) => conn.close)>)
+ * getClosingCall(<Layer.scoped(Database, makeDatabase)>)
+ * ```
+ * 
+ * Expected Output:
+ * ```
+ * { operator: 'Effect.acquireRelease', acquire: <openConnection>, releasesItself: false }
+ * { node: <Layer.scoped(...)>, operator: 'Layer.scoped', closed: [<makeDatabase>] }
+ * ```
+ */
+
+import * as ts from 'typescript';
+
+// A call that acquires a resource or registers a finalizer in the surrounding scope
+export interface AcquisitionCall {
+  operator: string;
+  acquire: ts.Expression | undefined;   // Undefined when piped: `open.pipe(Effect.acquireRelease(close))`
+  releasesItself: boolean;              // acquireUseRelease releases before returning; no scope is needed
+}
+
+// An application that provides a scope to effects and closes it when they complete
+export interface ClosingCall {
+  node: ts.CallExpression;
+  operator: string;
+  closed: ts.Expression[];   // Effects run in the scope; for pipes, the source and the stages before it
+}
+
+// Index of the effect each closing call takes; data-last forms are applied with pipe
+const CLOSING_CALLS: Record<string, Record<string, number>> = {
+  Effect: { scoped: 0 },
+  Layer: { scoped: 1, scopedDiscard: 0, scopedContext: 0 },
+  Scope: { extend: 0, use: 0 }
+};
+
+// Pure function to recognize `Effect.acquireRelease(acquire, release)` and its variants,
+// `Effect.acquireUseRelease(acquire, use, release)`, `Effect.addFinalizer(f)` and `Scope.addFinalizer(scope, f)`
+export const getAcquisitionCall = (node: ts.CallExpression): AcquisitionCall | undefined => {
+  const callee = node.expression;
+  if (!ts.isPropertyAccessExpression(callee) || !ts.isIdentifier(callee.expression)) return undefined;
+  const namespace = callee.expression.text;
+  const member = callee.name.text;
+  const operator = `${namespace}.${member}`;
+  
+  if (namespace === 'Effect' && member.startsWith('acquireRelease')) {
+    return { operator, acquire: node.arguments.length >= 2 ? node.arguments[0] : undefined, releasesItself: false };
+  }
+  if (namespace === 'Effect' && member === 'acquireUseRelease') {
+    return { operator, acquire: node.arguments[0], releasesItself: true };
+  }
+  if ((namespace === 'Effect' || namespace === 'Scope') && member === 'addFinalizer') {
+    return { operator, acquire: node.arguments[node.arguments.length - 1], releasesItself: false };
+  }
+  return undefined;
+};
+
+// Pure function to recognize `Effect.scoped(effect)`, `effect.pipe(Effect.scoped)`, `Layer.scoped(Tag, effect)`,
+// `Layer.scopedDiscard(effect)`, `Layer.scopedContext(effect)` and `Scope.extend(effect, scope)`
+export const getClosingCall = (node: ts.CallExpression): ClosingCall | undefined => {
+  const callee = node.expression;
+  const args = Array.from(node.arguments);
+  
+  // A bare `Effect.scoped` stage closes whatever is piped into it
+  const isPipe = ts.isIdentifier(callee) ? callee.text === 'pipe' :
+                 ts.isPropertyAccessExpression(callee) && callee.name.text === 'pipe';
+  if (isPipe) {
+    const stages = ts.isPropertyAccessExpression(callee) ? args : args.slice(1);
+    const source = ts.isPropertyAccessExpression(callee) ? callee.expression : args[0];
+    const index = stages.findIndex(stage => isClosingStage(stage));
+    const stage = stages[index];
+    if (!stage || !source) return undefined;
+    return { node, operator: getOperator(stage), closed: [source, ...stages.slice(0, index)] };
+  }
+  
+  // `Scope.extend(scope)` with a single argument is a data-last stage
+  const position = getClosingPosition(callee);
+  const isDataLast = ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression) &&
+                     callee.expression.text === 'Scope' && args.length < 2;
+  const closed = position === undefined || isDataLast ? undefined : args[position];
+  return closed ? { node, operator: getOperator(callee), closed: [closed] } : undefined;
+};
+
+// Pure function to find the closing application a node is lexically inside of, if any
+export const findEnclosingClosingCall = (node: ts.Node): ClosingCall | undefined => {
+  let current = node.parent;
+  while (current) {
+    if (ts.isCallExpression(current)) {
+      const closure = getClosingCall(current);
+      if (closure?.closed.some(closed => closed.pos <= node.pos && node.end <= closed.end)) return closure;
+    }
+    current = current.parent;
+  }
+  return undefined;
+};
+
+// Whether an R channel member is the Scope service: "Scope" or "Scope.Scope"
+export const isScopeRequirement = (dependency: string): boolean => /^(Scope\.)?Scope$/.test(dependency.trim());
+
+const getClosingPosition = (callee: ts.Expression): number | undefined => {
+  if (!ts.isPropertyAccessExpression(callee) || !ts.isIdentifier(callee.expression)) return undefined;
+  return CLOSING_CALLS[callee.expression.text]?.[callee.name.text];
+};
+
+// `Effect.scoped`, or a data-last `Scope.extend(scope)`
+const isClosingStage = (stage: ts.Expression): boolean => {
+  if (ts.isPropertyAccessExpression(stage)) {
+    return ts.isIdentifier(stage.expression) && stage.expression.text === 'Effect' && stage.name.text === 'scoped';
+  }
+  return ts.isCallExpression(stage) && stage.arguments.length === 1 &&
+         ts.isPropertyAccessExpression(stage.expression) && ts.isIdentifier(stage.expression.expression) &&
+         stage.expression.expression.text === 'Scope' && getClosingPosition(stage.expression) !== undefined;
+};
+
+const getOperator = (expression: ts.Expression): string => {
+  const callee = ts.isCallExpression(expression) ? expression.expression : expression;
+  return callee.getText();
+};
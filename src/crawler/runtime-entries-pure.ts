@@ -0,0 +1,231 @@
+/**
+ * Purpose: Pure detection of where programs are run (NodeRuntime.runMain, Effect.runPromise / runFork / runSync,
+ *          ManagedRuntime instances), the layers supplied to them and the kind of program they run
+ * Dependencies: TypeScript Compiler API, crawler helpers
+ * 
+ * Example Input:
+ * ```
+ * collectRuntimeEntries(sourceFiles, resolve)
+ * ```
+ * 
+ * Expected Output:
+ * ```
+ * [{ runtime: { runner: 'NodeRuntime.runMain', kind: 'http-server', layers: ['HttpLive'] },
+ *    effect: undefined, anchor: <the runMain call>, filePath, line }]
+ * ```
+ */
+
+import * as ts from 'typescript';
+import type { RuntimeEntry, RuntimeEntryKind } from '../types/effect-node.js';
+import type { SourceFileInput } from './ast-analyzer-pure.js';
+import { getLineNumber, isNamespaceCall, getPipeParts, describeExpression } from './ast-helpers-pure.js';
+
+// Looks up what an identifier refers to, e.g. `runtime` in `runtime.runPromise(program)`
+export type RuntimeResolver = (identifier: ts.Identifier) => ts.Expression | undefined;
+
+// A call running an effect, with the effect and the layers supplied to it (innermost first)
+export interface RunCall {
+  runner: string;
+  base: ts.Expression;
+  layerExpressions: ts.Expression[];
+  stages: ts.Expression[];               // Pipe stages before the runner in `program.pipe(..., NodeRuntime.runMain)`
+}
+
+// A run call found in the source, before it becomes a node
+export interface RuntimeEntryDefinition {
+  runtime: RuntimeEntry;
+  anchor: ts.CallExpression;             // The run call; fingerprinted for its ID
+  effect: ts.Expression | undefined;     // Effect being run; undefined for launched layers
+  filePath: string;
+  line: number;
+}
+
+// Runtime entry points that must receive a fully provided effect
+const RUN_ENTRIES: Record<string, string[]> = {
+  Effect: ['runPromise', 'runPromiseExit', 'runSync', 'runSyncExit', 'runFork', 'runCallback'],
+  NodeRuntime: ['runMain'],
+  BunRuntime: ['runMain'],
+  DenoRuntime: ['runMain'],
+  Layer: ['launch']
+};
+
+// Methods of a ManagedRuntime built with `ManagedRuntime.make(layer)`
+const MANAGED_RUNS = RUN_ENTRIES['Effect'] || [];
+
+// Modules serving HTTP, and calls keeping a program looping on work
+const HTTP_SERVER_MODULES = ['HttpServer', 'HttpApiBuilder', 'HttpLayerRouter', 'NodeHttpServer', 'BunHttpServer'];
+const WORKER_LOOPS = ['Effect.forever', 'Effect.forkDaemon', 'Queue.take', 'Stream.runDrain', 'Stream.runForEach'];
+
+// Pure function to find every call running a program, and what it runs
+export const collectRuntimeEntries = (
+  sourceFiles: SourceFileInput[],
+  resolve: RuntimeResolver
+): RuntimeEntryDefinition[] => {
+  const definitions: RuntimeEntryDefinition[] = [];
+  
+  sourceFiles.forEach(fileInput => {
+    const visit = (node: ts.Node) => {
+      const call = ts.isCallExpression(node) ? getRunCall(node, resolve) : undefined;
+      // `Layer.launch` only builds an effect; whatever runs it is the entry
+      if (call && ts.isCallExpression(node) && call.runner !== 'Layer.launch') {
+        definitions.push(createDefinition(node, call, fileInput.path, resolve));
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(fileInput.sourceFile);
+  });
+  
+  return definitions;
+};
+
+// Pure function to recognize `Effect.runPromise(program)`, `NodeRuntime.runMain(program)`,
+// `program.pipe(Effect.provide(AppLive), NodeRuntime.runMain)`, `Layer.launch(AppLive)` and,
+// with a resolver, `runtime.runPromise(program)` on a `ManagedRuntime.make(AppLive)`
+export const getRunCall = (node: ts.CallExpression, resolve: RuntimeResolver = () => undefined): RunCall | undefined => {
+  const direct = getRunner(node.expression, resolve);
+  const arg = node.arguments[0];
+  if (direct && arg) {
+    const inner = unwrapProvision(arg);
+    return { runner: direct.runner, base: inner.base, layerExpressions: [...inner.layerExpressions, ...direct.layers], stages: [] };
+  }
+  
+  const pipe = getPipeParts(node);
+  const lastStage = pipe?.stages[pipe.stages.length - 1];
+  const piped = lastStage && getRunner(lastStage, resolve);
+  if (pipe && piped) {
+    const inner = unwrapProvision(pipe.base);
+    const stages = pipe.stages.slice(0, -1);
+    return {
+      runner: piped.runner,
+      base: inner.base,
+      layerExpressions: [...inner.layerExpressions, ...getProvideStages(stages), ...piped.layers],
+      stages
+    };
+  }
+  return undefined;
+};
+
+// Peels `Effect.provide(effect, layer)` and `.pipe(Effect.provide(layer))` off an effect
+const unwrapProvision = (expression: ts.Expression): { base: ts.Expression; layerExpressions: ts.Expression[] } => {
+  if (ts.isCallExpression(expression)) {
+    const [first, second] = expression.arguments;
+    if (isNamespaceCall(expression.expression, 'Effect', 'provide') && first && second) {
+      const inner = unwrapProvision(first);
+      return { base: inner.base, layerExpressions: [...inner.layerExpressions, second] };
+    }
+    
+    const pipe = getPipeParts(expression);
+    const provideStages = pipe ? getProvideStages(pipe.stages) : [];
+    if (pipe && provideStages.length > 0) {
+      const inner = unwrapProvision(pipe.base);
+      return { base: inner.base, layerExpressions: [...inner.layerExpressions, ...provideStages] };
+    }
+  }
+  
+  return { base: expression, layerExpressions: [] };
+};
+
+// Runner named by a callee or pipe stage, with the layers a ManagedRuntime was made from
+const getRunner = (expression: ts.Expression, resolve: RuntimeResolver): { runner: string; layers: ts.Expression[] } | undefined => {
+  if (!ts.isPropertyAccessExpression(expression) || !ts.isIdentifier(expression.expression)) return undefined;
+  const namespace = expression.expression.text;
+  const member = expression.name.text;
+  if (RUN_ENTRIES[namespace]?.includes(member)) return { runner: `${namespace}.${member}`, layers: [] };
+  if (!MANAGED_RUNS.includes(member)) return undefined;
+  
+  const runtime = resolve(expression.expression);
+  const layer = runtime && ts.isCallExpression(runtime) && isNamespaceCall(runtime.expression, 'ManagedRuntime', 'make') ?
+                runtime.arguments[0] : undefined;
+  return layer && { runner: `ManagedRuntime.${member}`, layers: [layer] };
+};
+
+const getProvideStages = (stages: ts.Expression[]): ts.Expression[] => {
+  return stages.flatMap(stage => {
+    if (!ts.isCallExpression(stage)) return [];
+    if (isNamespaceCall(stage.expression, 'Effect', 'provide') && stage.arguments.length === 1 && stage.arguments[0]) {
+      return [stage.arguments[0]];
+    }
+    if (isNamespaceCall(stage.expression, 'Effect', 'provideService')) {
+      return [stage];
+    }
+    return [];
+  });
+};
+
+// A run of `Layer.launch(AppLive)`, or of `HttpApiBuilder.serve().pipe(Layer.provide(ApiLive), Layer.launch, ...)`,
+// runs the layer: its layers are the launched one and those provided to it
+const createDefinition = (
+  node: ts.CallExpression,
+  call: RunCall,
+  filePath: string,
+  resolve: RuntimeResolver
+): RuntimeEntryDefinition => {
+  const launchStage = call.stages.findIndex(stage => isNamespaceCall(stage, 'Layer', 'launch'));
+  const launchCall = ts.isCallExpression(call.base) && isNamespaceCall(call.base.expression, 'Layer', 'launch') ?
+                     call.base : undefined;
+  const launched = launchCall?.arguments[0] ? [launchCall.arguments[0]] :
+                   launchStage >= 0 ? [call.base, ...call.stages.slice(0, launchStage).flatMap(getLayerProvideArguments)] :
+                   [];
+  const effect = launched.length > 0 ? undefined : call.base;
+  const layerExpressions = [...launched, ...call.layerExpressions];
+  
+  return {
+    runtime: {
+      runner: call.runner,
+      kind: getRuntimeKind(call.runner, launched.length > 0, [call.base, ...call.stages, ...layerExpressions], resolve),
+      ...(effect && { effect: describeExpression(effect) }),
+      layers: Array.from(new Set(layerExpressions.map(describeExpression)))
+    },
+    anchor: node,
+    effect,
+    filePath,
+    line: getLineNumber(node)
+  };
+};
+
+// Pure function to tell what kind of program a run starts from the modules it reaches:
+// an @effect/cli command, an HTTP server, a long-running worker or a one-off script
+const getRuntimeKind = (
+  runner: string,
+  launched: boolean,
+  expressions: ts.Expression[],
+  resolve: RuntimeResolver
+): RuntimeEntryKind => {
+  const names = collectNames(expressions, resolve);
+  const uses = (predicate: (name: string) => boolean) => Array.from(names).some(predicate);
+  
+  if (names.has('Command.run') || uses(name => name.startsWith('CliApp.'))) return 'cli';
+  if (uses(name => HTTP_SERVER_MODULES.includes(name.split('.')[0] || ''))) return 'http-server';
+  if (launched || runner.endsWith('.runFork') || uses(name => WORKER_LOOPS.includes(name))) return 'worker';
+  return 'script';
+};
+
+// `Namespace.member` accesses in the expressions and in what their identifiers refer to
+const collectNames = (expressions: ts.Expression[], resolve: RuntimeResolver): Set<string> => {
+  const names = new Set<string>();
+  const seen = new Set<ts.Node>();
+  
+  const visit = (node: ts.Node) => {
+    if (ts.isPropertyAccessExpression(node) && ts.isIdentifier(node.expression)) {
+      names.add(`${node.expression.text}.${node.name.text}`);
+    }
+    if (ts.isIdentifier(node) && !(ts.isPropertyAccessExpression(node.parent) && node.parent.name === node)) {
+      const target = resolve(node);
+      if (target && !seen.has(target)) {
+        seen.add(target);
+        visit(target);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  expressions.forEach(visit);
+  
+  return names;
+};
+
+// `Layer.provide(ApiLive)` and `Layer.provideMerge(ApiLive)` stages -> ApiLive
+const getLayerProvideArguments = (stage: ts.Expression): ts.Expression[] => {
+  if (!ts.isCallExpression(stage) || stage.arguments.length !== 1 || !stage.arguments[0]) return [];
+  return isNamespaceCall(stage.expression, 'Layer', 'provide') || isNamespaceCall(stage.expression, 'Layer', 'provideMerge') ?
+         [stage.arguments[0]] : [];
+};
@@ -0,0 +1,217 @@
+/**
+ * Purpose: Pure detection of Effect Schema declarations and of the calls that decode or encode with them
+ * Dependencies: TypeScript Compiler API, crawler helpers
+ * 
+ * Example Input:
+ * ```
+ * getSchemaDefinition(<const UserSchema = Schema.Struct({ id: Schema.String, name: Schema.optional(Schema.String) })>)
+ * getSchemaUsage(<Schema.decodeUnknown(UserSchema)>)
+ * ```
+ * 
+ * Expected Output:
+ * ```
+ * { kind: 'struct', typeNames: ['UserSchema', 'User'],
+ *   fields: [{ name: 'id', schema: 'Schema.String', optional: false },
+ *            { name: 'name', schema: 'Schema.optional(Schema.String)', optional: true }] }
+ * 'decodes'
+ * ```
+ */
+
+import * as ts from 'typescript';
+import type { SchemaDefinition, SchemaField, SchemaUsage } from '../types/effect-node.js';
+import { getStringArgument, isNamespaceCall, describeExpression } from './ast-helpers-pure.js';
+
+// @effect/platform namespaces whose `schema*` helpers decode or encode a message body, params or headers
+const PLATFORM_DECODERS = ['HttpRouter', 'HttpServerRequest', 'HttpClientResponse', 'HttpIncomingMessage'];
+const PLATFORM_ENCODERS = ['HttpServerResponse', 'HttpClientRequest'];
+
+// Modifiers that make a struct field optional
+const OPTIONAL_FIELDS = ['optional', 'optionalWith'];
+
+// Pure function to read a schema declaration:
+// `const User = Schema.Struct({...})`, `Schema.TaggedStruct("Tag", {...})`,
+// `class User extends Schema.Class<User>("User")({...})`, `Schema.TaggedClass<Self>()("Tag", {...})`
+// and `Schema.TaggedRequest<Self>()("Tag", { failure, success, payload })`
+export const getSchemaDefinition = (
+  node: ts.VariableDeclaration | ts.ClassDeclaration
+): SchemaDefinition | undefined => {
+  if (ts.isClassDeclaration(node)) {
+    return node.name ? getClassSchema(node, node.name.text) : undefined;
+  }
+  if (!ts.isIdentifier(node.name) || !node.initializer) return undefined;
+  
+  const root = unwrapSchemaChain(node.initializer);
+  if (!ts.isCallExpression(root)) return undefined;
+  
+  const typeNames = [node.name.text, ...findTypeAliases(node.getSourceFile(), node.name.text)];
+  if (isNamespaceCall(root.expression, 'Schema', 'Struct')) {
+    return { kind: 'struct', fields: getFields(root.arguments[0]), typeNames: Array.from(new Set(typeNames)) };
+  }
+  if (isNamespaceCall(root.expression, 'Schema', 'TaggedStruct')) {
+    const tag = getStringArgument(root, 0);
+    return {
+      kind: 'tagged-struct',
+      ...(tag && { tag }),
+      fields: getFields(root.arguments[1]),
+      typeNames: Array.from(new Set(typeNames))
+    };
+  }
+  return undefined;
+};
+
+// Pure function to recognize a call that decodes or encodes with a schema, and the schema it is given:
+// `Schema.decodeUnknown(User)`, `Schema.encode(User)`, `HttpServerRequest.schemaBodyJson(User)`...
+export const getSchemaUsage = (
+  node: ts.CallExpression
+): { usage: Exclude<SchemaUsage, 'returns'>; schema: ts.Expression } | undefined => {
+  const callee = node.expression;
+  const schema = node.arguments[0];
+  if (!schema || !ts.isPropertyAccessExpression(callee) || !ts.isIdentifier(callee.expression)) return undefined;
+  
+  const namespace = callee.expression.text;
+  const member = callee.name.text;
+  if (namespace === 'Schema') {
+    if (/^(decode|validate)/.test(member)) return { usage: 'decodes', schema };
+    if (/^encode/.test(member)) return { usage: 'encodes', schema };
+    return undefined;
+  }
+  if (/^schema[A-Z]/.test(member)) {
+    if (PLATFORM_DECODERS.includes(namespace)) return { usage: 'decodes', schema };
+    if (PLATFORM_ENCODERS.includes(namespace)) return { usage: 'encodes', schema };
+  }
+  return undefined;
+};
+
+// Pure function to find the identifiers a schema argument refers to:
+// `User`, and `User` and `Post` in `Schema.Array(User)` or `Schema.Union(User, Post)`
+export const getSchemaReferences = (schema: ts.Expression): ts.Identifier[] => {
+  const references: ts.Identifier[] = [];
+  const visit = (node: ts.Node) => {
+    if (ts.isIdentifier(node)) {
+      if (node.text !== 'Schema') references.push(node);
+      return;
+    }
+    if (ts.isPropertyAccessExpression(node)) {
+      visit(node.expression);
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(schema);
+  return references;
+};
+
+// Whether an expression builds on the Schema module, e.g. `Schema.Struct({...}).pipe(Schema.brand("User"))`
+export const isSchemaExpression = (expression: ts.Expression): boolean => {
+  let current: ts.Expression = expression;
+  while (ts.isCallExpression(current) || ts.isPropertyAccessExpression(current)) {
+    current = current.expression;
+  }
+  return ts.isIdentifier(current) && current.text === 'Schema';
+};
+
+// Pure function to find the names a success type mentions, so `readonly User[]` or `Option<User>` match `User`
+export const getTypeNameTokens = (typeText: string): string[] => {
+  return Array.from(new Set(typeText.match(/[A-Za-z_$][\w$]*/g) || []));
+};
+
+// Class schemas are read from their heritage clause
+const getClassSchema = (node: ts.ClassDeclaration, className: string): SchemaDefinition | undefined => {
+  const heritage = node.heritageClauses?.find(clause => clause.token === ts.SyntaxKind.ExtendsKeyword);
+  const base = heritage?.types[0]?.expression;
+  if (!base || !ts.isCallExpression(base) || !ts.isCallExpression(base.expression)) return undefined;
+  
+  const constructor = base.expression.expression;
+  const typeNames = [className];
+  if (isNamespaceCall(constructor, 'Schema', 'Class')) {
+    return { kind: 'class', fields: getFields(base.arguments[0]), typeNames };
+  }
+  
+  const tag = getStringArgument(base, 0);
+  if (isNamespaceCall(constructor, 'Schema', 'TaggedClass')) {
+    return { kind: 'tagged-class', ...(tag && { tag }), fields: getFields(base.arguments[1]), typeNames };
+  }
+  if (isNamespaceCall(constructor, 'Schema', 'TaggedRequest')) {
+    const options = base.arguments[1];
+    const success = options && getPropertyInitializer(options, 'success');
+    const failure = options && getPropertyInitializer(options, 'failure');
+    return {
+      kind: 'tagged-request',
+      ...(tag && { tag }),
+      fields: getFields(options && getPropertyInitializer(options, 'payload')),
+      typeNames,
+      ...(success && { success: describeExpression(success) }),
+      ...(failure && { failure: describeExpression(failure) })
+    };
+  }
+  return undefined;
+};
+
+// `Schema.Struct({...}).pipe(...)` and `.annotations(...)` still declare the struct
+const unwrapSchemaChain = (expression: ts.Expression): ts.Expression => {
+  let current = expression;
+  while (ts.isCallExpression(current) && ts.isPropertyAccessExpression(current.expression) &&
+         ['pipe', 'annotations'].includes(current.expression.name.text)) {
+    current = current.expression.expression;
+  }
+  return current;
+};
+
+// Fields of an object literal; spreads such as `...Base.fields` are not followed
+const getFields = (fields: ts.Expression | undefined): SchemaField[] => {
+  if (!fields || !ts.isObjectLiteralExpression(fields)) return [];
+  
+  return fields.properties.flatMap((prop): SchemaField[] => {
+    if (ts.isShorthandPropertyAssignment(prop)) {
+      return [{ name: prop.name.text, schema: prop.name.text, optional: false }];
+    }
+    if (!ts.isPropertyAssignment(prop) || !(ts.isIdentifier(prop.name) || ts.isStringLiteral(prop.name))) return [];
+    return [{ name: prop.name.text, schema: describeExpression(prop.initializer), optional: isOptionalField(prop.initializer) }];
+  });
+};
+
+// `Schema.optional(x)`, `Schema.optionalWith(x, {...})` or a pipe ending in either
+const isOptionalField = (field: ts.Expression): boolean => {
+  const isOptional = (expression: ts.Expression): boolean =>
+    OPTIONAL_FIELDS.some(member => isNamespaceCall(expression, 'Schema', member));
+  if (!ts.isCallExpression(field)) return false;
+  if (isOptional(field.expression)) return true;
+  
+  const last = ts.isPropertyAccessExpression(field.expression) && field.expression.name.text === 'pipe' ?
+               field.arguments[field.arguments.length - 1] : undefined;
+  return !!last && (isOptional(last) || (ts.isCallExpression(last) && isOptional(last.expression)));
+};
+
+const getPropertyInitializer = (options: ts.Expression, name: string): ts.Expression | undefined => {
+  if (!ts.isObjectLiteralExpression(options)) return undefined;
+  const prop = options.properties.find(property =>
+    ts.isPropertyAssignment(property) && ts.isIdentifier(property.name) && property.name.text === name);
+  return prop && ts.isPropertyAssignment(prop) ? prop.initializer : undefined;
+};
+
+// Type aliases and interfaces of the same file that name the decoded type of a schema:
+// `type User = typeof UserSchema.Type`, `type User = Schema.Schema.Type<typeof UserSchema>`
+// and `interface User extends Schema.Schema.Type<typeof UserSchema> {}`
+const findTypeAliases = (sourceFile: ts.SourceFile, schemaName: string): string[] => {
+  const namesType = (node: ts.Node): boolean => {
+    if (ts.isTypeQueryNode(node)) {
+      const { exprName } = node;
+      if (ts.isQualifiedName(exprName)) {
+        return ts.isIdentifier(exprName.left) && exprName.left.text === schemaName && exprName.right.text === 'Type';
+      }
+      const reference = node.parent;
+      const referenceName = ts.isTypeReferenceNode(reference) ? reference.typeName :
+                            ts.isExpressionWithTypeArguments(reference) && ts.isPropertyAccessExpression(reference.expression) ?
+                            reference.expression.name : undefined;
+      const typeName = referenceName && (ts.isQualifiedName(referenceName) ? referenceName.right : referenceName);
+      return exprName.text === schemaName && !!typeName && ts.isIdentifier(typeName) && typeName.text === 'Type';
+    }
+    return ts.forEachChild(node, namesType) === true;
+  };
+  
+  return sourceFile.statements.flatMap(statement => {
+    if (ts.isTypeAliasDeclaration(statement) && namesType(statement.type)) return [statement.name.text];
+    if (ts.isInterfaceDeclaration(statement) && statement.heritageClauses?.some(namesType)) return [statement.name.text];
+    return [];
+  });
+};
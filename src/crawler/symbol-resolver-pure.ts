@@ -0,0 +1,113 @@
+/**
+ * Purpose: Pure import-aware symbol resolution shared by the crawler and the function analyzer
+ * Dependencies: TypeScript Compiler API (type checker)
+ * 
+ * Example Input:
+ * ```
+ * resolveDeclarations(checker, getCalleeNode(call))
+ * ```
+ * 
+ * Expected Output:
+ * ```
+ * The declaration of `create` in src/users/create.ts for `createUser()`, following
+ * `import { create as createUser }`, namespace imports, re-exports and barrel files
+ * ```
+ */
+
+import * as ts from 'typescript';
+
+// Follows import aliases, `export { a as b } from` re-exports and `export *` barrels
+// back to the symbol that is actually declared
+export const resolveSymbol = (checker: ts.TypeChecker, node: ts.Node): ts.Symbol | undefined => {
+  const symbol = checker.getSymbolAtLocation(node);
+  if (!symbol) return undefined;
+  return symbol.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(symbol) : symbol;
+};
+
+// Empty when the symbol is unknown, e.g. an import whose module cannot be resolved
+export const resolveDeclarations = (checker: ts.TypeChecker, node: ts.Node): ts.Declaration[] => {
+  try {
+    return resolveSymbol(checker, node)?.declarations || [];
+  } catch {
+    return [];
+  }
+};
+
+// Files a reference passes through on its way to the declaration: the imported module,
+// every re-export hop and the declaring file. Editing any of them can retarget the reference
+export const getResolutionFiles = (checker: ts.TypeChecker, node: ts.Node): string[] => {
+  const files = new Set<string>();
+  const visited = new Set<ts.Symbol>();
+  try {
+    let symbol = checker.getSymbolAtLocation(node);
+    while (symbol && !visited.has(symbol)) {
+      visited.add(symbol);
+      for (const declaration of symbol.declarations || []) {
+        addSourceFile(files, declaration.getSourceFile());
+        const moduleSpecifier = getModuleSpecifier(declaration);
+        const moduleDeclaration = moduleSpecifier && checker.getSymbolAtLocation(moduleSpecifier)?.valueDeclaration;
+        if (moduleDeclaration && ts.isSourceFile(moduleDeclaration)) {
+          addSourceFile(files, moduleDeclaration);
+        }
+      }
+      symbol = symbol.flags & ts.SymbolFlags.Alias ? checker.getImmediateAliasedSymbol(symbol) : undefined;
+    }
+  } catch {
+    // Partial chains are still useful
+  }
+  return Array.from(files);
+};
+
+const addSourceFile = (files: Set<string>, sourceFile: ts.SourceFile): void => {
+  if (!sourceFile.isDeclarationFile) files.add(sourceFile.fileName);
+};
+
+// `'./users'` for a binding created by `import { a } from './users'` or `export { a } from './users'`
+const getModuleSpecifier = (declaration: ts.Node): ts.Expression | undefined => {
+  let current: ts.Node | undefined = declaration;
+  while (current && !ts.isSourceFile(current)) {
+    if (ts.isImportDeclaration(current) || ts.isExportDeclaration(current)) {
+      return current.moduleSpecifier;
+    }
+    if (!ts.isImportSpecifier(current) && !ts.isExportSpecifier(current) && !ts.isNamedImports(current) &&
+        !ts.isNamedExports(current) && !ts.isNamespaceImport(current) && !ts.isImportClause(current)) {
+      return undefined;
+    }
+    current = current.parent;
+  }
+  return undefined;
+};
+
+// Name a binding was exported under: `create` for `import { create as make }`.
+// Lets name-based fallbacks match even when the module itself cannot be resolved
+export const getImportedName = (checker: ts.TypeChecker, node: ts.Identifier): string => {
+  const declaration = checker.getSymbolAtLocation(node)?.declarations?.[0];
+  if (declaration && ts.isImportSpecifier(declaration)) {
+    return (declaration.propertyName || declaration.name).text;
+  }
+  return node.text;
+};
+
+// The identifier naming the called function: `fn()`, `ns.fn()`, `obj.method()`
+export const getCalleeNode = (node: ts.CallExpression): ts.Node | undefined => {
+  const expression = node.expression;
+  if (ts.isIdentifier(expression)) return expression;
+  if (ts.isPropertyAccessExpression(expression)) return expression.name;
+  return undefined;
+};
+
+// The function-like node a declaration stands for: the arrow in `const f = () => ...`
+export const getFunctionNode = (declaration: ts.Node): ts.Node => {
+  if ((ts.isVariableDeclaration(declaration) || ts.isPropertyAssignment(declaration) ||
+       ts.isPropertyDeclaration(declaration)) && declaration.initializer) {
+    const initializer = skipParentheses(declaration.initializer);
+    if (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) {
+      return initializer;
+    }
+  }
+  return declaration;
+};
+
+const skipParentheses = (node: ts.Expression): ts.Expression => {
+  return ts.isParenthesizedExpression(node) ? skipParentheses(node.expression) : node;
+};
@@ -0,0 +1,71 @@
+/**
+ * Purpose: Worker thread pool that shards per-file analysis across CPU cores
+ * Dependencies: worker_threads, os, path, url
+ * 
+ * Example Input:
+ * ```
+ * runInWorkers(resolveWorkerUrl('./analysis-worker', import.meta.url), createShards(files, 4).map(toTask))
+ * ```
+ * 
+ * Expected Output:
+ * ```
+ * One result per task, in task order regardless of which worker finished first
+ * ```
+ */
+
+import { Worker } from 'worker_threads';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+// Pure function to resolve a configured worker count; 'auto' uses every available core
+// Anything below 2 means single-threaded analysis
+export const resolveWorkerCount = (value: number | string | undefined): number => {
+  if (value === 'auto') return os.availableParallelism();
+  const count = typeof value === 'number' ? value : parseInt(value || '', 10);
+  return Number.isFinite(count) && count > 1 ? Math.floor(count) : 1;
+};
+
+// Pure function to split items into at most `count` contiguous shards of near-equal size
+// Contiguous shards keep file order, so merging results shard by shard is deterministic
+export const createShards = <T>(items: T[], count: number): T[][] => {
+  const shardCount = Math.max(1, Math.min(count, items.length));
+  const shards: T[][] = [];
+  let start = 0;
+  for (let index = 0; index < shardCount; index++) {
+    const size = Math.floor(items.length / shardCount) + (index < items.length % shardCount ? 1 : 0);
+    shards.push(items.slice(start, start + size));
+    start += size;
+  }
+  return shards;
+};
+
+// Worker entry next to the calling module, with the caller's own extension
+// (.ts when run through tsx, .js once compiled)
+export const resolveWorkerUrl = (relativePath: string, baseUrl: string): URL => {
+  return new URL(`${relativePath}${path.extname(fileURLToPath(baseUrl))}`, baseUrl);
+};
+
+// IO function to start a worker; .ts entries register tsx first, since
+// workers do not inherit the loader the main thread was started with
+const startWorker = (workerUrl: URL, workerData: unknown): Worker => {
+  if (!workerUrl.pathname.endsWith('.ts')) {
+    return new Worker(workerUrl, { workerData });
+  }
+  const tsxApi = import.meta.resolve('tsx/esm/api');
+  const bootstrap = `import(${JSON.stringify(tsxApi)}).then(api => { api.register(); return import(${JSON.stringify(workerUrl.href)}); });`;
+  return new Worker(bootstrap, { eval: true, workerData });
+};
+
+// IO function to run each task on its own worker thread
+// The worker receives the task as workerData and posts back a single result
+export const runInWorkers = <TTask, TResult>(workerUrl: URL, tasks: TTask[]): Promise<TResult[]> => {
+  return Promise.all(tasks.map(task => new Promise<TResult>((resolve, reject) => {
+    const worker = startWorker(workerUrl, task);
+    worker.once('message', resolve);
+    worker.once('error', reject);
+    worker.once('exit', code => {
+      if (code !== 0) reject(new Error(`Analysis worker stopped with exit code ${code}`));
+    });
+  })));
+};
@@ -0,0 +1,147 @@
+/**
+ * Purpose: Pure npm/pnpm workspace helpers: package lookup, package-name resolution and coupling
+ * Dependencies: path, TypeScript Compiler API types
+ * 
+ * Example Input:
+ * ```
+ * findPackage(packages, '/repo/packages/users/src/create.ts')
+ * createPackageReport(packageOf, [['api.ts:handler:3', 'users/create.ts:create:1']])
+ * ```
+ * 
+ * Expected Output:
+ * ```
+ * { name: '@acme/users', dir: '/repo/packages/users' }
+ * { packages: { '@acme/api': { outgoing: 1, instability: 1, ... } },
+ *   coupling: [{ from: '@acme/api', to: '@acme/users', count: 1 }] }
+ * ```
+ */
+
+import * as path from 'path';
+import type * as ts from 'typescript';
+import type { PackageReport, PackageStats, PackageCoupling } from '../types/effect-node.js';
+
+// A package of the workspace
+export interface WorkspacePackage {
+  name: string;   // `name` from its package.json
+  dir: string;    // Absolute package directory
+}
+
+// Pure function to read the package globs of a package.json `workspaces` field
+// npm and yarn accept both `["packages/*"]` and `{ packages: ["packages/*"] }`
+export const getPackageJsonWorkspaces = (manifest: unknown): string[] => {
+  const workspaces = (manifest as { workspaces?: unknown } | null)?.workspaces;
+  const patterns = Array.isArray(workspaces) ? workspaces : (workspaces as { packages?: unknown } | undefined)?.packages;
+  return Array.isArray(patterns) ? patterns.filter((pattern): pattern is string => typeof pattern === 'string') : [];
+};
+
+// Pure function to read the `packages` list of a pnpm-workspace.yaml
+// Only the block (`- "packages/*"`) and flow (`[a, b]`) list forms pnpm documents are supported
+export const parsePnpmWorkspace = (yaml: string): string[] => {
+  const patterns: string[] = [];
+  const unquote = (value: string): string => value.trim().replace(/^(['"])(.*)\1$/, '$2');
+  let inPackages = false;
+  
+  for (const line of yaml.split(/\r?\n/)) {
+    const content = line.replace(/\s+#.*$/, '').replace(/^#.*$/, '').trimEnd();
+    if (!content.trim()) continue;
+    
+    if (/^\S/.test(content)) {
+      const flow = content.match(/^packages\s*:\s*\[(.*)\]$/);
+      flow?.[1]?.split(',').map(unquote).filter(Boolean).forEach(pattern => patterns.push(pattern));
+      inPackages = !flow && /^packages\s*:\s*$/.test(content);
+      continue;
+    }
+    
+    const item = content.match(/^\s*-\s*(.+)$/);
+    if (inPackages && item?.[1]) {
+      patterns.push(unquote(item[1]));
+    }
+  }
+  
+  return patterns;
+};
+
+// Pure function to find the package a file belongs to; the deepest package wins
+// for packages nested inside other packages
+export const findPackage = (packages: WorkspacePackage[], filePath: string): WorkspacePackage | undefined => {
+  return packages
+    .filter(pkg => filePath.startsWith(pkg.dir + path.sep))
+    .sort((a, b) => b.dir.length - a.dir.length)[0];
+};
+
+// Pure function to map every package name onto its sources, so `import { a } from '@acme/users'`
+// resolves to packages/users/src rather than to build output or a node_modules symlink
+export const createPackagePaths = (packages: WorkspacePackage[]): ts.MapLike<string[]> => {
+  const paths: ts.MapLike<string[]> = {};
+  for (const pkg of packages) {
+    paths[pkg.name] = [path.join(pkg.dir, 'src'), pkg.dir];
+    paths[`${pkg.name}/*`] = [path.join(pkg.dir, 'src', '*'), path.join(pkg.dir, '*')];
+  }
+  return paths;
+};
+
+// Pure function to add package-name resolution to compiler options
+// Aliases the project configures itself take precedence
+export const withWorkspacePaths = (
+  options: ts.CompilerOptions,
+  packages: WorkspacePackage[]
+): ts.CompilerOptions => ({
+  ...options,
+  paths: { ...createPackagePaths(packages), ...options.paths }
+});
+
+// Pure function to report how packages depend on each other
+// `packageOf` maps node or function IDs to their package; links are [caller, callee] ID pairs
+export const createPackageReport = (
+  packageOf: Map<string, string>,
+  links: Array<[string, string]>
+): PackageReport => {
+  const packages: Record<string, PackageStats> = {};
+  const getStats = (name: string): PackageStats => {
+    packages[name] ??= {
+      members: 0,
+      internalEdges: 0,
+      outgoing: 0,
+      incoming: 0,
+      dependsOn: [],
+      dependedOnBy: [],
+      instability: 0
+    };
+    return packages[name];
+  };
+  
+  Array.from(new Set(packageOf.values())).sort().forEach(getStats);
+  packageOf.forEach(name => getStats(name).members++);
+  
+  const coupling = new Map<string, PackageCoupling>();
+  for (const [source, target] of links) {
+    const from = packageOf.get(source);
+    const to = packageOf.get(target);
+    if (!from || !to) continue;
+    if (from === to) {
+      getStats(from).internalEdges++;
+      continue;
+    }
+    
+    const key = `${from} -> ${to}`;
+    const pair = coupling.get(key) || { from, to, count: 0 };
+    coupling.set(key, { ...pair, count: pair.count + 1 });
+    getStats(from).outgoing++;
+    getStats(to).incoming++;
+    if (!getStats(from).dependsOn.includes(to)) getStats(from).dependsOn.push(to);
+    if (!getStats(to).dependedOnBy.includes(from)) getStats(to).dependedOnBy.push(from);
+  }
+  
+  for (const stats of Object.values(packages)) {
+    const total = stats.incoming + stats.outgoing;
+    stats.instability = total > 0 ? Math.round((stats.outgoing / total) * 100) / 100 : 0;
+    stats.dependsOn.sort();
+    stats.dependedOnBy.sort();
+  }
+  
+  return {
+    packages,
+    coupling: Array.from(coupling.values())
+      .sort((a, b) => b.count - a.count || a.from.localeCompare(b.from) || a.to.localeCompare(b.to))
+  };
+};
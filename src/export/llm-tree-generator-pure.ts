@@ -13,7 +13,8 @@
  * ```
  */
 
-import type { AnalysisResult, EffectNode, EffectEdge } from '../types/effect-node.js';
+import type { AnalysisResult, EffectNode, EffectEdge, LaneDefinition } from '../types/effect-node.js';
+import { DEFAULT_CLASSIFICATION_RULES, groupByLane } from '../crawler/classification-rules-pure.js';
 
 export interface LLMTreeNode {
   id: string;
@@ -144,11 +145,45 @@ const buildImpactTree = (
   };
 };
 
+// Pure function to describe schema edges of a node: `getUser (decodes)` or `UserSchema (returns)`
+const describeSchemaEdges = (schemaEdges: EffectEdge[], nodes: Map<string, EffectNode>, end: 'source' | 'target'): string[] => {
+  return schemaEdges.map(edge => `${nodes.get(edge[end])?.name || edge[end]} (${edge.label})`);
+};
+
+// Pure function to format the fields of a schema and the effects that decode, encode or return it;
+// for other nodes, the schemas they touch
+const formatSchemaUsage = (rootNode: EffectNode, nodes: Map<string, EffectNode>, edges: EffectEdge[]): string => {
+  let output = '';
+  
+  if (rootNode.schema) {
+    const touchedBy = getDirectDependents(rootNode.id, edges).filter(edge => edge.type === 'schema');
+    output += `## 📐 Schema\n`;
+    output += `- **Kind**: ${rootNode.schema.kind}${rootNode.schema.tag ? ` (_tag "${rootNode.schema.tag}")` : ''}\n`;
+    rootNode.schema.fields.forEach(field => {
+      output += `- \`${field.name}${field.optional ? '?' : ''}\`: ${field.schema}\n`;
+    });
+    if (rootNode.schema.success) output += `- **Success**: ${rootNode.schema.success}\n`;
+    if (rootNode.schema.failure) output += `- **Failure**: ${rootNode.schema.failure}\n`;
+    output += `\n### Effects touching ${rootNode.name}\n`;
+    output += touchedBy.length > 0 ?
+      describeSchemaEdges(touchedBy, nodes, 'source').map(line => `- ${line}\n`).join('') :
+      '- None found\n';
+    return output + '\n';
+  }
+  
+  const touches = getDirectDependencies(rootNode.id, edges).filter(edge => edge.type === 'schema');
+  if (touches.length === 0) return '';
+  output += `## 📐 Schemas\n`;
+  output += describeSchemaEdges(touches, nodes, 'target').map(line => `- ${line}\n`).join('');
+  return output + '\n';
+};
+
 // Pure function to format tree for LLM
 const formatTreeForLLM = (
   rootNode: EffectNode,
   dependencyTree: LLMTreeNode | null,
-  impactTree: LLMTreeNode | null
+  impactTree: LLMTreeNode | null,
+  schemaUsage: string
 ): string => {
   let output = '';
   
@@ -167,6 +202,8 @@ const formatTreeForLLM = (
     output += '```\n\n';
   }
   
+  output += schemaUsage;
+  
   output += `## 🌳 DEPENDENCY TREE (What ${rootNode.name} depends on)\n\n`;
   if (dependencyTree) {
     output += formatNodeTree(dependencyTree, '');
@@ -318,34 +355,21 @@ const getArchitecturalRole = (type: string): string => {
     middleware: 'Cross-cutting concerns',
     utility: 'Helper functions and utilities',
     worker: 'Background job processing',
-    error: 'Error handling and recovery'
+    error: 'Error handling and recovery',
+    schema: 'Domain data shape, decoded and encoded at boundaries',
+    stream: 'Pull-based stream of values',
+    sink: 'Stream consumer producing a result',
+    schedule: 'Retry and repetition policy',
+    stm: 'Transactional state change',
+    queue: 'Message passing between fibers',
+    pubsub: 'Broadcast of messages to subscribers'
   };
   return roles[type] || 'Domain-specific functionality';
 };
 
-// Pure function to group nodes by layer
-const groupNodesByLayer = (nodes: EffectNode[]): Record<string, EffectNode[]> => {
-  const layers: Record<string, EffectNode[]> = {
-    controllers: [],
-    services: [],
-    repositories: [],
-    middleware: [],
-    utilities: [],
-    workers: [],
-    errors: []
-  };
-  
-  nodes.forEach(node => {
-    const layerKey = `${node.type}s`;
-    if (layers[layerKey]) {
-      layers[layerKey].push(node);
-    } else {
-      if (!layers.utilities) layers.utilities = [];
-      layers.utilities.push(node);
-    }
-  });
-  
-  return layers;
+// Pure function to group nodes by layer: the swim lanes the railway was laid out in
+const groupNodesByLayer = (nodes: EffectNode[], lanes: LaneDefinition[]): Record<string, EffectNode[]> => {
+  return Object.fromEntries(groupByLane(lanes, nodes).map(lane => [lane.name, lane.items]));
 };
 
 // Main pure function to generate node analysis
@@ -374,7 +398,7 @@ export const generateNodeAnalysis = (analysis: AnalysisResult, nodeId: string):
       depth: 0,
       relationshipType: 'root'
     },
-    fullDependencyTree: formatTreeForLLM(rootNode, dependencyTree, impactTree),
+    fullDependencyTree: formatTreeForLLM(rootNode, dependencyTree, impactTree, formatSchemaUsage(rootNode, nodes, edges)),
     impactAnalysis: generateImpactAnalysis(rootNode, impactTree),
     modificationGuide: generateModificationGuide(rootNode),
     effectPatterns: generateEffectPatterns(rootNode, dependencyTree),
@@ -386,7 +410,7 @@ export const generateNodeAnalysis = (analysis: AnalysisResult, nodeId: string):
 export const generateSystemOverview = (analysis: AnalysisResult): string => {
   const nodes = createNodeMap(analysis.railway.nodes);
   const edges = analysis.railway.edges;
-  const layers = groupNodesByLayer(analysis.railway.nodes);
+  const layers = groupNodesByLayer(analysis.railway.nodes, analysis.railway.lanes || DEFAULT_CLASSIFICATION_RULES.lanes);
   
   let output = '';
   
@@ -415,6 +439,55 @@ export const generateSystemOverview = (analysis: AnalysisResult): string => {
         output += `- **Effect**: <${node.effectSignature.success}, `;
         output += `${node.effectSignature.error.join('|') || 'never'}>\n`;
       }
+      if (node.schema) {
+        const touchedBy = dependents.filter(edge => edge.type === 'schema');
+        output += `- **Fields**: ${node.schema.fields.map(field => field.name).join(', ') || 'none'}\n`;
+        output += `- **Touched by**: ${describeSchemaEdges(touchedBy, nodes, 'source').join(', ') || 'none'}\n`;
+      }
+      output += '\n';
+    });
+  }
+  
+  // Where programs are run, and runs nested inside effects
+  const programs = analysis.railway.nodes.filter(node => node.runtime);
+  if (programs.length > 0 || analysis.nestedRuns) {
+    output += '## 🚀 PROGRAM ENTRY POINTS\n\n';
+    programs.forEach(node => {
+      const layers = node.runtime?.layers.length ? ` with ${node.runtime.layers.join(', ')}` : '';
+      output += `- **${node.runtime?.kind}**: ${node.name}${layers} (${node.filePath}:${node.line})\n`;
+    });
+    analysis.nestedRuns?.forEach(run => {
+      output += `- ⚠️ ${run.runner} inside ${nodes.get(run.nodeId)?.name || run.nodeId} (${run.filePath}:${run.line})\n`;
+    });
+    output += '\n';
+  }
+  
+  // Entry-point-to-IO paths without a span, and span names opened more than once
+  if (analysis.observability) {
+    const { spans, unobservedPaths, duplicateSpans } = analysis.observability;
+    const nameOf = (id: string) => nodes.get(id)?.name || id;
+    output += '## 🔭 OBSERVABILITY\n\n';
+    output += `- Spans: ${spans}\n`;
+    output += `- Paths to IO without a span: ${unobservedPaths.length}\n`;
+    output += `- Duplicated span names: ${duplicateSpans.length}\n\n`;
+    unobservedPaths.forEach(path => {
+      output += `- ❌ ${path.path.map(nameOf).join(' → ')}\n`;
+    });
+    duplicateSpans.forEach(span => {
+      output += `- ⚠️ "${span.name}" opened by ${span.sites.map(site => `${nameOf(site.nodeId)}:${site.line}`).join(', ')}\n`;
+    });
+    output += '\n';
+  }
+  
+  // Config keys each route or worker needs through the effects it runs
+  if (analysis.configInventory && analysis.configInventory.length > 0) {
+    output += '## ⚙️ CONFIGURATION\n\n';
+    analysis.configInventory.forEach(entry => {
+      output += `### ${nodes.get(entry.entryId)?.name || entry.entryId}\n`;
+      entry.keys.forEach(key => {
+        const notes = [key.type, ...(key.optional ? ['optional'] : []), ...(key.default !== undefined ? [`default ${key.default}`] : [])];
+        output += `- **${key.key}** (${notes.join(', ')}), read by ${key.readBy.map(id => nodes.get(id)?.name || id).join(', ')}\n`;
+      });
       output += '\n';
     });
   }
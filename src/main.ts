@@ -24,6 +24,9 @@ import type { APIAnalysisResult } from './types/api-types.js';
 class EffectRailwayApp {
   private renderer: RailwayRendererBridge | null = null;
   private currentData: AnalysisResult | null = null;
+  private functionAnalysis: FunctionAnalysisResult | null = null;
+  private effectAnalysis: AnalysisResult | null = null;
+  private groupBy: 'folder' | 'package' = 'folder';
 
   constructor() {
     this.initializeApp();
@@ -52,7 +55,8 @@ class EffectRailwayApp {
         const functionData = await functionResponse.json();
         if (functionData.success && functionData.analysis) {
           // Convert function analysis to railway visualization format
-          this.currentData = this.convertFunctionAnalysisToRailway(functionData.analysis);
+          this.effectAnalysis = await this.fetchEffectAnalysis('');
+          this.setFunctionAnalysis(functionData.analysis);
           await this.renderVisualization();
           this.hideLoading();
           return;
@@ -133,7 +137,8 @@ class EffectRailwayApp {
       console.log('Fetched analysis:', functionData.analysis.metadata);
       
       // Convert function analysis to railway visualization format
-      this.currentData = this.convertFunctionAnalysisToRailway(functionData.analysis);
+      this.effectAnalysis = await this.fetchEffectAnalysis(`?targetDir=${encodeURIComponent(targetDir)}`);
+      this.setFunctionAnalysis(functionData.analysis);
       
       await this.renderVisualization();
     } catch (error) {
@@ -199,7 +204,8 @@ class EffectRailwayApp {
     if (totalNodesEl) totalNodesEl.textContent = String(this.currentData.statistics.totalNodes || 0);
     if (totalEdgesEl) totalEdgesEl.textContent = String(this.currentData.statistics.totalEdges || 0);
     
-    // Group nodes by folder and type
+    // Group nodes by folder and type; folders are package names when grouped by package
+    const groupIcon = this.groupBy === 'package' ? '📦' : '📁';
     const nodesByFolderAndType = new Map<string, Map<string, number>>();
     const errorTypesByFolder = new Map<string, Set<string>>();
     
@@ -251,7 +257,7 @@ class EffectRailwayApp {
         folderTitle.style.fontWeight = 'bold';
         folderTitle.style.color = '#3B82F6';
         folderTitle.style.marginBottom = '4px';
-        folderTitle.textContent = `📁 ${folder}`;
+        folderTitle.textContent = `${groupIcon} ${folder}`;
         folderDiv.appendChild(folderTitle);
         
         // Add types in this folder
@@ -303,7 +309,7 @@ class EffectRailwayApp {
           folderTitle.style.fontWeight = 'bold';
           folderTitle.style.color = '#EF4444';
           folderTitle.style.marginBottom = '4px';
-          folderTitle.textContent = `📁 ${folder}`;
+          folderTitle.textContent = `${groupIcon} ${folder}`;
           folderDiv.appendChild(folderTitle);
           
           // Add errors in this folder
@@ -323,6 +329,36 @@ class EffectRailwayApp {
         });
       }
     }
+    
+    // Update cross-package coupling for workspace analyses
+    const packageCouplingSection = document.getElementById('package-coupling-section');
+    const packageCouplingListEl = document.getElementById('package-coupling-list');
+    const packageReport = this.currentData.packages;
+    if (packageCouplingSection) {
+      packageCouplingSection.style.display = packageReport ? '' : 'none';
+    }
+    if (packageCouplingListEl && packageReport) {
+      packageCouplingListEl.innerHTML = '';
+      
+      Object.entries(packageReport.packages).forEach(([name, stats]) => {
+        const packageItem = document.createElement('div');
+        packageItem.style.padding = '2px 0';
+        packageItem.style.fontSize = '0.9rem';
+        packageItem.textContent = `📦 ${name}: ${stats.members} functions, ${stats.outgoing} out / ${stats.incoming} in (instability ${stats.instability})`;
+        packageCouplingListEl.appendChild(packageItem);
+      });
+      
+      if (packageReport.coupling.length === 0) {
+        packageCouplingListEl.insertAdjacentHTML('beforeend', '<div style="color: #999; font-style: italic;">No calls between packages</div>');
+      }
+      packageReport.coupling.forEach(({ from, to, count }) => {
+        const couplingItem = document.createElement('div');
+        couplingItem.style.padding = '2px 0 2px 12px';
+        couplingItem.style.fontSize = '0.9rem';
+        couplingItem.textContent = `${from} → ${to}: ${count} calls`;
+        packageCouplingListEl.appendChild(couplingItem);
+      });
+    }
   }
   
   private formatTypeName(type: string): string {
@@ -334,6 +370,7 @@ class EffectRailwayApp {
     const analyzeButton = document.getElementById('analyze-button') as HTMLButtonElement;
     const targetDirectory = document.getElementById('target-directory') as HTMLInputElement;
     const analysisStatus = document.getElementById('analysis-status') as HTMLDivElement;
+    const workspaceMode = document.getElementById('workspace-mode') as HTMLInputElement;
     
     analyzeButton?.addEventListener('click', async () => {
       const path = targetDirectory.value.trim();
@@ -346,12 +383,14 @@ class EffectRailwayApp {
       analyzeButton.disabled = true;
       
       try {
-        const response = await fetch(`http://localhost:3004/api/analyze/functions?targetDir=${encodeURIComponent(path)}`);
+        const workspace = workspaceMode?.checked ? '&workspace=true' : '';
+        const response = await fetch(`http://localhost:3004/api/analyze/functions?targetDir=${encodeURIComponent(path)}${workspace}`);
         if (response.ok) {
           const data = await response.json();
           if (data.success && data.analysis) {
             analysisStatus.textContent = `✅ Analyzed ${data.analysis.metadata.totalFunctions} functions in ${data.analysis.metadata.totalFolders} folders`;
-            this.currentData = this.convertFunctionAnalysisToRailway(data.analysis);
+            this.effectAnalysis = await this.fetchEffectAnalysis(`?targetDir=${encodeURIComponent(path)}${workspace}`);
+            this.setFunctionAnalysis(data.analysis);
             await this.renderVisualization();
             this.updateFilterOptions();
             // Zoom to fit new content
@@ -371,6 +410,17 @@ class EffectRailwayApp {
       }
     });
     
+    // Group lanes by folder or by workspace package
+    const groupBySelect = document.getElementById('group-by-select') as HTMLSelectElement;
+    groupBySelect?.addEventListener('change', async (event) => {
+      const target = event.target as HTMLSelectElement;
+      this.groupBy = target.value === 'package' ? 'package' : 'folder';
+      if (this.functionAnalysis) {
+        this.currentData = this.convertFunctionAnalysisToRailway(this.functionAnalysis);
+        await this.renderVisualization();
+      }
+    });
+    
     // Filter selection
     const filterSelect = document.getElementById('filter-select') as HTMLSelectElement;
     filterSelect?.addEventListener('change', (event) => {
@@ -381,10 +431,18 @@ class EffectRailwayApp {
     // Entry points toggle
     const entryPointsCheckbox = document.getElementById('show-entry-points') as HTMLInputElement;
     entryPointsCheckbox?.addEventListener('change', () => {
-      // Implement entry points highlighting
+      // Entry points are the crawler's HTTP routes and programs run
+      this.renderer?.setShowEntryPoints(entryPointsCheckbox.checked);
       this.renderer?.render(this.currentData!);
     });
 
+    // Observability overlay toggle
+    const observabilityCheckbox = document.getElementById('show-observability') as HTMLInputElement;
+    observabilityCheckbox?.addEventListener('change', () => {
+      this.renderer?.setShowObservability(observabilityCheckbox.checked);
+      this.renderer?.render(this.currentData!);
+    });
+    
     // Zoom controls for large datasets
     const zoomInButton = document.getElementById('zoom-in') as HTMLButtonElement;
     const zoomOutButton = document.getElementById('zoom-out') as HTMLButtonElement;
@@ -474,6 +532,36 @@ class EffectRailwayApp {
     }
   }
 
+  // Fetches the Effect crawl of the same target; the view falls back to functions only without it
+  private async fetchEffectAnalysis(query: string): Promise<AnalysisResult | null> {
+    try {
+      const response = await fetch(`http://localhost:3004/api/analyze/effects${query}`);
+      if (!response.ok) return null;
+      const effectData = await response.json();
+      return effectData.success && effectData.analysis ? effectData.analysis : null;
+    } catch (error) {
+      console.warn('Effect analysis unavailable:', error);
+      return null;
+    }
+  }
+  
+  // Keeps the raw analysis so the view can be regrouped without fetching it again
+  // Grouping by package is only offered for workspace analyses
+  private setFunctionAnalysis(functionAnalysis: FunctionAnalysisResult): void {
+    this.functionAnalysis = functionAnalysis;
+    
+    const groupBySelect = document.getElementById('group-by-select') as HTMLSelectElement;
+    if (groupBySelect) {
+      groupBySelect.disabled = !functionAnalysis.packages;
+      if (!functionAnalysis.packages) {
+        groupBySelect.value = 'folder';
+        this.groupBy = 'folder';
+      }
+    }
+    
+    this.currentData = this.convertFunctionAnalysisToRailway(functionAnalysis);
+  }
+  
   private mapFolderToNodeType(folder: string): string {
     // Use the folder name itself as the type
     // This gives each folder its own unique type instead of trying to categorize
@@ -483,16 +571,18 @@ class EffectRailwayApp {
   private convertFunctionAnalysisToRailway(functionAnalysis: FunctionAnalysisResult): AnalysisResult {
     const nodes: EffectNode[] = [];
     const edges: EffectEdge[] = [];
-    const nodeMap = new Map<string, string>(); // functionKey -> nodeId
-    let nodeCounter = 0;
+    const nodeIds = new Set<string>();
+    // Crawler nodes share the function IDs, so their spans and logs carry over per function
+    const effectById = new Map(this.effectAnalysis?.railway.nodes.map(node => [node.id, node]) || []);
 
     // Convert functions to nodes, grouped by actual folder structure
     const functionsByFolder = new Map<string, FunctionInfo[]>();
     
-    // Group functions by their actual folder
+    // Group functions by their actual folder, or by workspace package
+    // Lanes are laid out per folder, so grouping by package gives each package one lane
     functionAnalysis.functions.forEach((func: FunctionInfo) => {
       // Extract folder from file path if folder field is missing or generic
-      let folder = func.folder;
+      let folder = this.groupBy === 'package' && func.package ? func.package : func.folder;
       if (!folder || folder === '.' || folder === 'root' || folder === '') {
         // Use the first directory from the file path
         const fileParts = func.file.split('/');
@@ -525,21 +615,23 @@ class EffectRailwayApp {
       funcs.sort((a, b) => a.callsCount - b.callsCount);
       
       funcs.forEach(func => {
-        const nodeId = `node-${++nodeCounter}`;
-        const functionKey = `${func.file}:${func.name}:${func.startLine}`;
-        nodeMap.set(functionKey, nodeId);
+        // Function IDs are the canonical node IDs, so selections survive re-analysis
+        nodeIds.add(func.id);
         
         // Map folder to node type
         const nodeType = this.mapFolderToNodeType(folder);
+        const observability = effectById.get(func.id)?.observability;
         
         nodes.push({
-          id: nodeId,
+          id: func.id,
           name: func.name,
           type: nodeType, // Use mapped node type
           filePath: func.file,
           line: func.startLine,
           description: `${func.kind} with ${func.callsCount} dependencies`,
           folder: folder,
+          ...(func.package && { package: func.package }),
+          ...(observability && { observability }),
           effectSignature: {
             success: 'unknown',
             error: [],
@@ -554,65 +646,54 @@ class EffectRailwayApp {
       });
     });
 
-    // Create a name-based lookup map for finding target functions
-    const nodesByName = new Map<string, string[]>(); // name -> [nodeIds]
-    nodes.forEach(node => {
-      if (!nodesByName.has(node.name)) {
-        nodesByName.set(node.name, []);
-      }
-      nodesByName.get(node.name)?.push(node.id);
-    });
-
     // Create edges based on function calls
     functionAnalysis.functions.forEach((func: FunctionInfo) => {
-      const sourceKey = `${func.file}:${func.name}:${func.startLine}`;
-      const sourceId = nodeMap.get(sourceKey);
-      
-      if (sourceId) {
-        func.calls.forEach((call: FunctionLocation) => {
-          // First try exact match with file and line
-          const exactKey = `${call.file}:${call.name}:${call.line}`;
-          let targetId = nodeMap.get(exactKey);
-          
-          // If no exact match, try to find by name
-          if (!targetId) {
-            const possibleTargets = nodesByName.get(call.name) || [];
-            // If there's only one function with this name, use it
-            if (possibleTargets.length === 1) {
-              targetId = possibleTargets[0];
-            } else if (possibleTargets.length > 1) {
-              // Try to match by file if multiple functions have same name
-              const sameFile = possibleTargets.find(id => {
-                const node = nodes.find(n => n.id === id);
-                return node?.filePath === call.file;
-              });
-              if (sameFile) {
-                targetId = sameFile;
-              }
-            }
-          }
-          
-          if (targetId && targetId !== sourceId) {
-            edges.push({
-              id: `edge-${sourceId}-${targetId}`,
-              source: sourceId,
-              target: targetId,
-              type: 'dependency' as EdgeType
-            });
-          }
-        });
-      }
+      func.calls.forEach((call: FunctionLocation) => {
+        if (nodeIds.has(call.id) && call.id !== func.id) {
+          edges.push({
+            id: `edge-${func.id}-${call.id}`,
+            source: func.id,
+            target: call.id,
+            type: 'dependency' as EdgeType
+          });
+        }
+      });
     });
 
+    // Add the crawler's entry points (HTTP routes and programs run) that are not functions,
+    // in the lane of their file's folder, with their edges into the functions
+    const entryIds = new Set((this.effectAnalysis?.railway.nodes || [])
+      .filter(node => node.route || node.runtime)
+      .map(node => node.id));
+    this.effectAnalysis?.railway.nodes
+      .filter(node => entryIds.has(node.id) && !nodeIds.has(node.id))
+      .forEach(node => {
+        const file = node.id.split('#')[0] || '';
+        const fileFolder = file.includes('/') ? file.slice(0, file.lastIndexOf('/')) : 'root';
+        const folder = this.groupBy === 'package' && node.package ? node.package : fileFolder;
+        nodeIds.add(node.id);
+        nodes.push({ ...node, type: this.mapFolderToNodeType(folder), filePath: file, folder });
+      });
+    this.effectAnalysis?.railway.edges
+      .filter(edge => (entryIds.has(edge.source) || entryIds.has(edge.target)) &&
+                      nodeIds.has(edge.source) && nodeIds.has(edge.target))
+      .forEach(edge => edges.push(edge));
+    
     // Calculate statistics - group by actual folders
     const nodesByFolder: Record<string, number> = {};
     const nodesByType: Record<string, number> = {};
+    const nodesByPackage: Record<string, number> = {};
     
     nodes.forEach(node => {
       // Count by full folder path
       const folder = node.folder || 'root';
       nodesByFolder[folder] = (nodesByFolder[folder] || 0) + 1;
       
+      // Count by workspace package
+      if (node.package) {
+        nodesByPackage[node.package] = (nodesByPackage[node.package] || 0) + 1;
+      }
+      
       // Count by folder type (last part of path)
       nodesByType[node.type] = (nodesByType[node.type] || 0) + 1;
     });
@@ -621,9 +702,12 @@ class EffectRailwayApp {
     const edgesPerType: Record<string, number> = {
       success: 0,
       error: 0,
-      dependency: edges.length, // All edges are dependencies in function analysis
+      dependency: 0,
       pipe: 0
     };
+    edges.forEach(edge => {
+      edgesPerType[edge.type] = (edgesPerType[edge.type] || 0) + 1;
+    });
     
     const statistics = {
       totalNodes: nodes.length,
@@ -641,7 +725,8 @@ class EffectRailwayApp {
         veryHigh: functionAnalysis.summary.veryHighComplexity
       },
       avgDependencies: functionAnalysis.metadata.avgDependencies,
-      totalFolders: Object.keys(nodesByFolder).length
+      totalFolders: Object.keys(nodesByFolder).length,
+      ...(Object.keys(nodesByPackage).length > 0 && { nodesByPackage })
     };
 
     return {
@@ -655,12 +740,16 @@ class EffectRailwayApp {
           middleware: [],
           utilities: [],
           workers: [],
-          errors: []
+          errors: [],
+          schemas: [],
+          dataflow: []
         },
-        entryPoints: [], // Initialize empty entryPoints array
+        entryPoints: Array.from(entryIds).filter(id => nodeIds.has(id)),
         compositions: []
       },
-      statistics
+      statistics,
+      ...(functionAnalysis.packages && { packages: functionAnalysis.packages }),
+      ...(this.effectAnalysis?.observability && { observability: this.effectAnalysis.observability })
     };
   }
 
@@ -876,7 +965,9 @@ class EffectRailwayApp {
           middleware: ['node-6'],
           utilities: [],
           workers: ['node-9'],
-          errors: ['node-7', 'node-8']
+          errors: ['node-7', 'node-8'],
+          schemas: [],
+          dataflow: []
         },
         entryPoints: ['node-1', 'node-2']
       },
@@ -896,7 +987,10 @@ class EffectRailwayApp {
           success: 0,
           error: 4,
           dependency: 7,
-          pipe: 0
+          pipe: 0,
+          schema: 0,
+          message: 0,
+          concurrent: 0
         },
         errorTypes: ['ValidationError', 'DatabaseError', 'EnrichmentError'],
         dependencyTypes: ['LoggerService', 'JournalistsRepository', 'DatabaseService', 'AgentOrchestrationService']
@@ -13,10 +13,47 @@
  * ```
  */
 
+// Streams, sinks, schedules, STM values and transactional refs, queues and pubsubs
+export type DataflowNodeType = 'stream' | 'sink' | 'schedule' | 'stm' | 'queue' | 'pubsub';
+export const DATAFLOW_NODE_TYPES: DataflowNodeType[] = ['stream', 'sink', 'schedule', 'stm', 'queue', 'pubsub'];
+
+// Edges along which an effect runs another
+export const RUN_EDGES: EdgeType[] = ['dependency', 'pipe', 'concurrent'];
+
+// IO effects are repositories and effects calling Effect.tryPromise / promise / async, HttpClient or fetch
+export const isIoNode = (node: EffectNode): boolean => !!node.io || node.type === 'repository';
+
 // NodeType can be predefined types or any folder name string
-export type NodeType = 'controller' | 'service' | 'repository' | 'middleware' | 'utility' | 'worker' | 'error' | string;
+export type NodeType = 'controller' | 'service' | 'repository' | 'middleware' | 'utility' | 'worker' | 'error' |
+                       DataflowNodeType | string;
+
+// A rule giving a layer type to declarations that match every condition it sets
+export interface ClassificationRule {
+  type: NodeType;
+  priority?: number;    // The highest matching priority wins; ties go to the earlier rule
+  path?: string;        // Glob on the file path relative to the analyzed root, e.g. "src/handlers/**"
+  className?: string;   // Wildcard pattern on the enclosing class name, e.g. "*Controller"
+  decorator?: string;   // Decorator on the declaration or its class, e.g. "Controller"
+  tag?: string;         // Wildcard pattern on the Context.Tag / Effect.Service key of its class, e.g. "app/repo/*"
+}
+
+// A swim lane of the railway layout and the node types laid out in it
+export interface LaneDefinition {
+  name: string;
+  types: string[];
+}
+
+export interface ClassificationRules {
+  rules: ClassificationRule[];
+  lanes: LaneDefinition[];  // In layout order
+  fallback: NodeType;       // Type of declarations no rule matches
+}
 
-export type EdgeType = 'success' | 'error' | 'dependency' | 'pipe';
+// Schema edges run from an effect to a schema it decodes, encodes or returns; `label` says which
+// Message edges run from an effect offering to a Queue or publishing to a PubSub to an effect
+// taking from or subscribing to the same instance; `label` names the instance
+// Concurrent edges run from an effect to an effect it forks, races or runs with Effect.all / forEach
+export type EdgeType = 'success' | 'error' | 'dependency' | 'pipe' | 'schema' | 'message' | 'concurrent';
 
 export interface EffectSignature {
   success: string;    // A type
@@ -24,19 +61,248 @@ export interface EffectSignature {
   dependencies: string[]; // R type
 }
 
+export type ServiceKind = 'context-tag' | 'effect-tag' | 'effect-service' | 'generic-tag';
+
+export interface ServiceDefinition {
+  key: string;        // Tag identifier, e.g. "UserRepo"
+  kind: ServiceKind;
+  members: string[];  // Member names of the service shape
+}
+
+export type PipelineKind = 'pipe' | 'method-pipe' | 'flow' | 'effect-fn';
+
+// One stage of a pipeline, in the order stages are applied
+export interface PipelineStep {
+  index: number;
+  operator: string;   // Callee of the stage, e.g. "Effect.catchTag", or the stage as written
+  line: number;
+}
+
+export interface Pipeline {
+  kind: PipelineKind;
+  source?: string;    // What the stages are applied to, as written; absent for flow and Effect.fn
+  steps: PipelineStep[];
+}
+
+// How an effect was detected: an Effect-typed (or Stream, resource, IO...) declaration or class method,
+// an Effect.gen call, or a pipeline
+export type DetectionPattern = 'declaration' | 'method' | 'effect-gen' | PipelineKind;
+
+export type HttpRouteFramework = 'http-api' | 'http-router';
+
+// Schemas a route decodes, as written in the source
+export interface HttpRouteSchemas {
+  path?: string;
+  query?: string;
+  body?: string;
+  success?: string;
+}
+
+// An HTTP route from @effect/platform: an HttpApiEndpoint or an HttpRouter registration
+export interface HttpRoute {
+  framework: HttpRouteFramework;
+  method: string;     // "GET", "POST", ...; "*" for HttpRouter.all
+  path: string;       // Including the prefix of its HttpApiGroup
+  endpoint?: string;  // HttpApiEndpoint name, e.g. "getUser"
+  group?: string;     // HttpApiGroup name, e.g. "users"
+  schemas: HttpRouteSchemas;
+}
+
+export type RuntimeEntryKind = 'http-server' | 'cli' | 'worker' | 'script';
+
+// Where a program is run: NodeRuntime.runMain, Effect.runPromise, a ManagedRuntime...
+export interface RuntimeEntry {
+  runner: string;         // e.g. "NodeRuntime.runMain", "ManagedRuntime.runPromise"
+  kind: RuntimeEntryKind;
+  effect?: string;        // The effect being run, as written; unset for Layer.launch
+  layers: string[];       // Layers supplied via Effect.provide, Layer.launch or ManagedRuntime.make
+}
+
+// Effect.runSync / runPromise called inside an effect instead of yielding what it runs
+export interface NestedRun {
+  runner: string;
+  nodeId: string;         // Effect making the call
+  filePath: string;
+  line: number;
+}
+
+export type SchemaKind = 'struct' | 'tagged-struct' | 'class' | 'tagged-class' | 'tagged-request';
+
+export type SchemaUsage = 'decodes' | 'encodes' | 'returns';
+
+// One field of a schema, as written in the source
+export interface SchemaField {
+  name: string;
+  schema: string;     // Field schema, e.g. "Schema.String"
+  optional: boolean;  // Wrapped in Schema.optional / Schema.optionalWith
+}
+
+// A Schema.Struct / Schema.Class / Schema.TaggedRequest declaration
+export interface SchemaDefinition {
+  kind: SchemaKind;
+  tag?: string;        // `_tag` of tagged structs, classes and requests
+  fields: SchemaField[];
+  typeNames: string[]; // Names its decoded type goes by, e.g. `User` for `type User = typeof UserSchema.Type`
+  success?: string;    // Success schema of a TaggedRequest, as written
+  failure?: string;    // Failure schema of a TaggedRequest, as written
+}
+
+export type ConcurrencyKind = 'fork' | 'fork-daemon' | 'fork-scoped' | 'race' | 'all' | 'for-each' | 'join';
+
+// Where an effect forks a fiber, races effects, runs effects concurrently or joins a fiber
+export interface ConcurrencyPoint {
+  kind: ConcurrencyKind;
+  operator: string;      // Callee as written, e.g. "Effect.forkDaemon"
+  concurrency?: string;  // `concurrency` option of Effect.all / forEach: "unbounded", "inherit" or a number
+  line: number;
+}
+
+// An Effect.all / forEach call site running any number of effects at once
+export interface UnboundedConcurrency {
+  nodeId: string;        // Effect containing the call
+  operator: string;
+  filePath: string;
+  line: number;
+}
+
+// A resource acquired or finalizer registered by an effect
+export interface ResourceAcquisition {
+  operator: string;      // e.g. "Effect.acquireRelease", "Effect.addFinalizer"
+  resource: string;      // Acquiring effect or finalizer, as written
+  line: number;
+}
+
+// Where a scope is provided and closed: Effect.scoped, Layer.scoped, Scope.extend...
+export interface ScopeClosure {
+  operator: string;
+  filePath: string;
+  line: number;
+  nodeId?: string;       // Effect applying it; absent for top-level layers
+}
+
+export interface ResourceLifecycle {
+  acquires: ResourceAcquisition[];
+  scoped: boolean;         // Needs a Scope: acquires without closing it, or runs an effect that does
+  closedBy: ScopeClosure[];
+}
+
+// A scoped effect whose scope no Effect.scoped or scoped layer closes
+export interface UnclosedScope {
+  nodeId: string;
+  filePath: string;
+  line: number;
+  acquiredIn: string[];  // Node IDs of the effects acquiring the resources it keeps open
+}
+
+export type ResilienceKind = 'retry' | 'timeout' | 'repeat';
+
+// One Schedule constructor or combinator, e.g. { combinator: "exponential", argument: "100 millis" }
+export interface ScheduleStep {
+  combinator: string;
+  argument?: string;     // First argument, as written; absent for combinators taking only schedules
+}
+
+// An Effect.retry / timeout / repeat applied by an effect
+export interface ResiliencePolicy {
+  kind: ResilienceKind;
+  operator: string;      // e.g. "Effect.retry", "Effect.timeoutFail"
+  target?: string;       // Node ID of the effect it wraps; absent when it wraps the node's own effect
+  schedule?: ScheduleStep[]; // In source order
+  times?: string;        // `times` option or Effect.repeatN count, as written
+  duration?: string;     // Timeout duration, as written
+  line: number;
+}
+
+export type ObservabilityKind = 'span' | 'span-annotation' | 'log-annotation' | 'log';
+
+// A span, annotation or log call made by an effect
+export interface ObservabilityPoint {
+  kind: ObservabilityKind;
+  operator: string;      // e.g. "Effect.withSpan", "Effect.fn", "Effect.logError"
+  name?: string;         // Span name, annotation keys or log message, when written as literals
+  target?: string;       // Node ID of the effect a span wraps; absent when it wraps the node's own effect
+  line: number;
+}
+
+// A path from an entry point to an IO effect on which no effect opens a span
+export interface UnobservedPath {
+  entryId: string;
+  ioId: string;
+  path: string[];        // Node IDs from the entry point to the IO effect
+}
+
+// A span name opened at several places, which makes traces ambiguous
+export interface DuplicateSpan {
+  name: string;
+  sites: Array<{ nodeId: string; line: number }>;
+}
+
+export interface ObservabilityReport {
+  spans: number;                   // Span sites found
+  unobservedPaths: UnobservedPath[];
+  duplicateSpans: DuplicateSpan[];
+}
+
+// A configuration value an effect reads, keyed as the default environment provider reads it
+export interface ConfigRequirement {
+  key: string;           // e.g. "DATABASE_HOST" for `Config.nested(Config.string("HOST"), "DATABASE")`
+  type: string;          // "string", "number", "redacted", "array<string>", ...
+  default?: string;      // Config.withDefault value, as written
+  optional?: boolean;    // Wrapped in Config.option
+}
+
+// A config key an entry point needs, and the effects reading it
+export interface ConfigKey extends ConfigRequirement {
+  readBy: string[];      // Node IDs
+}
+
+// Every config key a route or worker needs through the effects it runs
+export interface ConfigInventoryEntry {
+  entryId: string;
+  keys: ConfigKey[];
+}
+
+// Where configuration is supplied: ConfigProvider.fromMap, Layer.setConfigProvider, ...
+export interface ConfigProviderUsage {
+  operator: string;
+  filePath: string;
+  line: number;
+  nodeId?: string;       // Effect using it; absent for top-level layers and providers
+}
+
 export interface EffectNode {
-  id: string;
+  id: string;                  // `relative/path.ts#Qualified.name`, stable across runs and line shifts
   name: string;
   type: NodeType;
   filePath: string;
   line: number;
+  fingerprint?: string;        // Token hash of the node's source; tells apart same-named nodes of one file
   effectSignature?: EffectSignature;
+  service?: ServiceDefinition; // Set on Context.Tag / Effect.Service nodes
+  memberOf?: string;           // Owning service node ID for service members
+  errorTag?: string;           // `_tag` of Data.TaggedError / Schema.TaggedError nodes
+  pipeline?: Pipeline;         // Set on pipe, `.pipe()`, flow and Effect.fn nodes
+  patterns?: DetectionPattern[]; // Detections merged into an effect node, outermost first
+  route?: HttpRoute;           // Set on HTTP route entry nodes
+  runtime?: RuntimeEntry;      // Set on program entry nodes
+  schema?: SchemaDefinition;   // Set on schema nodes
+  concurrency?: ConcurrencyPoint[]; // Set on Effect.gen nodes that fork, race, join or run effects concurrently
+  resources?: ResourceLifecycle;    // Set on effects that acquire resources, need a scope or have it closed
+  config?: ConfigRequirement[];     // Set on effects reading Config values
+  resilience?: ResiliencePolicy[];  // Set on effects applying retries, timeouts or repeats
+  io?: boolean;                     // Set on effects calling out: Effect.tryPromise / promise / async, HttpClient, fetch
+  observability?: ObservabilityPoint[]; // Set on effects opening spans, annotating them or logging
   description?: string;
   folder?: string; // Full folder path
+  package?: string; // Workspace package name, set in workspace mode
   metrics?: {
-    callsCount: number;
-    calledByCount: number;
+    callsCount: number;     // Fan-out: distinct nodes this one has edges to
+    calledByCount: number;  // Fan-in: distinct nodes with edges to this one
     lines: number;
+    endLine?: number;       // Set on crawler nodes, with the 1-based columns of the first and last character
+    column?: number;
+    endColumn?: number;
+    yieldCount?: number;    // `yield*` steps of an Effect.gen / Effect.fn body
   };
   // D3 layout properties
   x?: number;
@@ -52,32 +318,127 @@ export interface EffectEdge {
   type: EdgeType;
   label?: string;
   errorType?: string;
+  line?: number; // Source line of the expression that created the edge
+  handlers?: ErrorHandler[]; // Set on error edges whose failure is caught downstream
+  concurrency?: ConcurrencyPoint; // Set on concurrent edges
+}
+
+export type ErrorHandlerKind = 'catchTag' | 'catchTags' | 'catchAll' | 'orElse' | 'mapError';
+
+// Where a failure on an error edge is absorbed
+export interface ErrorHandler {
+  kind: ErrorHandlerKind;
+  handledBy: string; // Node ID of the effect that applies the handler
+  line: number;
 }
 
 export interface EffectRailway {
   nodes: EffectNode[];
   edges: EffectEdge[];
   layers: LayerMap;
-  entryPoints: string[]; // Node IDs that are HTTP endpoints
+  entryPoints: string[]; // HTTP route and program entry node IDs; nodes without incoming edges when neither is found
+  lanes?: LaneDefinition[]; // Swim lanes of the classification rules the nodes were typed with
+}
+
+// Node IDs per swim lane, keyed by lane name: `controllers`, `services`, ... by default,
+// or the lanes of a rules file. Nodes of types no lane lists are under `other`
+export type LayerMap = Record<string, string[]>;
+
+export type LayerKind = 'succeed' | 'sync' | 'effect' | 'scoped' | 'function' | 'merge' | 'provide' | 'service-default' | 'other';
+
+export interface LayerNode {
+  id: string;
+  name: string;
+  kind: LayerKind;
+  filePath: string;
+  line: number;
+  provides: string[];   // Tags in the ROut channel
+  requires: string[];   // Tags in the RIn channel
+  composedOf: string[]; // IDs of the named layers it combines; unresolved references as written
+  services: string[];   // IDs of the service nodes it builds itself: `Layer.effect(UserRepo, ...)`, `.Default`
+  effects: string[];    // IDs of the effect nodes that build them
+}
+
+// A runtime entry point (Effect.runPromise, runMain, Layer.launch, ...) and what it is given
+export interface LayerProvision {
+  entry: string;        // e.g. "Effect.runPromise"
+  effect: string;       // The effect being run, as written
+  filePath: string;
+  line: number;
+  layers: string[];     // Layers supplied via Effect.provide: IDs of named layers, others as written
+  requires: string[];   // Requirements of the effect before provisioning
+  unprovided: string[]; // Requirements no supplied layer satisfies
+}
+
+export interface UnprovidedRequirement {
+  tag: string;
+  entry: string;
+  filePath: string;
+  line: number;
+}
+
+export interface DuplicateProvision {
+  tag: string;
+  providers: string[]; // Layers that each provide the tag: IDs of named layers, others as written
+  filePath: string;
+  line: number;
+}
+
+export interface LayerGraph {
+  layers: LayerNode[];
+  provisions: LayerProvision[];
+  unprovidedRequirements: UnprovidedRequirement[];
+  duplicateProvisions: DuplicateProvision[];
+}
+
+// A reference that matched several nodes by name and was left unlinked
+export interface AmbiguousReference {
+  name: string;
+  filePath: string;
+  line: number;
+  candidates: string[]; // Node IDs sharing the name
+}
+
+// Edges from one workspace package into another
+export interface PackageCoupling {
+  from: string;   // Package of the calling node
+  to: string;     // Package of the called node
+  count: number;
+}
+
+// How a workspace package depends on the rest of the workspace
+export interface PackageStats {
+  members: number;        // Nodes or functions in the package
+  internalEdges: number;
+  outgoing: number;       // Efferent coupling: edges into other packages
+  incoming: number;       // Afferent coupling: edges from other packages
+  dependsOn: string[];
+  dependedOnBy: string[];
+  instability: number;    // outgoing / (incoming + outgoing); 0 for isolated packages
 }
 
-export interface LayerMap {
-  controllers: string[];
-  services: string[];
-  repositories: string[];
-  middleware: string[];
-  utilities: string[];
-  workers: string[];
-  errors: string[];
+export interface PackageReport {
+  packages: Record<string, PackageStats>;
+  coupling: PackageCoupling[]; // Most coupled package pairs first
 }
 
 export interface AnalysisResult {
   railway: EffectRailway;
+  layerGraph?: LayerGraph;
+  ambiguousReferences?: AmbiguousReference[];
+  unboundedConcurrency?: UnboundedConcurrency[];
+  unclosedScopes?: UnclosedScope[];
+  configInventory?: ConfigInventoryEntry[];
+  configProviders?: ConfigProviderUsage[];
+  observability?: ObservabilityReport;
+  nestedRuns?: NestedRun[];
+  packages?: PackageReport; // Set in workspace mode
   statistics: {
     totalNodes: number;
     totalEdges: number;
     nodesPerType: Record<string, number>; // Dynamic folder names as keys
     nodesByFolder?: Record<string, number>; // Full folder paths
+    nodesByPackage?: Record<string, number>; // Workspace package names
     edgesPerType: Record<EdgeType, number>;
     errorTypes: string[];
     dependencyTypes: string[];
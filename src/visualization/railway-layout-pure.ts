@@ -13,7 +13,8 @@
  * ```
  */
 
-import type { EffectNode, EffectEdge, EffectRailway } from '../types/effect-node.js';
+import type { EffectNode, EffectEdge, EffectRailway, LaneDefinition } from '../types/effect-node.js';
+import { DEFAULT_CLASSIFICATION_RULES, CATCH_ALL_LANE, groupByLane } from '../crawler/classification-rules-pure.js';
 
 export interface RailwayPosition {
   x: number;
@@ -39,38 +40,11 @@ const DEFAULT_CONFIG: Required<RailwayLayoutConfig> = {
   nodeSpacing: 40
 };
 
-// Lane order definition (swim lanes like BPMN)
-const LANE_ORDER = [
-  'controllers',  // Lane 0 - Entry points (HTTP endpoints)
-  'middleware',   // Lane 1 - Request processing
-  'services',     // Lane 2 - Business logic
-  'repositories', // Lane 3 - Data access
-  'workers',      // Lane 4 - Background processing
-  'utilities',    // Lane 5 - Helper functions
-  'errors'        // Lane 6 - Error handling
-] as const;
-
 // Pure function to assign nodes to lanes
-const assignNodesToLanes = (nodes: EffectNode[]): Map<number, EffectNode[]> => {
-  const lanes = new Map<number, EffectNode[]>();
-  
-  // Initialize all lanes
-  for (let i = 0; i < LANE_ORDER.length; i++) {
-    lanes.set(i, []);
-  }
-  
-  // Assign nodes to lanes based on type
-  nodes.forEach(node => {
-    const layerKey = (node.type + 's') as typeof LANE_ORDER[number];
-    const laneIndex = LANE_ORDER.indexOf(layerKey);
-    
-    if (laneIndex !== -1) {
-      const laneNodes = lanes.get(laneIndex) || [];
-      lanes.set(laneIndex, [...laneNodes, node]);
-    }
-  });
-  
-  return lanes;
+// Lanes come from the classification rules the railway was built with; nodes of types no lane
+// lists share a catch-all lane below them
+const assignNodesToLanes = (nodes: EffectNode[], laneDefinitions: LaneDefinition[]): Map<number, EffectNode[]> => {
+  return new Map(groupByLane(laneDefinitions, nodes).map((lane, index) => [index, lane.items]));
 };
 
 // Pure function to calculate flow stages
@@ -301,7 +275,7 @@ export const calculateRailwayLayout = (
   const finalConfig = { ...DEFAULT_CONFIG, ...config };
   
   // Step 1: Assign nodes to lanes
-  const lanes = assignNodesToLanes(railway.nodes);
+  const lanes = assignNodesToLanes(railway.nodes, railway.lanes || DEFAULT_CLASSIFICATION_RULES.lanes);
   
   // Step 2: Calculate flow stages
   const stages = calculateFlowStages(railway.nodes, railway.edges, lanes);
@@ -404,17 +378,9 @@ const calculateLayoutMetrics = (
 };
 
 // Pure function to get lane label
-export const getLaneLabel = (laneIndex: number): string => {
-  const labels = [
-    'Controllers',
-    'Middleware',
-    'Services',
-    'Repositories',
-    'Workers',
-    'Utilities',
-    'Errors'
-  ];
-  return labels[laneIndex] || `Lane ${laneIndex}`;
+export const getLaneLabel = (laneIndex: number, lanes: LaneDefinition[] = DEFAULT_CLASSIFICATION_RULES.lanes): string => {
+  const name = laneIndex === lanes.length ? CATCH_ALL_LANE : lanes[laneIndex]?.name;
+  return name ? name.charAt(0).toUpperCase() + name.slice(1) : `Lane ${laneIndex}`;
 };
 
 // Pure function to get lane color
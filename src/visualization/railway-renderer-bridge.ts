@@ -138,6 +138,8 @@ export class RailwayRendererBridge {
   private width: number;
   private height: number;
   private tooltip: d3.Selection<HTMLDivElement, unknown, HTMLElement, any> | null = null;
+  private showEntryPoints = true;
+  private showObservability = false;
 
   constructor(svgElement: SVGElement | HTMLElement) {
     // Initialize D3 selection
@@ -175,7 +177,9 @@ export class RailwayRendererBridge {
       width: this.width,
       height: this.height,
       showLabels: true,
-      showMetrics: true
+      showMetrics: true,
+      showEntryPoints: this.showEntryPoints,
+      showObservability: this.showObservability
     };
     
     const { instructions, state, handlers } = renderRailway(data, config);
@@ -311,6 +315,14 @@ export class RailwayRendererBridge {
     this.updateVisualization(filteredState);
   }
 
+  public setShowEntryPoints(show: boolean): void {
+    this.showEntryPoints = show;
+  }
+  
+  public setShowObservability(show: boolean): void {
+    this.showObservability = show;
+  }
+  
   public filterByType(type: string): void {
     this.filter(type);
   }
@@ -22,6 +22,8 @@ export interface RenderConfig {
   theme?: 'light' | 'dark';
   showLabels?: boolean;
   showMetrics?: boolean;
+  showEntryPoints?: boolean; // Ring around entry points; on unless set to false
+  showObservability?: boolean; // Rings marking spans and unobserved paths to IO; off unless set to true
 }
 
 // Render instruction types
@@ -226,14 +228,24 @@ const NODE_COLORS: Record<NodeType, string> = {
   middleware: '#F59E0B',
   worker: '#EF4444',
   utility: '#6B7280',
-  error: '#DC2626'
+  error: '#DC2626',
+  schema: '#0EA5E9',
+  stream: '#06B6D4',
+  sink: '#0891B2',
+  schedule: '#A855F7',
+  stm: '#EC4899',
+  queue: '#F97316',
+  pubsub: '#EAB308'
 };
 
 const EDGE_COLORS: Record<EdgeType, string> = {
   success: '#10B981',
   error: '#EF4444',
   dependency: '#94A3B8',
-  pipe: '#3B82F6'
+  pipe: '#3B82F6',
+  schema: '#0EA5E9',
+  message: '#F97316',
+  concurrent: '#8B5CF6'
 };
 
 
@@ -481,15 +493,41 @@ const calculateMetrics = (
   };
 };
 
+// Observability overlay colors
+const OBSERVABILITY_COLORS = {
+  span: '#10B981',        // Opens a span
+  duplicate: '#F59E0B',   // Opens a span whose name is also opened elsewhere
+  unobserved: '#DC2626'   // On a path from an entry point to IO without any span
+};
+
+// Pure function to pick the overlay ring color of each node from the observability report
+const getObservabilityRings = (data: AnalysisResult): Map<string, string> => {
+  const rings = new Map<string, string>();
+  data.railway.nodes.forEach(node => {
+    if (node.observability?.some(point => point.kind === 'span')) rings.set(node.id, OBSERVABILITY_COLORS.span);
+  });
+  data.observability?.duplicateSpans.forEach(span => {
+    span.sites.forEach(site => rings.set(site.nodeId, OBSERVABILITY_COLORS.duplicate));
+  });
+  data.observability?.unobservedPaths.forEach(path => {
+    path.path.forEach(nodeId => rings.set(nodeId, OBSERVABILITY_COLORS.unobserved));
+  });
+  return rings;
+};
+
 // Pure function to generate render instructions for nodes
-const generateNodeInstructions = (positions: NodePosition[]): RenderInstruction[] => {
+const generateNodeInstructions = (
+  positions: NodePosition[],
+  showEntryPoints: boolean,
+  observabilityRings: Map<string, string>
+): RenderInstruction[] => {
   return positions.map(pos => ({
     type: 'group' as const,
     className: `node node-${pos.node.type}`,
     transform: `translate(${pos.x},${pos.y})`,
     children: [
       // Outer ring for entry points
-      pos.isEntryPoint ? {
+      pos.isEntryPoint && showEntryPoints ? {
         type: 'circle' as const,
         cx: 0,
         cy: 0,
@@ -500,6 +538,17 @@ const generateNodeInstructions = (positions: NodePosition[]): RenderInstruction[
         opacity: 0.3,
         className: 'entry-point-ring'
       } : null,
+      // Observability overlay ring
+      observabilityRings.has(pos.node.id) ? {
+        type: 'circle' as const,
+        cx: 0,
+        cy: 0,
+        r: pos.radius + 7,
+        fill: 'none',
+        stroke: observabilityRings.get(pos.node.id)!,
+        strokeWidth: 2,
+        className: 'observability-ring'
+      } : null,
       // Main node circle
       {
         type: 'circle' as const,
@@ -762,7 +811,11 @@ export const renderRailway = (
     {
       type: 'group',
       className: 'nodes',
-      children: generateNodeInstructions(nodePositions)
+      children: generateNodeInstructions(
+        nodePositions,
+        config.showEntryPoints !== false,
+        config.showObservability ? getObservabilityRings(data) : new Map()
+      )
     }
   ];
   
@@ -796,6 +849,8 @@ export const renderRailway = (
           <span style="color: #666;">Type:</span> ${node.type}<br>
           <span style="color: #666;">File:</span> ${node.filePath}:${node.line}<br>
           <span style="color: #666;">Folder:</span> ${node.folder || 'root'}<br>
+          ${node.route ? `<span style="color: #666;">Route:</span> <code>${node.route.method} ${node.route.path}</code><br>
+          ${Object.entries(node.route.schemas).map(([slot, schema]) => `<span style="color: #666;">${slot}:</span> <code>${schema}</code><br>`).join('')}` : ''}
           ${node.description ? `<div style="margin-top: 0.5rem; font-size: 0.85rem; color: #555;">${node.description}</div>` : ''}
         `;
       }
@@ -813,6 +868,70 @@ Effect&lt;${sig.success || 'unknown'}, ${(sig.error || []).join(' | ') || 'never
         effectSignature.innerHTML = `<div style="color: #666; font-style: italic;">No Effect signature available</div>`;
       }
       
+      // List pipeline stages in the order they are applied
+      if (effectSignature && node.pipeline && node.pipeline.steps.length > 0) {
+        effectSignature.innerHTML += `
+          <div style="margin-top: 0.5rem; font-size: 0.85rem;">
+            <span style="color: #666;">Pipeline (${node.pipeline.kind}):</span>
+            ${node.pipeline.source ? `<code>${node.pipeline.source}</code>` : ''}
+            <ol style="margin: 0.25rem 0 0 1.25rem; padding: 0;">
+              ${node.pipeline.steps.map(step => `<li><code>${step.operator}</code> <span style="color: #666;">line ${step.line}</span></li>`).join('')}
+            </ol>
+          </div>
+        `;
+      }
+      
+      // List where the effect forks, races, joins or runs effects concurrently
+      if (effectSignature && node.concurrency && node.concurrency.length > 0) {
+        effectSignature.innerHTML += `
+          <div style="margin-top: 0.5rem; font-size: 0.85rem;">
+            <span style="color: #666;">Concurrency:</span>
+            <ul style="margin: 0.25rem 0 0 1.25rem; padding: 0;">
+              ${node.concurrency.map(point => `<li><code>${point.operator}</code>${point.concurrency ? ` <span style="color: ${point.concurrency === 'unbounded' ? '#DC2626' : '#666'};">concurrency: ${point.concurrency}</span>` : ''} <span style="color: #666;">line ${point.line}</span></li>`).join('')}
+            </ul>
+          </div>
+        `;
+      }
+      
+      // Show the resources the effect acquires and where their scope is closed
+      if (effectSignature && node.resources) {
+        const { acquires, scoped, closedBy } = node.resources;
+        effectSignature.innerHTML += `
+          <div style="margin-top: 0.5rem; font-size: 0.85rem;">
+            <span style="color: #666;">Resources:</span>
+            <ul style="margin: 0.25rem 0 0 1.25rem; padding: 0;">
+              ${acquires.map(acquisition => `<li><code>${acquisition.operator}</code> ${acquisition.resource} <span style="color: #666;">line ${acquisition.line}</span></li>`).join('')}
+              ${closedBy.map(closure => `<li>closed by <code>${closure.operator}</code> <span style="color: #666;">${closure.filePath}:${closure.line}</span></li>`).join('')}
+              ${scoped && closedBy.length === 0 ? `<li style="color: #DC2626;">needs a <code>Scope</code> from the effects running it</li>` : ''}
+            </ul>
+          </div>
+        `;
+      }
+      
+      // List the config keys the effect reads
+      if (effectSignature && node.config && node.config.length > 0) {
+        effectSignature.innerHTML += `
+          <div style="margin-top: 0.5rem; font-size: 0.85rem;">
+            <span style="color: #666;">Config:</span>
+            <ul style="margin: 0.25rem 0 0 1.25rem; padding: 0;">
+              ${node.config.map(requirement => `<li><code>${requirement.key}</code> <span style="color: #666;">${requirement.type}${requirement.optional ? ', optional' : ''}${requirement.default !== undefined ? `, default ${requirement.default}` : ''}</span></li>`).join('')}
+            </ul>
+          </div>
+        `;
+      }
+      
+      // List the retries, timeouts and repeats the effect applies
+      if (effectSignature && node.resilience && node.resilience.length > 0) {
+        effectSignature.innerHTML += `
+          <div style="margin-top: 0.5rem; font-size: 0.85rem;">
+            <span style="color: #666;">Resilience:</span>
+            <ul style="margin: 0.25rem 0 0 1.25rem; padding: 0;">
+              ${node.resilience.map(policy => `<li><code>${policy.operator}</code>${policy.duration ? ` ${policy.duration}` : ''}${policy.times ? ` × ${policy.times}` : ''}${policy.schedule ? ` <code>${policy.schedule.map(step => step.argument ? `${step.combinator}(${step.argument})` : step.combinator).join(' → ')}</code>` : ''} <span style="color: #666;">line ${policy.line}</span></li>`).join('')}
+            </ul>
+          </div>
+        `;
+      }
+      
       // Calculate and display dependencies
       const upstreamNodes: EffectNode[] = [];
       const downstreamNodes: EffectNode[] = [];